@@ -0,0 +1,23 @@
+-- Migration: Full-text search over reports
+-- Date: 2026-10-19
+-- Description: GIN expression indexes backing keyword search on reports.
+-- The 'simple' configuration is used because descriptions mix English,
+-- Filipino and Surigaonon; stemming for a single language would hurt recall.
+-- Expressions must match REPORT_SEARCH_VECTOR / ADMIN_SEARCH_VECTOR in models/Report.ts
+
+BEGIN;
+
+-- Public search: description + address
+CREATE INDEX IF NOT EXISTS idx_reports_search ON reports USING GIN ((
+    setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(address, '')), 'B')
+));
+
+-- Admin search: description + address + admin_notes
+CREATE INDEX IF NOT EXISTS idx_reports_admin_search ON reports USING GIN ((
+    setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(address, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(admin_notes, '')), 'C')
+));
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: Keyset pagination index for report listings
+-- Date: 2026-10-19
+-- Description: Composite (created_at, id) index so cursor pagination can seek
+-- directly to the next page instead of scanning past an OFFSET.
+-- Row comparison in ReportModel.findMany: (created_at, id) < ($cursor_created_at, $cursor_id)
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_reports_created_at_id ON reports (created_at DESC, id DESC);
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: Report status history (audit trail)
+-- Date: 2026-10-19
+-- Description: One row per status change, written in the same transaction as
+-- the report update (ReportModel.update). changed_by is kept nullable so history
+-- survives removal of the admin user who made the change.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS report_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    old_status VARCHAR(20),
+    new_status VARCHAR(20) NOT NULL,
+    changed_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    note TEXT CHECK (length(note) <= 500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_status_history_report ON report_status_history (report_id, created_at);
+
+COMMIT;
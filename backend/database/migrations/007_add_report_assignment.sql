@@ -0,0 +1,47 @@
+-- Migration: Report assignment to staff and departments
+-- Date: 2026-10-19
+-- Description: Adds reports.assigned_to / reports.department, category-based
+-- default routing rules applied on report creation, and an assignment audit trail.
+-- Department keys must match DEPARTMENTS in models/Assignment.ts
+
+BEGIN;
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS assigned_to VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS department VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_reports_assigned_to ON reports (assigned_to);
+CREATE INDEX IF NOT EXISTS idx_reports_department ON reports (department);
+
+-- Default department / assignee per category for new reports
+CREATE TABLE IF NOT EXISTS report_routing_rules (
+    category VARCHAR(50) PRIMARY KEY,
+    department VARCHAR(50) NOT NULL,
+    default_assignee VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO report_routing_rules (category, department) VALUES
+    ('Infrastructure', 'engineering'),
+    ('Sanitation', 'sanitation'),
+    ('Safety', 'peace_and_order'),
+    ('Water', 'utilities'),
+    ('Electrical', 'utilities')
+ON CONFLICT (category) DO NOTHING;
+
+-- One row per assignment change (assignee and/or department)
+CREATE TABLE IF NOT EXISTS report_assignment_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    old_assigned_to VARCHAR(255),
+    new_assigned_to VARCHAR(255),
+    old_department VARCHAR(50),
+    new_department VARCHAR(50),
+    changed_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    note TEXT CHECK (length(note) <= 500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_assignment_history_report ON report_assignment_history (report_id, created_at);
+
+COMMIT;
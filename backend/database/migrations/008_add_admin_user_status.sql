@@ -0,0 +1,11 @@
+-- Migration: Admin user management
+-- Date: 2026-10-19
+-- Description: Soft-disable for admin accounts. Disabled users keep their
+-- audit trail references but fail authenticateAdmin and cannot be assigned reports.
+
+BEGIN;
+
+ALTER TABLE admin_users
+    ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration: Category-aware duplicate detection
+-- Date: 2026-10-19
+-- Description: Enables pg_trgm for description similarity, adds a geography
+-- GIST index so ST_DWithin in metres can use an index, and per-category
+-- search radius / time window settings for duplicate detection.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Duplicate search casts location to geography (metres)
+CREATE INDEX IF NOT EXISTS idx_reports_location_geography ON reports USING GIST ((location::geography));
+
+-- Search radius and look-back window per category
+CREATE TABLE IF NOT EXISTS duplicate_detection_rules (
+    category VARCHAR(50) PRIMARY KEY,
+    radius_meters INTEGER NOT NULL CHECK (radius_meters BETWEEN 10 AND 2000),
+    window_hours INTEGER NOT NULL CHECK (window_hours BETWEEN 1 AND 720),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO duplicate_detection_rules (category, radius_meters, window_hours) VALUES
+    ('Infrastructure', 100, 168),
+    ('Sanitation', 80, 72),
+    ('Safety', 150, 24),
+    ('Water', 250, 48),
+    ('Electrical', 300, 24)
+ON CONFLICT (category) DO NOTHING;
+
+COMMIT;
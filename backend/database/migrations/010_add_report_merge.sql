@@ -0,0 +1,23 @@
+-- Migration: Duplicate merge workflow
+-- Date: 2026-10-19
+-- Description: Adds a per-report photo gallery (photos copied from merged
+-- duplicates) and an index for counting reports linked through duplicate_of.
+
+BEGIN;
+
+-- Extra photos shown on a report; source_report_id is the merged duplicate
+CREATE TABLE IF NOT EXISTS report_photos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    photo_url TEXT NOT NULL,
+    photo_public_id VARCHAR(255),
+    source_report_id UUID REFERENCES reports (id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (report_id, photo_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_photos_report ON report_photos (report_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_reports_duplicate_of ON reports (duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+COMMIT;
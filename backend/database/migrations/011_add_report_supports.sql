@@ -0,0 +1,16 @@
+-- Migration: Resident support on existing reports
+-- Date: 2026-10-19
+-- Description: Records "this is my issue too" support from residents on an
+-- existing report instead of a new duplicate report (one per IP per report).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS report_supports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    supporter_ip INET NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (report_id, supporter_ip)
+);
+
+COMMIT;
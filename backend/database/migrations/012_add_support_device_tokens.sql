@@ -0,0 +1,23 @@
+-- Migration: Device-token deduplication for report supports
+-- Date: 2026-10-19
+-- Description: Supports are deduplicated per device token when the client sends
+-- one (several residents can share an IP), and per IP otherwise. Adds indexes
+-- for counting supports and for the per-IP support rate limit.
+
+BEGIN;
+
+ALTER TABLE report_supports
+    ADD COLUMN IF NOT EXISTS device_token_hash CHAR(64);
+
+ALTER TABLE report_supports
+    DROP CONSTRAINT IF EXISTS report_supports_report_id_supporter_ip_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_report_supports_device ON report_supports (report_id, device_token_hash) WHERE device_token_hash IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_report_supports_ip ON report_supports (report_id, supporter_ip) WHERE device_token_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_report_supports_report ON report_supports (report_id);
+
+CREATE INDEX IF NOT EXISTS idx_report_supports_ip_created ON report_supports (supporter_ip, created_at);
+
+COMMIT;
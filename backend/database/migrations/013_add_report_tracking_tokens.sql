@@ -0,0 +1,14 @@
+-- Migration: Reporter tracking tokens
+-- Date: 2026-10-19
+-- Description: POST /reports returns a secret tracking token so an anonymous
+-- resident can look up their own reports later (GET /reports/mine). Only the
+-- SHA-256 hash of the token is stored.
+
+BEGIN;
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS tracking_token_hash CHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_reports_tracking_token ON reports (tracking_token_hash) WHERE tracking_token_hash IS NOT NULL;
+
+COMMIT;
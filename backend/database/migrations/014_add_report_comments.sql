@@ -0,0 +1,32 @@
+-- Migration: Public comment thread on reports
+-- Date: 2026-10-19
+-- Description: Residents can add updates to a report ("it got worse after the
+-- rain"). Comments caught by the profanity/link filter are held as 'pending'
+-- until a moderator approves them; moderators can hide or delete comments.
+-- Replies posted from the admin API are flagged is_official.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS report_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+    author_ip INET,
+    author_clerk_user_id VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    is_official BOOLEAN NOT NULL DEFAULT FALSE,
+    status VARCHAR(20) NOT NULL DEFAULT 'visible' CHECK (
+        status IN ('visible', 'pending', 'hidden')
+    ),
+    moderation_reason VARCHAR(100),
+    moderated_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    moderated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_report ON report_comments (report_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_pending ON report_comments (created_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_ip_created ON report_comments (author_ip, created_at);
+
+COMMIT;
@@ -0,0 +1,56 @@
+-- Migration: Append-only internal notes and public status updates
+-- Date: 2026-10-19
+-- Description: Internal notes move from the overwriteable reports.admin_notes
+-- field into report_admin_notes (one row per note, never edited). The
+-- reports.admin_notes column is kept only as a concatenated copy for admin
+-- full-text search and is no longer returned by any endpoint. Status changes
+-- can carry a public_message shown to residents, separate from the internal
+-- note.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS report_admin_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+    created_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_admin_notes_report ON report_admin_notes (report_id, created_at);
+
+-- Notes are append-only (rows still go away with their report; the author is
+-- cleared when their admin user is removed)
+CREATE OR REPLACE FUNCTION prevent_admin_note_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only the author reference may change (ON DELETE SET NULL when an admin user is removed)
+    IF NEW.report_id IS DISTINCT FROM OLD.report_id
+       OR NEW.body IS DISTINCT FROM OLD.body
+       OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'report_admin_notes is append-only';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS report_admin_notes_append_only ON report_admin_notes;
+
+CREATE TRIGGER report_admin_notes_append_only
+    BEFORE UPDATE ON report_admin_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_admin_note_update();
+
+-- Existing notes: one entry per line (appended notes were newline-separated)
+INSERT INTO report_admin_notes (report_id, body, created_at)
+SELECT r.id, left(trim(line), 1000), r.updated_at
+FROM reports r,
+     regexp_split_to_table(r.admin_notes, E'\n') WITH ORDINALITY AS t(line, n)
+WHERE trim(line) <> ''
+  AND NOT EXISTS (SELECT 1 FROM report_admin_notes x WHERE x.report_id = r.id)
+ORDER BY r.id, n;
+
+ALTER TABLE report_status_history
+    ADD COLUMN IF NOT EXISTS public_message TEXT CHECK (length(public_message) <= 500);
+
+COMMIT;
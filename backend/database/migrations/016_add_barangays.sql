@@ -0,0 +1,32 @@
+-- Migration: Barangay boundaries
+-- Date: 2026-10-19
+-- Description: Barangay boundary multipolygons (loaded from GeoJSON with
+-- `npm run barangays:load`). New reports get barangay_id from the boundary
+-- containing their location. admin_users.barangay_id limits a moderator
+-- (barangay official) to reports in their own barangay.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS barangays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(100) NOT NULL,
+    city VARCHAR(100) NOT NULL,
+    code VARCHAR(20) UNIQUE, -- PSGC code when the source data has one
+    boundary geometry(MultiPolygon, 4326) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (city, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_barangays_boundary ON barangays USING GIST (boundary);
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS barangay_id UUID REFERENCES barangays (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_barangay ON reports (barangay_id);
+
+-- RESTRICT: removing a boundary must never widen an official's access
+ALTER TABLE admin_users
+    ADD COLUMN IF NOT EXISTS barangay_id UUID REFERENCES barangays (id) ON DELETE RESTRICT;
+
+COMMIT;
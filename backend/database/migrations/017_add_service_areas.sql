@@ -0,0 +1,31 @@
+-- Migration: Service area registry
+-- Date: 2026-10-19
+-- Description: Replaces the hard-coded bounding boxes (Philippines and
+-- Surigao City) with service_areas rows. Each area has a polygon and a
+-- strictness applied to locations inside it: 'allow' accepts silently, 'warn'
+-- accepts with the area's message, 'reject' refuses the report. When areas
+-- overlap the highest priority wins; locations outside every area are
+-- rejected. Seeded with the previous boxes; replace them with real boundaries
+-- through PUT /api/v1/admin/service-areas/:name.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS service_areas (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    boundary geometry(MultiPolygon, 4326) NOT NULL,
+    strictness VARCHAR(10) NOT NULL CHECK (strictness IN ('allow', 'warn', 'reject')),
+    priority INTEGER NOT NULL DEFAULT 0,
+    message TEXT CHECK (length(message) <= 300), -- Shown for 'warn' / 'reject'
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_areas_boundary ON service_areas USING GIST (boundary);
+
+INSERT INTO service_areas (name, boundary, strictness, priority, message) VALUES
+    ('Surigao City', ST_Multi(ST_MakeEnvelope(125.30, 9.55, 125.75, 9.95, 4326)), 'allow', 10, NULL),
+    ('Philippines', ST_Multi(ST_MakeEnvelope(116.9, 4.5, 126.6, 21.5, 4326)), 'warn', 0,
+     'Location is outside Surigao City - response times may be longer')
+ON CONFLICT (name) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,22 @@
+-- Migration: Geocoding cache
+-- Date: 2026-10-19
+-- Description: Caches results of the server-side geocoding providers
+-- (services/geocoding.ts). Reverse lookups are keyed by the coordinate rounded
+-- to 4 decimals (~11 m), forward lookups by the normalised query text, so
+-- nearby reports share one provider call. Empty results are cached too, with
+-- a shorter expiry, to stay within provider rate limits. Expired rows are
+-- refreshed in place on the next lookup of the same key.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+    provider VARCHAR(30) NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('reverse', 'forward')),
+    cache_key VARCHAR(255) NOT NULL, -- "lat,lng" (reverse) or lower-cased query (forward)
+    results JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (provider, kind, cache_key)
+);
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Migration: Landmark gazetteer
+-- Date: 2026-10-19
+-- Description: Admin-managed local landmarks (chapels, stores, puroks) so
+-- residents can find places the way they describe them ("near the chapel in
+-- Purok 3"). Searched by trigram similarity on name and aliases; the purok
+-- and barangay boost matches. barangay_id defaults to the boundary containing
+-- the point.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS landmarks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(150) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- Other local names ("kapilya", "old chapel")
+    purok VARCHAR(50),
+    barangay_id UUID REFERENCES barangays (id) ON DELETE SET NULL,
+    location geometry(Point, 4326) NOT NULL,
+    created_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_landmarks_location ON landmarks USING GIST (location);
+
+COMMIT;
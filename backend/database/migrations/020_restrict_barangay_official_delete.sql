@@ -0,0 +1,15 @@
+-- Migration: Keep barangay officials scoped when a boundary is removed
+-- Date: 2026-10-19
+-- Description: admin_users.barangay_id used ON DELETE SET NULL, so deleting a
+-- barangay turned its officials into city-wide moderators. A barangay with
+-- officials can no longer be deleted until they are reassigned or removed.
+
+BEGIN;
+
+ALTER TABLE admin_users
+    DROP CONSTRAINT IF EXISTS admin_users_barangay_id_fkey;
+
+ALTER TABLE admin_users
+    ADD CONSTRAINT admin_users_barangay_id_fkey FOREIGN KEY (barangay_id) REFERENCES barangays (id) ON DELETE RESTRICT;
+
+COMMIT;
@@ -6,6 +6,65 @@ CREATE EXTENSION IF NOT EXISTS postgis;
 
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Trigram similarity for duplicate detection
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Barangay boundaries (loaded from GeoJSON, see scripts/load-barangays.js)
+CREATE TABLE barangays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(100) NOT NULL,
+    city VARCHAR(100) NOT NULL,
+    code VARCHAR(20) UNIQUE, -- PSGC code when the source data has one
+    boundary geometry(MultiPolygon, 4326) NOT NULL,
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW(),
+        UNIQUE (city, name)
+);
+
+-- Service area registry: strictness applies to locations inside the polygon;
+-- highest priority wins on overlap, locations outside every area are rejected
+CREATE TABLE service_areas (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    boundary geometry(MultiPolygon, 4326) NOT NULL,
+    strictness VARCHAR(10) NOT NULL CHECK (
+        strictness IN ('allow', 'warn', 'reject')
+    ),
+    priority INTEGER NOT NULL DEFAULT 0,
+    message TEXT CHECK (length(message) <= 300), -- Shown for 'warn' / 'reject'
+    updated_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO service_areas (name, boundary, strictness, priority, message) VALUES
+    ('Surigao City', ST_Multi(ST_MakeEnvelope(125.30, 9.55, 125.75, 9.95, 4326)), 'allow', 10, NULL),
+    ('Philippines', ST_Multi(ST_MakeEnvelope(116.9, 4.5, 126.6, 21.5, 4326)), 'warn', 0,
+     'Location is outside Surigao City - response times may be longer');
+
+-- Admin users table - Managed by Clerk authentication
+CREATE TABLE admin_users (
+    clerk_user_id VARCHAR(255) PRIMARY KEY,
+    email VARCHAR(255) NOT NULL UNIQUE,
+    role VARCHAR(20) NOT NULL DEFAULT 'moderator' CHECK (
+        role IN ('moderator', 'admin')
+    ),
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW(),
+        last_login TIMESTAMP
+    WITH
+        TIME ZONE,
+        disabled_at TIMESTAMP
+    WITH
+        TIME ZONE, -- Set when the account is disabled
+        barangay_id UUID REFERENCES barangays (id) ON DELETE RESTRICT -- Barangay official: moderator limited to this area (never widened by deleting the barangay)
+);
+
 CREATE TABLE reports (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
     category VARCHAR(50) NOT NULL CHECK (
@@ -36,8 +95,12 @@ CREATE TABLE reports (
         )
     ),
     reporter_ip INET NOT NULL, -- For rate limiting
-    admin_notes TEXT, -- Internal notes from officials
+    admin_notes TEXT, -- Search copy of report_admin_notes (never returned by the API)
     duplicate_of UUID REFERENCES reports (id), -- For duplicate handling
+    assigned_to VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL, -- Staff handling the report
+    department VARCHAR(50), -- Responsible desk (see report_routing_rules)
+    tracking_token_hash CHAR(64), -- SHA-256 of the reporter's tracking token (GET /reports/mine)
+    barangay_id UUID REFERENCES barangays (id) ON DELETE SET NULL, -- Boundary containing the location
     created_at TIMESTAMP
     WITH
         TIME ZONE DEFAULT NOW(),
@@ -62,19 +125,157 @@ CREATE TABLE rate_limits (
         TIME ZONE DEFAULT NOW()
 );
 
--- Admin users table - Managed by Clerk authentication
-CREATE TABLE admin_users (
-    clerk_user_id VARCHAR(255) PRIMARY KEY,
-    email VARCHAR(255) NOT NULL UNIQUE,
-    role VARCHAR(20) NOT NULL DEFAULT 'moderator' CHECK (
-        role IN ('moderator', 'admin')
+-- Server-side geocoding results, keyed by rounded coordinate or query text
+CREATE TABLE geocode_cache (
+    provider VARCHAR(30) NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('reverse', 'forward')),
+    cache_key VARCHAR(255) NOT NULL, -- "lat,lng" (reverse) or lower-cased query (forward)
+    results JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW(),
+        expires_at TIMESTAMP
+    WITH
+        TIME ZONE NOT NULL,
+        PRIMARY KEY (provider, kind, cache_key)
+);
+
+-- Status change audit trail (written with each status update)
+CREATE TABLE report_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    old_status VARCHAR(20),
+    new_status VARCHAR(20) NOT NULL,
+    changed_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    note TEXT CHECK (length(note) <= 500), -- Internal (admin endpoints only)
+    public_message TEXT CHECK (length(public_message) <= 500), -- Shown to residents
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+-- Internal notes from officials (append-only, admin endpoints only)
+CREATE TABLE report_admin_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+    created_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+-- Category-based default routing for new reports
+CREATE TABLE report_routing_rules (
+    category VARCHAR(50) PRIMARY KEY,
+    department VARCHAR(50) NOT NULL,
+    default_assignee VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    updated_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO report_routing_rules (category, department) VALUES
+    ('Infrastructure', 'engineering'),
+    ('Sanitation', 'sanitation'),
+    ('Safety', 'peace_and_order'),
+    ('Water', 'utilities'),
+    ('Electrical', 'utilities');
+
+-- Report photo gallery (photos copied from merged duplicates)
+CREATE TABLE report_photos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    photo_url TEXT NOT NULL,
+    photo_public_id VARCHAR(255),
+    source_report_id UUID REFERENCES reports (id) ON DELETE SET NULL,
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW(),
+        UNIQUE (report_id, photo_url)
+);
+
+-- "This is my issue too" support from residents: one per device token, or per IP
+-- when no token is sent (see uq_report_supports_* indexes)
+CREATE TABLE report_supports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    supporter_ip INET NOT NULL,
+    device_token_hash CHAR(64), -- SHA-256 of the client's device token
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+-- Public comments on reports; 'pending' comments were held by the
+-- profanity/link filter and wait for moderation
+CREATE TABLE report_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+    author_ip INET, -- Residents only (rate limiting)
+    author_clerk_user_id VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    is_official BOOLEAN NOT NULL DEFAULT FALSE, -- Posted by staff
+    status VARCHAR(20) NOT NULL DEFAULT 'visible' CHECK (
+        status IN ('visible', 'pending', 'hidden')
     ),
+    moderation_reason VARCHAR(100),
+    moderated_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    moderated_at TIMESTAMP
+    WITH
+        TIME ZONE,
+        created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+-- Duplicate detection radius / look-back window per category
+CREATE TABLE duplicate_detection_rules (
+    category VARCHAR(50) PRIMARY KEY,
+    radius_meters INTEGER NOT NULL CHECK (radius_meters BETWEEN 10 AND 2000),
+    window_hours INTEGER NOT NULL CHECK (window_hours BETWEEN 1 AND 720),
+    updated_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO duplicate_detection_rules (category, radius_meters, window_hours) VALUES
+    ('Infrastructure', 100, 168),
+    ('Sanitation', 80, 72),
+    ('Safety', 150, 24),
+    ('Water', 250, 48),
+    ('Electrical', 300, 24);
+
+-- Assignment change audit trail
+CREATE TABLE report_assignment_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    report_id UUID NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+    old_assigned_to VARCHAR(255),
+    new_assigned_to VARCHAR(255),
+    old_department VARCHAR(50),
+    new_department VARCHAR(50),
+    changed_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
+    note TEXT CHECK (length(note) <= 500),
+    created_at TIMESTAMP
+    WITH
+        TIME ZONE DEFAULT NOW()
+);
+
+-- Local landmarks for address search (admin-managed)
+CREATE TABLE landmarks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+    name VARCHAR(150) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- Other local names ("kapilya", "old chapel")
+    purok VARCHAR(50),
+    barangay_id UUID REFERENCES barangays (id) ON DELETE SET NULL,
+    location geometry(Point, 4326) NOT NULL,
+    created_by VARCHAR(255) REFERENCES admin_users (clerk_user_id) ON DELETE SET NULL,
     created_at TIMESTAMP
     WITH
         TIME ZONE DEFAULT NOW(),
-        last_login TIMESTAMP
+        updated_at TIMESTAMP
     WITH
-        TIME ZONE
+        TIME ZONE DEFAULT NOW()
 );
 
 -- Performance indexes
@@ -84,10 +285,74 @@ CREATE INDEX idx_reports_status ON reports (status);
 
 CREATE INDEX idx_reports_created_at ON reports (created_at);
 
+-- Keyset (cursor) pagination: ORDER BY created_at, id
+CREATE INDEX idx_reports_created_at_id ON reports (created_at DESC, id DESC);
+
 CREATE INDEX idx_reports_location ON reports USING GIST (location);
 
+-- Duplicate detection: ST_DWithin on geography (metres)
+CREATE INDEX idx_reports_location_geography ON reports USING GIST ((location::geography));
+
 CREATE INDEX idx_reports_reporter_ip ON reports (reporter_ip);
 
+CREATE INDEX idx_reports_duplicate_of ON reports (duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+CREATE UNIQUE INDEX uq_reports_tracking_token ON reports (tracking_token_hash) WHERE tracking_token_hash IS NOT NULL;
+
+-- Full-text search indexes (public: description + address, admin: + admin_notes)
+CREATE INDEX idx_reports_search ON reports USING GIN (
+    (
+        setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(address, '')), 'B')
+    )
+);
+
+CREATE INDEX idx_reports_admin_search ON reports USING GIN (
+    (
+        setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(address, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(admin_notes, '')), 'C')
+    )
+);
+
+CREATE INDEX idx_reports_assigned_to ON reports (assigned_to);
+
+CREATE INDEX idx_reports_department ON reports (department);
+
+CREATE INDEX idx_reports_barangay ON reports (barangay_id);
+
+CREATE INDEX idx_barangays_boundary ON barangays USING GIST (boundary);
+
+CREATE INDEX idx_service_areas_boundary ON service_areas USING GIST (boundary);
+
+CREATE INDEX idx_landmarks_location ON landmarks USING GIST (location);
+
+CREATE INDEX idx_report_assignment_history_report ON report_assignment_history (report_id, created_at);
+
+CREATE UNIQUE INDEX uq_report_supports_device ON report_supports (report_id, device_token_hash)
+WHERE
+    device_token_hash IS NOT NULL;
+
+CREATE UNIQUE INDEX uq_report_supports_ip ON report_supports (report_id, supporter_ip)
+WHERE
+    device_token_hash IS NULL;
+
+CREATE INDEX idx_report_supports_report ON report_supports (report_id);
+
+CREATE INDEX idx_report_supports_ip_created ON report_supports (supporter_ip, created_at);
+
+CREATE INDEX idx_report_photos_report ON report_photos (report_id, created_at);
+
+CREATE INDEX idx_report_comments_report ON report_comments (report_id, created_at);
+
+CREATE INDEX idx_report_comments_pending ON report_comments (created_at) WHERE status = 'pending';
+
+CREATE INDEX idx_report_comments_ip_created ON report_comments (author_ip, created_at);
+
+CREATE INDEX idx_report_status_history_report ON report_status_history (report_id, created_at);
+
+CREATE INDEX idx_report_admin_notes_report ON report_admin_notes (report_id, created_at);
+
 CREATE INDEX idx_rate_limits_hourly_reset ON rate_limits (last_hourly_reset);
 
 CREATE INDEX idx_rate_limits_daily_reset ON rate_limits (last_daily_reset);
@@ -106,6 +371,25 @@ CREATE TRIGGER update_reports_updated_at
     FOR EACH ROW 
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Internal notes are append-only
+CREATE OR REPLACE FUNCTION prevent_admin_note_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only the author reference may change (ON DELETE SET NULL when an admin user is removed)
+    IF NEW.report_id IS DISTINCT FROM OLD.report_id
+       OR NEW.body IS DISTINCT FROM OLD.body
+       OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'report_admin_notes is append-only';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER report_admin_notes_append_only
+    BEFORE UPDATE ON report_admin_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_admin_note_update();
+
 -- Sample categories for reference (as comments)
 -- Infrastructure: Roads, bridges, streetlights, sidewalks
 -- Sanitation: Garbage collection, littering, cleaning
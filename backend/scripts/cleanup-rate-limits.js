@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Rate Limit Cleanup Script
+ *
+ * Deletes rate_limits rows whose hourly and daily windows have both expired.
+ * Long-running servers do this hourly on their own; run this from a cron job
+ * (e.g. a Vercel cron or CI schedule) for serverless deployments.
+ */
+
+const { Pool } = require('pg');
+const path = require('path');
+const dotenv = require('dotenv');
+
+// Load environment variables
+const envPath = path.resolve(__dirname, '../.env.local');
+dotenv.config({ path: envPath });
+
+const DATABASE_URL = process.env.NEON_DATABASE_URL || process.env.POSTGRES_URL;
+const pool = new Pool({
+  connectionString: DATABASE_URL,
+  ssl: { rejectUnauthorized: false }
+});
+
+async function cleanupRateLimits() {
+  console.log('🧹 Removing stale rate limit rows...');
+
+  try {
+    const result = await pool.query(
+      "DELETE FROM rate_limits WHERE last_daily_reset < NOW() - INTERVAL '1 day'"
+    );
+    console.log(`   ✓ ${result.rowCount} row(s) removed`);
+    return true;
+  } catch (error) {
+    console.error('💥 Rate limit cleanup failed:', error.message);
+    return false;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run cleanup if called directly
+if (require.main === module) {
+  cleanupRateLimits().then(success => {
+    process.exit(success ? 0 : 1);
+  });
+}
+
+module.exports = { cleanupRateLimits };
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * Barangay Boundary Loader
+ *
+ * Loads barangay boundaries from a GeoJSON FeatureCollection into the
+ * barangays table, then re-assigns every report to the barangay containing
+ * its location.
+ *
+ * Usage: npm run barangays:load -- <file.geojson> [--city "Surigao City"]
+ *
+ * Each feature needs a Polygon or MultiPolygon geometry (WGS84) and a name in
+ * properties.name (or adm4_en / NAME_3). The city comes from properties.city
+ * (or adm3_en / NAME_2) or --city; the PSGC code, if any, from properties.code
+ * (or psgc_code / adm4_psgc). Existing barangays are updated in place by
+ * city + name, so the file can be re-loaded after boundary corrections.
+ */
+
+const { Pool } = require('pg');
+const fs = require('fs');
+const path = require('path');
+const dotenv = require('dotenv');
+
+// Load environment variables
+const envPath = path.resolve(__dirname, '../.env.local');
+dotenv.config({ path: envPath });
+
+const DATABASE_URL = process.env.NEON_DATABASE_URL || process.env.POSTGRES_URL;
+
+function firstProperty(properties, keys) {
+  for (const key of keys) {
+    const value = properties[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return null;
+}
+
+function parseArgs(argv) {
+  const args = { file: null, city: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--city') {
+      args.city = argv[++i] || null;
+    } else if (!args.file) {
+      args.file = argv[i];
+    }
+  }
+  return args;
+}
+
+// Parse the FeatureCollection; throws on the first feature that cannot be loaded
+function readFeatures(file, defaultCity) {
+  const geojson = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (geojson.type !== 'FeatureCollection' || !Array.isArray(geojson.features)) {
+    throw new Error('File must contain a GeoJSON FeatureCollection');
+  }
+
+  return geojson.features.map((feature, index) => {
+    const properties = feature.properties || {};
+    const name = firstProperty(properties, ['name', 'adm4_en', 'NAME_3']);
+    const city = firstProperty(properties, ['city', 'adm3_en', 'NAME_2']) || defaultCity;
+    const code = firstProperty(properties, ['code', 'psgc_code', 'adm4_psgc']);
+    const type = feature.geometry && feature.geometry.type;
+
+    if (!name || !city) {
+      throw new Error(`Feature ${index}: missing barangay name or city (use --city)`);
+    }
+    if (type !== 'Polygon' && type !== 'MultiPolygon') {
+      throw new Error(`Feature ${index} (${name}): geometry must be Polygon or MultiPolygon`);
+    }
+    return { name, city, code, geometry: JSON.stringify(feature.geometry) };
+  });
+}
+
+async function loadBarangays(file, defaultCity) {
+  if (!DATABASE_URL) {
+    console.error('❌ NEON_DATABASE_URL or POSTGRES_URL environment variable is required');
+    return false;
+  }
+
+  let features;
+  try {
+    features = readFeatures(file, defaultCity);
+  } catch (error) {
+    console.error('💥 Invalid GeoJSON:', error.message);
+    return false;
+  }
+
+  const pool = new Pool({
+    connectionString: DATABASE_URL,
+    ssl: { rejectUnauthorized: false }
+  });
+  const client = await pool.connect();
+
+  console.log(`🗺️  Loading ${features.length} barangay boundaries from ${path.basename(file)}...`);
+
+  try {
+    await client.query('BEGIN');
+
+    for (const feature of features) {
+      // ST_MakeValid fixes self-intersections common in digitised boundaries
+      await client.query(
+        `INSERT INTO barangays (name, city, code, boundary)
+         VALUES ($1, $2, $3,
+                 ST_Multi(ST_CollectionExtract(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON($4), 4326)), 3)))
+         ON CONFLICT (city, name)
+         DO UPDATE SET code = COALESCE(EXCLUDED.code, barangays.code),
+                       boundary = EXCLUDED.boundary,
+                       updated_at = NOW()`,
+        [feature.name, feature.city, feature.code, feature.geometry]
+      );
+    }
+    console.log(`   ✓ ${features.length} barangay(s) loaded`);
+
+    // Boundaries may have moved: recompute each report's barangay, touching
+    // only the rows that change (updated_at is bumped by the reports trigger)
+    const assigned = await client.query(
+      `UPDATE reports r
+       SET barangay_id = m.barangay_id
+       FROM (
+         SELECT x.id, (
+           SELECT b.id FROM barangays b
+           WHERE ST_Contains(b.boundary, x.location)
+           ORDER BY b.name
+           LIMIT 1
+         ) AS barangay_id
+         FROM reports x
+       ) m
+       WHERE m.id = r.id AND r.barangay_id IS DISTINCT FROM m.barangay_id`
+    );
+    const unmatched = await client.query(
+      'SELECT COUNT(*)::int AS count FROM reports WHERE barangay_id IS NULL'
+    );
+    console.log(`   ✓ ${assigned.rowCount} report(s) re-assigned, ${unmatched.rows[0].count} outside every boundary`);
+
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('💥 Barangay load failed:', error.message);
+    return false;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run loader if called directly
+if (require.main === module) {
+  const { file, city } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: npm run barangays:load -- <file.geojson> [--city "Surigao City"]');
+    process.exit(1);
+  }
+  loadBarangays(path.resolve(file), city).then(success => {
+    process.exit(success ? 0 : 1);
+  });
+}
+
+module.exports = { loadBarangays };
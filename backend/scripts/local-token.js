@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Local Session Token Signer
+ *
+ * Mints RS256 session tokens for ADMIN_AUTH_MODE=local so admin routes and
+ * role enforcement can be exercised without reaching Clerk.
+ *
+ * Usage: node scripts/local-token.js <clerk_user_id> [ttlSeconds]
+ * The signing key is created on first run (LOCAL_AUTH_KEY_PATH or .local-auth/private.pem)
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const dotenv = require('dotenv');
+
+const envPath = path.resolve(__dirname, '../.env.local');
+dotenv.config({ path: envPath, quiet: true });
+
+// Must match LOCAL_KEY_ID / LOCAL_ISSUER in src/services/sessionVerifier.ts
+const LOCAL_KEY_ID = 'local-dev';
+const LOCAL_ISSUER = 'fix-my-barangay-local';
+
+const keyPath =
+  process.env.LOCAL_AUTH_KEY_PATH || path.resolve(__dirname, '../.local-auth/private.pem');
+
+function loadOrCreatePrivateKey() {
+  if (fs.existsSync(keyPath)) {
+    return crypto.createPrivateKey(fs.readFileSync(keyPath, 'utf8'));
+  }
+
+  console.error(`🔑 Generating local signing key at ${keyPath}`);
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  fs.writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  return privateKey;
+}
+
+function encode(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signToken(subject, ttlSeconds) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: 'RS256', typ: 'JWT', kid: LOCAL_KEY_ID };
+  const payload = { sub: subject, iss: LOCAL_ISSUER, iat: now, nbf: now, exp: now + ttlSeconds };
+
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), loadOrCreatePrivateKey());
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+if (require.main === module) {
+  const [subject, ttlArg] = process.argv.slice(2);
+  if (!subject) {
+    console.error('Usage: node scripts/local-token.js <clerk_user_id> [ttlSeconds]');
+    process.exit(1);
+  }
+
+  const ttl = parseInt(ttlArg || '3600', 10);
+  if (isNaN(ttl) || ttl <= 0) {
+    console.error('❌ ttlSeconds must be a positive integer');
+    process.exit(1);
+  }
+
+  // Token goes to stdout so it can be captured: TOKEN=$(npm run -s auth:local-token -- user_123)
+  console.log(signToken(subject, ttl));
+}
+
+module.exports = { signToken };
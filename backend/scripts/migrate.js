@@ -191,6 +191,108 @@ async function migrate() {
       'Convert reports.location to geometry(Point,4326)'
     );
     
+    // Step 2.6: Full-text search indexes
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '004_add_report_search.sql'),
+      'Full-text search indexes'
+    );
+    
+    // Step 2.7: Keyset pagination index
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '005_add_report_keyset_index.sql'),
+      'Keyset pagination index'
+    );
+    
+    // Step 2.8: Status history audit trail
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '006_add_report_status_history.sql'),
+      'Report status history table'
+    );
+    
+    // Step 2.9: Assignment, departments and routing rules
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '007_add_report_assignment.sql'),
+      'Report assignment and routing rules'
+    );
+    
+    // Step 2.10: Admin user disable flag
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '008_add_admin_user_status.sql'),
+      'Admin user management'
+    );
+    
+    // Step 2.11: Duplicate detection rules and indexes
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '009_add_duplicate_detection.sql'),
+      'Duplicate detection rules'
+    );
+    
+    // Step 2.12: Duplicate merge gallery
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '010_add_report_merge.sql'),
+      'Duplicate merge workflow'
+    );
+    
+    // Step 2.13: Resident support on reports
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '011_add_report_supports.sql'),
+      'Report supports'
+    );
+    
+    // Step 2.14: Support deduplication per device token
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '012_add_support_device_tokens.sql'),
+      'Report support device tokens'
+    );
+    
+    // Step 2.15: Reporter tracking tokens
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '013_add_report_tracking_tokens.sql'),
+      'Report tracking tokens'
+    );
+    
+    // Step 2.16: Report comments
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '014_add_report_comments.sql'),
+      'Report comments'
+    );
+    
+    // Step 2.17: Append-only admin notes and public status updates
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '015_add_admin_note_log.sql'),
+      'Admin note log'
+    );
+    
+    // Step 2.18: Barangay boundaries and report/official barangay assignment
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '016_add_barangays.sql'),
+      'Barangay boundaries'
+    );
+    
+    // Step 2.19: Service area registry (replaces hard-coded bounds)
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '017_add_service_areas.sql'),
+      'Service areas'
+    );
+    
+    // Step 2.20: Cache for server-side geocoding
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '018_add_geocode_cache.sql'),
+      'Geocode cache'
+    );
+    
+    // Step 2.21: Landmark gazetteer for address search
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '019_add_landmarks.sql'),
+      'Landmarks'
+    );
+    
+    // Step 2.22: Barangay officials block deleting their barangay
+    await runMigration(
+      path.join(migrationsDir, 'migrations', '020_restrict_barangay_official_delete.sql'),
+      'Barangay official delete restriction'
+    );
+    
     // Step 3: Add the update trigger function
     const triggerSQL = `
       CREATE OR REPLACE FUNCTION update_updated_at_column()
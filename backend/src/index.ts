@@ -17,14 +17,21 @@ import helmet from "helmet";
 import morgan from "morgan";
 import { connectDatabase } from "./db/connection";
 import { generalRateLimit } from "./middleware/rateLimiter";
+import { getClientIp, parseTrustProxy } from "./services/clientIp";
+import { startRateLimitCleanup } from "./services/rateLimitStore";
 import reportsRouter from "./routes/reports";
 import categoriesRouter from "./routes/categories";
 import locationsRouter from "./routes/locations";
+import barangaysRouter from "./routes/barangays";
+import landmarksRouter from "./routes/landmarks";
 import adminRouter from "./routes/admin";
 import uploadRouter from "./routes/upload";
 
 const app = express();
 
+// Which proxies may set x-forwarded-for (see services/clientIp.ts)
+app.set("trust proxy", parseTrustProxy());
+
 // Middleware
 app.use(helmet());
 
@@ -51,6 +58,8 @@ const corsOptions = {
 };
 
 app.use(cors(corsOptions));
+// Log the same client address the limiter and reporter_ip use
+morgan.token("remote-addr", (req) => getClientIp(req as express.Request));
 app.use(morgan("combined"));
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true }));
@@ -69,6 +78,8 @@ app.get("/api/v1", (req, res) => {
 app.use("/api/v1", reportsRouter);
 app.use("/api/v1/categories", categoriesRouter);
 app.use("/api/v1/locations", locationsRouter);
+app.use("/api/v1/barangays", barangaysRouter);
+app.use("/api/v1/landmarks", landmarksRouter);
 app.use("/api/v1/admin", adminRouter);
 app.use("/api/v1", uploadRouter);
 
@@ -103,6 +114,7 @@ if (process.env.NODE_ENV !== "production") {
     console.log(`🚀 Backend server running on port ${PORT}`);
     console.log(`📍 Health check: http://localhost:${PORT}/health`);
   });
+  startRateLimitCleanup();
 }
 
 // Export for Vercel serverless functions
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import { query } from "../db/connection";
+import {
+  verifySessionToken,
+  SessionTokenError,
+} from "../services/sessionVerifier";
 
 // Extend Request interface to include clerk user info
 declare module "express-serve-static-core" {
@@ -7,20 +11,109 @@ declare module "express-serve-static-core" {
     clerkUserId?: string;
     isAdmin?: boolean;
     adminRole?: "moderator" | "admin";
+    // Set for barangay officials (moderators with a barangay): their reports only
+    adminBarangayId?: string;
   }
 }
 
-// Simplified authentication middleware for development
+// Extract Clerk session token from Bearer header or `__session` cookie
+export function extractSessionToken(req: Request): string | null {
+  const authHeader = req.headers["authorization"];
+  if (typeof authHeader === "string") {
+    const [scheme, token] = authHeader.split(" ");
+    if (scheme?.toLowerCase() === "bearer" && token) {
+      return token.trim();
+    }
+  }
+
+  const cookieHeader = req.headers.cookie;
+  if (cookieHeader) {
+    for (const part of cookieHeader.split(";")) {
+      const [name, ...rest] = part.trim().split("=");
+      if (name === "__session" && rest.length > 0) {
+        return decodeURIComponent(rest.join("="));
+      }
+    }
+  }
+
+  return null;
+}
+
+// Resolves the request's session to an active admin without side effects
+// (no last_login update); null when there is no valid admin session
+export async function findAdminSession(
+  req: Request
+): Promise<{ clerkUserId: string; role: "moderator" | "admin" } | null> {
+  const token = extractSessionToken(req);
+  if (!token) return null;
+
+  let claims;
+  try {
+    claims = await verifySessionToken(token);
+  } catch (error) {
+    if (error instanceof SessionTokenError) return null;
+    throw error;
+  }
+
+  const result = await query(
+    "SELECT role FROM admin_users WHERE clerk_user_id = $1 AND disabled_at IS NULL",
+    [claims.sub]
+  );
+  if (result.rows.length === 0) return null;
+  return { clerkUserId: claims.sub, role: result.rows[0].role };
+}
+
+// Authentication middleware: verifies the Clerk session token and resolves the
+// admin role from the admin_users table
 export const authenticateAdmin = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // For development, always allow access for testing
-    req.clerkUserId = "dev-admin-user";
+    const token = extractSessionToken(req);
+    if (!token) {
+      return res.status(401).json({
+        error: "Authentication required",
+        message: "Missing session token",
+      });
+    }
+
+    let claims;
+    try {
+      claims = await verifySessionToken(token);
+    } catch (error) {
+      if (error instanceof SessionTokenError) {
+        return res.status(401).json({
+          error: "Invalid session",
+          message: error.message,
+        });
+      }
+      throw error;
+    }
+
+    const result = await query(
+      `UPDATE admin_users SET last_login = NOW()
+       WHERE clerk_user_id = $1 AND disabled_at IS NULL
+       RETURNING role, barangay_id`,
+      [claims.sub]
+    );
+
+    if (result.rows.length === 0) {
+      console.warn(`🚫 Admin access denied for Clerk user ${claims.sub}`);
+      return res.status(403).json({
+        error: "Access denied",
+        message: "User is not registered as an active admin",
+      });
+    }
+
+    req.clerkUserId = claims.sub;
     req.isAdmin = true;
-    req.adminRole = "admin";
+    req.adminRole = result.rows[0].role;
+    // Admins stay city-wide even if a barangay is set on their account
+    if (req.adminRole === "moderator" && result.rows[0].barangay_id) {
+      req.adminBarangayId = result.rows[0].barangay_id;
+    }
     return next();
   } catch (error) {
     console.error("Admin authentication error:", error);
@@ -53,6 +146,42 @@ export const requireAdminRole = (requiredRole: "moderator" | "admin") => {
   };
 };
 
+// Limits barangay officials to records in their barangay. `lookupSql` returns the
+// barangay_id of the record named by req.params.id ($1); records elsewhere get the
+// same 404 as missing ones. Non-UUID ids are left to the route's own validation.
+export const restrictToAdminBarangay = (lookupSql: string) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = req.params.id;
+    if (
+      !req.adminBarangayId ||
+      typeof id !== "string" ||
+      !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(id)
+    ) {
+      return next();
+    }
+
+    try {
+      const result = await query(lookupSql, [id]);
+      if (
+        result.rows.length > 0 &&
+        result.rows[0].barangay_id !== req.adminBarangayId
+      ) {
+        return res.status(404).json({
+          error: "Not found",
+          message: "No record with the specified ID in your barangay",
+        });
+      }
+      return next();
+    } catch (error) {
+      console.error("Barangay scope check error:", error);
+      return res.status(500).json({
+        error: "Authorization error",
+        message: "Failed to check barangay access",
+      });
+    }
+  };
+};
+
 // Helper function to create admin user (for setup/testing)
 export const createAdminUser = async (
   clerkUserId: string,
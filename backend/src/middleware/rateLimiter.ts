@@ -1,92 +1,116 @@
-import rateLimit from "express-rate-limit";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
 import { Request, Response, NextFunction } from "express";
-import { query } from "../db/connection";
+import crypto from "crypto";
+import { findAdminSession } from "./adminAuth";
+import { getClientIp } from "../services/clientIp";
+import { getRateLimitStore } from "../services/rateLimitStore";
 
 // Rate limiting configuration per constitutional requirements:
 // Maximum 5 reports per IP address per hour, 20 per day
 const HOURLY_LIMIT = 5;
 const DAILY_LIMIT = 20;
 
-// Helper function to get client IP properly
-const getClientIp = (req: Request): string => {
-  // Handle various proxy configurations
-  const forwarded = req.headers["x-forwarded-for"];
-  const realIp = req.headers["x-real-ip"];
-
-  if (forwarded) {
-    // x-forwarded-for can contain multiple IPs, take the first one
-    return Array.isArray(forwarded)
-      ? forwarded[0]
-      : forwarded.split(",")[0].trim();
-  }
-
-  if (realIp) {
-    return Array.isArray(realIp) ? realIp[0] : realIp;
-  }
+// Constant-time check of x-internal-service-key against INTERNAL_SERVICE_KEY.
+// Both sides are hashed first so timingSafeEqual gets equal-length buffers.
+function hasValidServiceKey(req: Request): boolean {
+  const configured = process.env.INTERNAL_SERVICE_KEY;
+  const provided = req.headers["x-internal-service-key"];
+  if (!configured || typeof provided !== "string" || !provided) return false;
 
-  return req.ip || req.socket.remoteAddress || "unknown";
-};
+  const expected = crypto.createHash("sha256").update(configured).digest();
+  const actual = crypto.createHash("sha256").update(provided).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
 
-// Create rate limiter for report submissions
-// Internal helper to detect privileged users (admins or authenticated service calls)
-function isPrivileged(req: Request): boolean {
-  // 1. Admin flag already set by admin auth middleware
-  if ((req as any).isAdmin) return true;
-
-  // 2. Internal service calls
-  if (req.headers["x-internal-service-key"]) return true;
-
-  // 3. Admin path heuristic (so /api/v1/admin/* not throttled when auth applied later in chain)
-  if (req.path && req.path.startsWith("/api/v1/admin")) return true;
-
-  // 4. Bearer token present (client authenticated through Clerk front-end)
-  const authHeader =
-    req.headers["authorization"] || req.headers["Authorization"]; // case-insensitive
-  if (
-    typeof authHeader === "string" &&
-    authHeader.toLowerCase().startsWith("bearer ")
-  ) {
-    return true;
+// Who a request may bypass limits as: a verified, active admin session or an
+// internal service holding the configured key. Unverifiable headers or cookies
+// never grant a bypass.
+async function resolvePrivilege(req: Request): Promise<string | null> {
+  // Admin auth middleware already ran (limiter mounted on an admin router)
+  if (req.isAdmin && req.clerkUserId) return `admin ${req.clerkUserId}`;
+
+  if (hasValidServiceKey(req)) return "internal service";
+  if (req.headers["x-internal-service-key"]) {
+    console.warn(
+      `⚠️ Invalid x-internal-service-key from ${getClientIp(req)}; rate limits apply`
+    );
   }
 
-  // 5. Clerk session cookie heuristic (depends on naming; adjust if different)
-  const cookie = req.headers.cookie || "";
-  if (cookie.includes("__session") || cookie.toLowerCase().includes("clerk")) {
-    return true;
+  try {
+    const session = await findAdminSession(req);
+    if (session) return `admin ${session.clerkUserId}`;
+  } catch (error) {
+    console.error("Rate limit privilege check failed:", error);
   }
-
-  return false;
+  return null;
 }
 
-const baseReportLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000,
-  max: HOURLY_LIMIT,
-  message: {
-    error: "Rate limit exceeded",
-    message: `Maximum ${HOURLY_LIMIT} reports per hour allowed`,
-    retryAfter: "1 hour",
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req: Request, res: Response) => {
-    res.status(429).json({
-      error: "Rate limit exceeded",
-      message: `Maximum ${HOURLY_LIMIT} reports per hour allowed`,
-      retryAfter: "1 hour",
-    });
-  },
-});
+// Resolves privilege and logs each bypass with the limiter that was skipped
+async function isPrivileged(req: Request, limiter: string): Promise<boolean> {
+  const principal = await resolvePrivilege(req);
+  if (!principal) return false;
+
+  console.log(
+    `🛡 ${limiter} rate limit bypassed for ${principal}: ${req.method} ${req.originalUrl} (${getClientIp(req)})`
+  );
+  return true;
+}
 
-// Wrapper that skips limiting for privileged users
-export const reportRateLimit = (
+// Persistent hourly + daily windows (Postgres by default, Redis optional) so
+// limits survive restarts and serverless cold starts
+export const reportRateLimit = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (isPrivileged(req)) {
+  if (await isPrivileged(req, "Report")) {
     return next();
   }
-  return baseReportLimiter(req, res, next);
+
+  const ip = getClientIp(req);
+
+  let decision;
+  try {
+    decision = await getRateLimitStore().consume(ip, {
+      hourlyLimit: HOURLY_LIMIT,
+      dailyLimit: DAILY_LIMIT,
+    });
+  } catch (error) {
+    // Fail open: a limiter outage should not block residents from reporting
+    console.error("Rate limit store error:", error);
+    return next();
+  }
+
+  const hourlyExhausted = decision.hourlyCount >= HOURLY_LIMIT;
+  const dailyExhausted = decision.dailyCount >= DAILY_LIMIT;
+  // Report against whichever window is tighter
+  const useDaily =
+    dailyExhausted ||
+    (!hourlyExhausted &&
+      DAILY_LIMIT - decision.dailyCount < HOURLY_LIMIT - decision.hourlyCount);
+  const limit = useDaily ? DAILY_LIMIT : HOURLY_LIMIT;
+  const count = useDaily ? decision.dailyCount : decision.hourlyCount;
+  const resetAt = useDaily ? decision.dailyResetAt : decision.hourlyResetAt;
+
+  res.setHeader("RateLimit-Limit", String(limit));
+  res.setHeader("RateLimit-Remaining", String(Math.max(0, limit - count)));
+  res.setHeader(
+    "RateLimit-Reset",
+    String(Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 1000)))
+  );
+
+  if (!decision.allowed) {
+    res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+    return res.status(429).json({
+      error: "Rate limit exceeded",
+      message: dailyExhausted
+        ? `Maximum ${DAILY_LIMIT} reports per day allowed`
+        : `Maximum ${HOURLY_LIMIT} reports per hour allowed`,
+      retryAfter: decision.retryAfterSeconds,
+    });
+  }
+
+  return next();
 };
 
 // General API rate limiter (more permissive for read operations)
@@ -100,16 +124,30 @@ const baseGeneralLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  keyGenerator: (req: Request) => ipKeyGenerator(getClientIp(req)),
 });
 
-export const generalRateLimit = (
+// Vector tiles (GET /tiles/:z/:x/:y.mvt): a map loads several tiles on every pan
+// or zoom, so the budget is higher than the general one, but each tile is an
+// unauthenticated PostGIS query and stays throttled per client IP
+export const tileRateLimit = rateLimit({
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 1200,
+  message: {
+    error: "Too many requests",
+    message: "Too many tile requests from this IP, please try again later",
+    retryAfter: "5 minutes",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => ipKeyGenerator(getClientIp(req)),
+});
+
+export const generalRateLimit = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  // Skip general limiter for privileged users
-  if (isPrivileged(req)) return next();
-
   // Don’t throttle report submission here (handled by reportRateLimit)
   if (req.method === "POST" && req.path.startsWith("/api/v1/reports")) {
     return next();
@@ -120,5 +158,9 @@ export const generalRateLimit = (
   if (req.method === "GET" && req.path.startsWith("/api/v1/reports")) {
     return next();
   }
+
+  // Skip general limiter for privileged users
+  if (await isPrivileged(req, "General")) return next();
+
   return baseGeneralLimiter(req, res, next);
 };
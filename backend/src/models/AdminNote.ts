@@ -0,0 +1,68 @@
+import { query } from "../db/connection";
+
+// Internal note on a report (append-only log; admin endpoints only)
+export interface AdminNote {
+  id: string;
+  report_id: string;
+  body: string;
+  created_by: string | null;
+  created_by_email?: string | null;
+  created_at: Date;
+}
+
+export const MAX_ADMIN_NOTE_LENGTH = 1000;
+
+export function validateAdminNote(body: unknown): body is string {
+  return (
+    typeof body === "string" &&
+    body.trim().length > 0 &&
+    body.trim().length <= MAX_ADMIN_NOTE_LENGTH
+  );
+}
+
+export class AdminNoteModel {
+  // Append a note; takes the transaction client so it commits with the report update.
+  // reports.admin_notes keeps a newline-joined copy for admin full-text search.
+  static async append(
+    client: any,
+    reportId: string,
+    body: string,
+    createdBy?: string
+  ): Promise<AdminNote> {
+    const result = await client.query(
+      `
+      INSERT INTO report_admin_notes (report_id, body, created_by)
+      VALUES ($1, $2, $3)
+      RETURNING id, report_id, body, created_by, created_at
+    `,
+      [reportId, body, createdBy || null]
+    );
+
+    await client.query(
+      `
+      UPDATE reports
+      SET admin_notes = CASE WHEN coalesce(admin_notes, '') = '' THEN $2
+                             ELSE admin_notes || E'\\n' || $2 END
+      WHERE id = $1
+    `,
+      [reportId, body]
+    );
+
+    return result.rows[0];
+  }
+
+  // Notes for a report, oldest first, with the author's email
+  static async findByReport(reportId: string): Promise<AdminNote[]> {
+    const result = await query(
+      `
+      SELECT n.id, n.report_id, n.body, n.created_by, a.email AS created_by_email, n.created_at
+      FROM report_admin_notes n
+      LEFT JOIN admin_users a ON a.clerk_user_id = n.created_by
+      WHERE n.report_id = $1
+      ORDER BY n.created_at ASC, n.id ASC
+    `,
+      [reportId]
+    );
+    return result.rows;
+  }
+}
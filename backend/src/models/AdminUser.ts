@@ -0,0 +1,189 @@
+import { query, transaction } from "../db/connection";
+
+export type AdminRole = "moderator" | "admin";
+
+export interface AdminUser {
+  clerk_user_id: string;
+  email: string;
+  role: AdminRole;
+  created_at: Date;
+  last_login: Date | null;
+  disabled_at: Date | null;
+  // Barangay official: a moderator with a barangay only sees reports there
+  barangay_id: string | null;
+  barangay_name?: string | null;
+  // Reports currently assigned to the user (list only)
+  assigned_reports?: number;
+}
+
+export interface UpdateAdminUserInput {
+  role?: AdminRole;
+  disabled?: boolean;
+  // null makes the user city-wide again
+  barangay_id?: string | null;
+}
+
+export function validateAdminRole(role: unknown): role is AdminRole {
+  return role === "moderator" || role === "admin";
+}
+
+// Thrown when a change would leave no active admin (nobody could manage users)
+export class LastAdminError extends Error {
+  constructor(public readonly action: "demote" | "disable" | "delete") {
+    super(`Cannot ${action} the last active admin`);
+    this.name = "LastAdminError";
+  }
+}
+
+const ADMIN_USER_COLUMNS =
+  "clerk_user_id, email, role, created_at, last_login, disabled_at, barangay_id";
+
+export class AdminUserModel {
+  static async findAll(): Promise<AdminUser[]> {
+    const result = await query(
+      `
+      SELECT ${ADMIN_USER_COLUMNS},
+             (SELECT name FROM barangays b WHERE b.id = admin_users.barangay_id) AS barangay_name,
+             (SELECT COUNT(*)::int FROM reports r
+              WHERE r.assigned_to = admin_users.clerk_user_id
+                AND r.status NOT IN ('Resolved', 'Closed')) AS assigned_reports
+      FROM admin_users
+      ORDER BY disabled_at IS NOT NULL, role DESC, email
+    `
+    );
+    return result.rows;
+  }
+
+  static async findById(clerkUserId: string): Promise<AdminUser | null> {
+    const result = await query(
+      `SELECT ${ADMIN_USER_COLUMNS} FROM admin_users WHERE clerk_user_id = $1`,
+      [clerkUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Create, or update email/role of an existing user (guarded like update)
+  static async upsert(
+    clerkUserId: string,
+    email: string,
+    role: AdminRole
+  ): Promise<AdminUser> {
+    return transaction(async (client) => {
+      const current = await this.lockForChange(client, clerkUserId);
+      if (current && role !== "admin") {
+        await this.assertNotLastAdmin(client, current, "demote");
+      }
+
+      const result = await client.query(
+        `
+        INSERT INTO admin_users (clerk_user_id, email, role)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (clerk_user_id)
+        DO UPDATE SET email = EXCLUDED.email, role = EXCLUDED.role
+        RETURNING ${ADMIN_USER_COLUMNS}
+      `,
+        [clerkUserId, email, role]
+      );
+      return result.rows[0];
+    });
+  }
+
+  static async update(
+    clerkUserId: string,
+    input: UpdateAdminUserInput
+  ): Promise<AdminUser | null> {
+    return transaction(async (client) => {
+      const current = await this.lockForChange(client, clerkUserId);
+      if (!current) return null;
+
+      if (input.role === "moderator") {
+        await this.assertNotLastAdmin(client, current, "demote");
+      }
+      if (input.disabled === true) {
+        await this.assertNotLastAdmin(client, current, "disable");
+      }
+
+      const updates: string[] = [];
+      const params: any[] = [];
+      if (input.role) {
+        params.push(input.role);
+        updates.push(`role = $${params.length}`);
+      }
+      if (input.disabled !== undefined) {
+        updates.push(
+          input.disabled
+            ? "disabled_at = COALESCE(disabled_at, NOW())"
+            : "disabled_at = NULL"
+        );
+      }
+      if (input.barangay_id !== undefined) {
+        params.push(input.barangay_id);
+        updates.push(`barangay_id = $${params.length}`);
+      }
+      if (updates.length === 0) return current;
+
+      params.push(clerkUserId);
+      const result = await client.query(
+        `
+        UPDATE admin_users SET ${updates.join(", ")}
+        WHERE clerk_user_id = $${params.length}
+        RETURNING ${ADMIN_USER_COLUMNS}
+      `,
+        params
+      );
+
+      return result.rows[0];
+    });
+  }
+
+  static async delete(clerkUserId: string): Promise<boolean> {
+    return transaction(async (client) => {
+      const current = await this.lockForChange(client, clerkUserId);
+      if (!current) return false;
+
+      await this.assertNotLastAdmin(client, current, "delete");
+
+      const result = await client.query(
+        "DELETE FROM admin_users WHERE clerk_user_id = $1",
+        [clerkUserId]
+      );
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Lock the active admins first, then the target row, so concurrent demotions
+  // of the last two admins cannot both pass the guard
+  private static async lockForChange(
+    client: any,
+    clerkUserId: string
+  ): Promise<AdminUser | null> {
+    await client.query(
+      `SELECT clerk_user_id FROM admin_users
+       WHERE role = 'admin' AND disabled_at IS NULL
+       ORDER BY clerk_user_id
+       FOR UPDATE`
+    );
+    const result = await client.query(
+      `SELECT ${ADMIN_USER_COLUMNS} FROM admin_users WHERE clerk_user_id = $1 FOR UPDATE`,
+      [clerkUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  private static async assertNotLastAdmin(
+    client: any,
+    user: AdminUser,
+    action: LastAdminError["action"]
+  ): Promise<void> {
+    if (user.role !== "admin" || user.disabled_at) return;
+
+    const result = await client.query(
+      `SELECT COUNT(*)::int AS count FROM admin_users
+       WHERE role = 'admin' AND disabled_at IS NULL AND clerk_user_id <> $1`,
+      [user.clerk_user_id]
+    );
+    if (result.rows[0].count === 0) {
+      throw new LastAdminError(action);
+    }
+  }
+}
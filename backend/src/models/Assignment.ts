@@ -0,0 +1,117 @@
+import { query } from "../db/connection";
+import { ReportCategory } from "./Report";
+
+// Barangay desks that can own a report (keys stored in reports.department)
+export const DEPARTMENTS = {
+  engineering: "Engineering Office",
+  sanitation: "Sanitation Team",
+  peace_and_order: "Peace & Order (Tanod)",
+  utilities: "Utilities Desk",
+  general: "General Services",
+} as const;
+
+export type Department = keyof typeof DEPARTMENTS;
+
+export function validateDepartment(department: string): department is Department {
+  return Object.keys(DEPARTMENTS).includes(department);
+}
+
+// Default department / assignee applied to new reports of a category
+export interface RoutingRule {
+  category: ReportCategory;
+  department: Department;
+  default_assignee: string | null;
+  updated_at: Date;
+}
+
+// One assignment change on a report (audit trail)
+export interface AssignmentChange {
+  id: string;
+  report_id: string;
+  old_assigned_to: string | null;
+  new_assigned_to: string | null;
+  old_department: string | null;
+  new_department: string | null;
+  changed_by: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+export type RecordAssignmentInput = Omit<AssignmentChange, "id" | "created_at">;
+
+export class AssignmentModel {
+  // Insert an audit row; takes the transaction client so it commits with the report update
+  static async record(client: any, input: RecordAssignmentInput): Promise<void> {
+    await client.query(
+      `
+      INSERT INTO report_assignment_history
+        (report_id, old_assigned_to, new_assigned_to, old_department, new_department, changed_by, note)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `,
+      [
+        input.report_id,
+        input.old_assigned_to,
+        input.new_assigned_to,
+        input.old_department,
+        input.new_department,
+        input.changed_by,
+        input.note,
+      ]
+    );
+  }
+
+  // Assignment history for a report, oldest first
+  static async findByReport(reportId: string): Promise<AssignmentChange[]> {
+    const result = await query(
+      `
+      SELECT id, report_id, old_assigned_to, new_assigned_to, old_department,
+             new_department, changed_by, note, created_at
+      FROM report_assignment_history
+      WHERE report_id = $1
+      ORDER BY created_at ASC, id ASC
+    `,
+      [reportId]
+    );
+    return result.rows;
+  }
+
+  // Only existing, active admin_users can be assigned reports
+  static async isAssignable(clerkUserId: string): Promise<boolean> {
+    const result = await query(
+      "SELECT 1 FROM admin_users WHERE clerk_user_id = $1 AND disabled_at IS NULL",
+      [clerkUserId]
+    );
+    return result.rows.length > 0;
+  }
+
+  static async getRoutingRules(): Promise<RoutingRule[]> {
+    const result = await query(
+      `
+      SELECT category, department, default_assignee, updated_at
+      FROM report_routing_rules
+      ORDER BY category
+    `
+    );
+    return result.rows;
+  }
+
+  static async upsertRoutingRule(
+    category: ReportCategory,
+    department: Department,
+    defaultAssignee: string | null
+  ): Promise<RoutingRule> {
+    const result = await query(
+      `
+      INSERT INTO report_routing_rules (category, department, default_assignee, updated_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (category) DO UPDATE
+        SET department = EXCLUDED.department,
+            default_assignee = EXCLUDED.default_assignee,
+            updated_at = NOW()
+      RETURNING category, department, default_assignee, updated_at
+    `,
+      [category, department, defaultAssignee]
+    );
+    return result.rows[0];
+  }
+}
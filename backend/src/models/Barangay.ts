@@ -0,0 +1,52 @@
+import { query } from "../db/connection";
+
+// Barangay boundary (multipolygon loaded from GeoJSON by scripts/load-barangays.js)
+export interface Barangay {
+  id: string;
+  name: string;
+  city: string;
+  code: string | null;
+  // Simplified GeoJSON geometry; only when requested
+  boundary?: object;
+}
+
+// Boundaries are simplified for the map (~10 m tolerance) to keep responses small.
+// Shared with service areas, whose table also has a `boundary` column.
+export const BOUNDARY_COLUMN =
+  "ST_AsGeoJSON(ST_SimplifyPreserveTopology(boundary, 0.0001), 6)::json AS boundary";
+
+// Barangay whose boundary contains the point ($lng, $lat); used in report INSERTs.
+// Boundaries should not overlap, ORDER BY only makes the result deterministic.
+export function barangayContainingPointSql(lngParam: number, latParam: number): string {
+  return `(SELECT b.id FROM barangays b
+           WHERE ST_Contains(b.boundary, ST_SetSRID(ST_Point($${lngParam}, $${latParam}), 4326))
+           ORDER BY b.name LIMIT 1)`;
+}
+
+export class BarangayModel {
+  static async findAll(includeBoundary: boolean = false): Promise<Barangay[]> {
+    const result = await query(
+      `
+      SELECT id, name, city, code${includeBoundary ? `, ${BOUNDARY_COLUMN}` : ""}
+      FROM barangays
+      ORDER BY city, name
+    `
+    );
+    return result.rows;
+  }
+
+  static async findById(
+    id: string,
+    includeBoundary: boolean = false
+  ): Promise<Barangay | null> {
+    const result = await query(
+      `
+      SELECT id, name, city, code${includeBoundary ? `, ${BOUNDARY_COLUMN}` : ""}
+      FROM barangays
+      WHERE id = $1
+    `,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+}
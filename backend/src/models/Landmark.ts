@@ -0,0 +1,265 @@
+import { query } from "../db/connection";
+import { barangayContainingPointSql } from "./Barangay";
+import { Coordinates, LocationValidator } from "./Location";
+
+// Local landmark residents use to describe places ("the chapel in Purok 3")
+export interface Landmark {
+  id: string;
+  name: string;
+  aliases: string[];
+  purok: string | null;
+  barangay_id: string | null;
+  barangay_name?: string | null;
+  location: Coordinates;
+  created_at: Date;
+  updated_at: Date;
+  // Present only on search results (higher is better)
+  score?: number;
+}
+
+export interface LandmarkInput {
+  name: string;
+  aliases: string[];
+  purok: string | null;
+  // null derives the barangay from the boundary containing the point
+  barangay_id: string | null;
+  location: Coordinates;
+}
+
+export interface LandmarkValidation {
+  isValid: boolean;
+  input?: LandmarkInput;
+  error?: string;
+  message?: string;
+}
+
+export const MAX_LANDMARK_NAME_LENGTH = 150;
+export const MAX_LANDMARK_ALIASES = 10;
+export const MAX_PUROK_LENGTH = 50;
+export const MAX_LANDMARK_SEARCH_LENGTH = 100;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Minimum name/alias similarity for a search hit
+const NAME_MATCH_THRESHOLD = 0.4;
+// Purok or barangay alone must match almost exactly ("Purok 3" lists its landmarks)
+const AREA_MATCH_THRESHOLD = 0.8;
+// How much a matching purok/barangay adds to the name score
+const AREA_MATCH_WEIGHT = 0.3;
+
+const LANDMARK_COLUMNS = `l.id, l.name, l.aliases, l.purok, l.barangay_id, b.name AS barangay_name,
+       ST_Y(l.location) AS latitude, ST_X(l.location) AS longitude,
+       l.created_at, l.updated_at`;
+
+function toLandmark(row: any): Landmark {
+  const { latitude, longitude, ...rest } = row;
+  return { ...rest, location: { latitude, longitude } };
+}
+
+// Validate a create/update body ({ name, aliases?, purok?, barangay_id?, latitude, longitude })
+export function validateLandmarkInput(body: any): LandmarkValidation {
+  const {
+    name,
+    aliases = [],
+    purok = null,
+    barangay_id = null,
+    latitude,
+    longitude,
+  } = body || {};
+
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.trim().length > MAX_LANDMARK_NAME_LENGTH
+  ) {
+    return {
+      isValid: false,
+      error: "Invalid name",
+      message: `name must be 1-${MAX_LANDMARK_NAME_LENGTH} characters`,
+    };
+  }
+  if (
+    !Array.isArray(aliases) ||
+    aliases.length > MAX_LANDMARK_ALIASES ||
+    !aliases.every(
+      (alias) =>
+        typeof alias === "string" &&
+        alias.trim().length > 0 &&
+        alias.trim().length <= MAX_LANDMARK_NAME_LENGTH
+    )
+  ) {
+    return {
+      isValid: false,
+      error: "Invalid aliases",
+      message: `aliases must be an array of at most ${MAX_LANDMARK_ALIASES} non-empty names`,
+    };
+  }
+  if (
+    purok !== null &&
+    (typeof purok !== "string" || purok.trim().length > MAX_PUROK_LENGTH)
+  ) {
+    return {
+      isValid: false,
+      error: "Invalid purok",
+      message: `purok must be null or at most ${MAX_PUROK_LENGTH} characters`,
+    };
+  }
+  if (
+    barangay_id !== null &&
+    (typeof barangay_id !== "string" || !UUID_PATTERN.test(barangay_id))
+  ) {
+    return {
+      isValid: false,
+      error: "Invalid barangay",
+      message: "barangay_id must be a barangay UUID or null",
+    };
+  }
+  if (!LocationValidator.validateCoordinates(latitude, longitude).isValid) {
+    return {
+      isValid: false,
+      error: "Invalid coordinates",
+      message: "latitude and longitude are required and must be valid coordinates",
+    };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      name: name.trim(),
+      aliases: Array.from(
+        new Set(aliases.map((alias: string) => alias.trim()))
+      ),
+      purok: purok?.trim() || null,
+      barangay_id,
+      location: { latitude, longitude },
+    },
+  };
+}
+
+export class LandmarkModel {
+  // Whole gazetteer (small; cached by the PWA for offline search)
+  static async findAll(barangayId?: string): Promise<Landmark[]> {
+    const result = await query(
+      `
+      SELECT ${LANDMARK_COLUMNS}
+      FROM landmarks l
+      LEFT JOIN barangays b ON b.id = l.barangay_id
+      ${barangayId ? "WHERE l.barangay_id = $1" : ""}
+      ORDER BY l.name, l.id
+    `,
+      barangayId ? [barangayId] : []
+    );
+    return result.rows.map(toLandmark);
+  }
+
+  static async findById(id: string): Promise<Landmark | null> {
+    const result = await query(
+      `
+      SELECT ${LANDMARK_COLUMNS}
+      FROM landmarks l
+      LEFT JOIN barangays b ON b.id = l.barangay_id
+      WHERE l.id = $1
+    `,
+      [id]
+    );
+    return result.rows[0] ? toLandmark(result.rows[0]) : null;
+  }
+
+  // Fuzzy search over names and aliases. word_similarity is taken both ways so
+  // a partial query ("kapil") and a whole sentence ("near the chapel in
+  // Purok 3") both match; a matching purok or barangay ranks a hit higher.
+  static async search(
+    text: string,
+    limit: number = 10,
+    barangayId?: string
+  ): Promise<Landmark[]> {
+    const params: any[] = [text.trim().toLowerCase(), limit];
+    if (barangayId) params.push(barangayId);
+
+    const result = await query(
+      `
+      WITH scored AS (
+        SELECT ${LANDMARK_COLUMNS},
+               (SELECT MAX(GREATEST(word_similarity(lower(n), $1), word_similarity($1, lower(n))))
+                FROM unnest(l.aliases || l.name::text) AS n
+               ) AS name_score,
+               GREATEST(
+                 COALESCE(word_similarity(lower(l.purok), $1), 0),
+                 COALESCE(word_similarity(lower(b.name), $1), 0)
+               ) AS area_score
+        FROM landmarks l
+        LEFT JOIN barangays b ON b.id = l.barangay_id
+        ${barangayId ? "WHERE l.barangay_id = $3" : ""}
+      )
+      SELECT *, ROUND((name_score + ${AREA_MATCH_WEIGHT} * area_score)::numeric, 3)::float AS score
+      FROM scored
+      WHERE name_score >= ${NAME_MATCH_THRESHOLD} OR area_score >= ${AREA_MATCH_THRESHOLD}
+      ORDER BY score DESC, name
+      LIMIT $2
+    `,
+      params
+    );
+    return result.rows.map(({ name_score, area_score, ...row }) =>
+      toLandmark(row)
+    );
+  }
+
+  static async create(
+    input: LandmarkInput,
+    createdBy?: string
+  ): Promise<Landmark> {
+    const result = await query(
+      `
+      INSERT INTO landmarks (name, aliases, purok, barangay_id, location, created_by)
+      VALUES ($1, $2, $3, COALESCE($4::uuid, ${barangayContainingPointSql(5, 6)}),
+              ST_SetSRID(ST_Point($5, $6), 4326), $7)
+      RETURNING id
+    `,
+      [
+        input.name,
+        input.aliases,
+        input.purok,
+        input.barangay_id,
+        input.location.longitude,
+        input.location.latitude,
+        createdBy || null,
+      ]
+    );
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  static async update(
+    id: string,
+    input: LandmarkInput
+  ): Promise<Landmark | null> {
+    const result = await query(
+      `
+      UPDATE landmarks
+      SET name = $2,
+          aliases = $3,
+          purok = $4,
+          barangay_id = COALESCE($5::uuid, ${barangayContainingPointSql(6, 7)}),
+          location = ST_SetSRID(ST_Point($6, $7), 4326),
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING id
+    `,
+      [
+        id,
+        input.name,
+        input.aliases,
+        input.purok,
+        input.barangay_id,
+        input.location.longitude,
+        input.location.latitude,
+      ]
+    );
+    return result.rows[0] ? this.findById(id) : null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await query("DELETE FROM landmarks WHERE id = $1", [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -1,5 +1,8 @@
 // Location types and validation for PostGIS integration
 
+import { ServiceAreaCheck, ServiceAreaModel } from "./ServiceArea";
+import { forwardGeocode, reverseGeocode } from "../services/geocoding";
+
 export interface Coordinates {
   latitude: number;
   longitude: number;
@@ -18,14 +21,6 @@ export interface BoundingBox {
   west: number;
 }
 
-// Philippines bounding box for validation
-export const PHILIPPINES_BOUNDS: BoundingBox = {
-  north: 21.5, // Northernmost point
-  south: 4.5, // Southernmost point
-  east: 126.6, // Easternmost point
-  west: 116.9, // Westernmost point
-};
-
 // Location validation utilities
 export class LocationValidator {
   // Validate latitude/longitude coordinates
@@ -58,22 +53,15 @@ export class LocationValidator {
     return { isValid: true };
   }
 
-  // Validate if coordinates are within Philippines bounds
-  static isWithinPhilippines(lat: number, lng: number): boolean {
-    return (
-      lat >= PHILIPPINES_BOUNDS.south &&
-      lat <= PHILIPPINES_BOUNDS.north &&
-      lng >= PHILIPPINES_BOUNDS.west &&
-      lng <= PHILIPPINES_BOUNDS.east
-    );
-  }
-
-  // Validate location object
-  static validateLocation(location: any): {
+  // Validate location object against the service area registry (service_areas):
+  // 'reject' areas and points outside every area are invalid, 'warn' areas pass
+  // with serviceArea.message as the warning
+  static async validateLocation(location: any): Promise<{
     isValid: boolean;
     location?: Coordinates;
     error?: string;
-  } {
+    serviceArea?: ServiceAreaCheck;
+  }> {
     if (!location || typeof location !== "object") {
       return { isValid: false, error: "Location must be an object" };
     }
@@ -85,16 +73,15 @@ export class LocationValidator {
       return coordValidation;
     }
 
-    if (!this.isWithinPhilippines(latitude, longitude)) {
-      return {
-        isValid: false,
-        error: "Location must be within Philippines boundaries",
-      };
+    const serviceArea = await ServiceAreaModel.check(latitude, longitude);
+    if (!serviceArea.allowed) {
+      return { isValid: false, error: serviceArea.message, serviceArea };
     }
 
     return {
       isValid: true,
       location: { latitude, longitude },
+      serviceArea,
     };
   }
 }
@@ -165,7 +152,7 @@ export class LocationUtils {
   }
 }
 
-// Address geocoding utilities (for future Mapbox integration)
+// Address geocoding utilities (services/geocoding.ts)
 export interface GeocodingResult {
   coordinates: Coordinates;
   formatted_address: string;
@@ -174,19 +161,17 @@ export interface GeocodingResult {
 }
 
 export class AddressGeocoder {
-  // Placeholder for Mapbox geocoding integration
+  // Best match for an address, or null (also when geocoding is disabled)
   static async geocodeAddress(
     address: string
   ): Promise<GeocodingResult | null> {
-    // TODO: Implement Mapbox geocoding API call
-    // This would be implemented in the frontend service
-    throw new Error("Geocoding should be handled by Mapbox service");
+    const results = await forwardGeocode(address, 1);
+    return results[0] || null;
   }
 
-  // Placeholder for reverse geocoding
+  // Formatted address at the coordinates, or null
   static async reverseGeocode(location: Coordinates): Promise<string | null> {
-    // TODO: Implement Mapbox reverse geocoding API call
-    // This would be implemented in the frontend service
-    throw new Error("Reverse geocoding should be handled by Mapbox service");
+    const result = await reverseGeocode(location);
+    return result?.formatted_address || null;
   }
 }
@@ -1,4 +1,9 @@
-import { query } from "../db/connection";
+import { query, transaction } from "../db/connection";
+import { BoundingBox } from "./Location";
+import { ReportHistoryModel } from "./ReportHistory";
+import { AdminNoteModel } from "./AdminNote";
+import { AssignmentModel } from "./Assignment";
+import { barangayContainingPointSql } from "./Barangay";
 
 // Report status enum
 export type ReportStatus =
@@ -32,12 +37,46 @@ export interface Report {
   photo_url?: string;
   photo_public_id?: string;
   status: ReportStatus;
-  reporter_ip: string;
-  admin_notes?: string;
+  // Admin responses only (see toPublicReport)
+  reporter_ip?: string;
   duplicate_of?: string;
+  // Staff member (admin_users.clerk_user_id) and desk handling the report;
+  // the staff member is admin-only
+  assigned_to?: string | null;
+  assigned_to_email?: string | null;
+  department?: string | null;
+  // Barangay boundary containing the location (null when outside every boundary)
+  barangay_id?: string | null;
+  barangay_name?: string | null;
   created_at: Date;
   updated_at: Date;
   resolved_at?: Date;
+  // Residents who said "this is my issue too" (report_supports)
+  support_count?: number;
+  // Reports merged into this one (duplicate_of = id); IDs and photos on detail only
+  duplicate_count?: number;
+  duplicate_ids?: string[];
+  photos?: ReportPhoto[];
+  // Present only on nearby results (metres from the query point)
+  distance_meters?: number;
+  // Present only on search results
+  search_rank?: number;
+  highlights?: ReportHighlights;
+}
+
+// Gallery photo on a canonical report, copied from a merged duplicate
+export interface ReportPhoto {
+  id: string;
+  photo_url: string;
+  source_report_id: string | null;
+  created_at: Date;
+}
+
+// Highlighted search snippets (matches wrapped in <mark></mark>)
+export interface ReportHighlights {
+  description?: string;
+  address?: string;
+  admin_notes?: string;
 }
 
 // Create report input interface
@@ -49,22 +88,380 @@ export interface CreateReportInput {
   photo_url?: string;
   photo_public_id?: string;
   reporter_ip: string;
+  // SHA-256 of the tracking token returned to the reporter
+  tracking_token_hash?: string;
 }
 
 // Update report input interface
 export interface UpdateReportInput {
   status?: ReportStatus;
-  admin_notes?: string;
+  duplicate_of?: string | null;
+  // Appended to the internal notes log (report_admin_notes)
+  admin_note?: string;
+}
+
+// Bulk moderation (POST /admin/reports/bulk)
+export type BulkReportAction =
+  | "status"
+  | "append_notes"
+  | "mark_duplicate"
+  | "delete";
+
+export interface BulkReportOperation {
+  action: BulkReportAction;
+  status?: ReportStatus;
+  notes?: string;
   duplicate_of?: string;
-  resolved_at?: Date;
 }
 
+export interface BulkReportResult {
+  id: string;
+  success: boolean;
+  // Resulting status (absent for deletes and failures)
+  status?: ReportStatus;
+  error?: string;
+  message?: string;
+}
+
+export const MAX_BULK_REPORTS = 100;
+
+export interface NearbyReportOptions {
+  radiusMeters?: number;
+  category?: ReportCategory;
+  limit?: number;
+}
+
+// Map output (GeoJSON FeatureCollection). Below CLUSTER_MAX_ZOOM nearby reports
+// are merged into cluster features; a cell holding one report stays a report.
+export interface ReportMapFeature {
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: {
+    cluster: boolean;
+    point_count: number;
+    // Report fields, only when point_count is 1
+    id?: string;
+    category?: ReportCategory;
+    status?: ReportStatus;
+    address?: string | null;
+    description?: string;
+    created_at?: Date;
+  };
+}
+
+export interface ReportFeatureCollection {
+  type: "FeatureCollection";
+  features: ReportMapFeature[];
+  // True when MAX_MAP_FEATURES cut the result short
+  truncated: boolean;
+}
+
+// Zoom levels from which the map shows individual reports
+export const CLUSTER_MAX_ZOOM = 14;
+export const MAX_MAP_FEATURES = 5000;
+// Description excerpt in map popups
+const MAP_DESCRIPTION_LENGTH = 140;
+
+// Assignment change: undefined leaves a field as is, null clears it
+export interface AssignReportInput {
+  assigned_to?: string | null;
+  department?: string | null;
+}
+
+// Who made an update and why; recorded in report_status_history on status changes.
+// The note doubles as the required reason when reopening a report.
+export interface UpdateReportContext {
+  actor?: string;
+  // Internal reason recorded with a status change
+  note?: string;
+  // Shown to residents with a status change
+  publicMessage?: string;
+  // Barangay official's area: reports elsewhere are treated as not found
+  barangayId?: string;
+}
+
+// Sortable columns (whitelist; never interpolate user input directly)
+export type ReportSortField =
+  | "created_at"
+  | "updated_at"
+  | "resolved_at"
+  | "status"
+  | "category"
+  | "support_count";
+
+export type SortOrder = "asc" | "desc";
+
+const SORT_COLUMNS: Record<ReportSortField, string> = {
+  created_at: "created_at",
+  updated_at: "updated_at",
+  resolved_at: "resolved_at",
+  // Workflow order rather than alphabetical
+  status: `array_position(ARRAY['Submitted', 'In Review', 'In Progress', 'Resolved', 'Closed']::varchar[], status)`,
+  category: "category",
+  // "Most supported"
+  support_count:
+    "(SELECT COUNT(*) FROM report_supports s WHERE s.report_id = reports.id)",
+};
+
+export function validateSortField(field: string): field is ReportSortField {
+  return Object.keys(SORT_COLUMNS).includes(field);
+}
+
+// Assignee email for display (admin_users lookup by reports.assigned_to)
+const ASSIGNEE_EMAIL_COLUMN =
+  "(SELECT email FROM admin_users WHERE clerk_user_id = reports.assigned_to) AS assigned_to_email";
+
+// Barangay name for display
+const BARANGAY_NAME_COLUMN =
+  "(SELECT name FROM barangays WHERE id = reports.barangay_id) AS barangay_name";
+
+// Residents supporting the report
+const SUPPORT_COUNT_COLUMN =
+  "(SELECT COUNT(*)::int FROM report_supports s WHERE s.report_id = reports.id) AS support_count";
+
+// Reports merged into this one
+const DUPLICATE_COUNT_COLUMN =
+  "(SELECT COUNT(*)::int FROM reports d WHERE d.duplicate_of = reports.id) AS duplicate_count";
+const DUPLICATE_IDS_COLUMN =
+  "ARRAY(SELECT d.id FROM reports d WHERE d.duplicate_of = reports.id ORDER BY d.created_at) AS duplicate_ids";
+const PHOTOS_COLUMN = `COALESCE((
+    SELECT json_agg(json_build_object(
+             'id', p.id, 'photo_url', p.photo_url,
+             'source_report_id', p.source_report_id, 'created_at', p.created_at
+           ) ORDER BY p.created_at)
+    FROM report_photos p WHERE p.report_id = reports.id
+  ), '[]'::json) AS photos`;
+
 // Report filter interface
 export interface ReportFilter {
   category?: ReportCategory;
   status?: ReportStatus;
+  // Multi-value filters (combined with category/status when both are set)
+  categories?: ReportCategory[];
+  statuses?: ReportStatus[];
+  search?: string;
+  // "public" searches description + address, "admin" also searches admin_notes
+  searchScope?: "public" | "admin";
+  created_from?: Date;
+  created_to?: Date;
+  resolved_from?: Date;
+  resolved_to?: Date;
+  bbox?: BoundingBox;
+  // Admin queue filters: null assigned_to means unassigned
+  assigned_to?: string | null;
+  department?: string;
+  barangay_id?: string;
+  sortBy?: ReportSortField;
+  sortOrder?: SortOrder;
   limit?: number;
   offset?: number;
+  // Keyset pagination: continue after this (created_at, id) position
+  cursor?: ReportCursor;
+  // COUNT(*) is skipped when false
+  includeTotal?: boolean;
+}
+
+// Keyset pagination position (created_at kept as Postgres text to preserve microseconds)
+export interface ReportCursor {
+  createdAt: string;
+  id: string;
+  order: SortOrder;
+}
+
+export interface ReportListResult {
+  reports: Report[];
+  total?: number;
+  hasMore: boolean;
+  // Opaque cursor for the next page; null when ordering is not keyset-compatible or no more rows
+  nextCursor: string | null;
+}
+
+export function encodeReportCursor(cursor: ReportCursor): string {
+  return Buffer.from(
+    JSON.stringify({ c: cursor.createdAt, i: cursor.id, o: cursor.order })
+  ).toString("base64url");
+}
+
+export function decodeReportCursor(token: string): ReportCursor | null {
+  try {
+    const { c, i, o } = JSON.parse(
+      Buffer.from(token, "base64url").toString("utf8")
+    );
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (
+      typeof c !== "string" ||
+      isNaN(new Date(c).getTime()) ||
+      typeof i !== "string" ||
+      !uuidRegex.test(i) ||
+      (o !== "asc" && o !== "desc")
+    ) {
+      return null;
+    }
+    return { createdAt: c, id: i, order: o };
+  } catch {
+    return null;
+  }
+}
+
+// Keyset pagination only works for the default created_at ordering without ranking
+export function isKeysetCompatible(filter: ReportFilter): boolean {
+  return !filter.search && (!filter.sortBy || filter.sortBy === "created_at");
+}
+
+// Full-text search vectors (must match the expression indexes in 004_add_report_search.sql)
+const REPORT_SEARCH_VECTOR = `(
+  setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(address, '')), 'B')
+)`;
+// admin_notes is the search copy of the report_admin_notes log
+const ADMIN_SEARCH_VECTOR = `(
+  setweight(to_tsvector('simple', coalesce(description, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(address, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(admin_notes, '')), 'C')
+)`;
+const HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2";
+export const MAX_SEARCH_LENGTH = 200;
+
+// Convert free text into a prefix-matching tsquery ("broken light" -> "broken:* & light:*").
+// Only letters/digits survive, so the result is safe to pass to to_tsquery.
+export function buildSearchQuery(search: string): string | null {
+  const terms = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 8);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+// WHERE clause for a listing filter (everything except sorting and paging).
+// Shared by the list, the map GeoJSON and the vector tiles so they always agree.
+// searchRef/searchVector are set when the filter has a usable search term.
+function buildReportWhereClause(filter: ReportFilter): {
+  whereClause: string;
+  params: any[];
+  searchRef: string | null;
+  searchVector: string | null;
+} {
+  let whereClause = "WHERE 1=1";
+  const params: any[] = [];
+
+  const categories = [
+    ...(filter.category ? [filter.category] : []),
+    ...(filter.categories || []),
+  ];
+  if (categories.length > 0) {
+    params.push(categories);
+    whereClause += ` AND category = ANY($${params.length})`;
+  }
+
+  const statuses = [
+    ...(filter.status ? [filter.status] : []),
+    ...(filter.statuses || []),
+  ];
+  if (statuses.length > 0) {
+    params.push(statuses);
+    whereClause += ` AND status = ANY($${params.length})`;
+  }
+
+  const dateBounds: [keyof ReportFilter, string, string][] = [
+    ["created_from", "created_at", ">="],
+    ["created_to", "created_at", "<="],
+    ["resolved_from", "resolved_at", ">="],
+    ["resolved_to", "resolved_at", "<="],
+  ];
+  for (const [key, column, operator] of dateBounds) {
+    if (filter[key]) {
+      params.push(filter[key]);
+      whereClause += ` AND ${column} ${operator} $${params.length}`;
+    }
+  }
+
+  // Bounding box (west, south, east, north) - `&&` uses the GIST index
+  if (filter.bbox) {
+    params.push(
+      filter.bbox.west,
+      filter.bbox.south,
+      filter.bbox.east,
+      filter.bbox.north
+    );
+    const n = params.length;
+    whereClause += ` AND location && ST_MakeEnvelope($${n - 3}, $${n - 2}, $${n - 1}, $${n}, 4326)`;
+  }
+
+  // Assignment queue: specific staff member, unassigned (null) and/or department
+  if (filter.assigned_to === null) {
+    whereClause += " AND assigned_to IS NULL";
+  } else if (filter.assigned_to) {
+    params.push(filter.assigned_to);
+    whereClause += ` AND assigned_to = $${params.length}`;
+  }
+  if (filter.department) {
+    params.push(filter.department);
+    whereClause += ` AND department = $${params.length}`;
+  }
+  if (filter.barangay_id) {
+    params.push(filter.barangay_id);
+    whereClause += ` AND barangay_id = $${params.length}`;
+  }
+
+  let searchRef: string | null = null;
+  let searchVector: string | null = null;
+  const tsQuery = filter.search ? buildSearchQuery(filter.search) : null;
+  if (tsQuery) {
+    searchVector =
+      filter.searchScope === "admin" ? ADMIN_SEARCH_VECTOR : REPORT_SEARCH_VECTOR;
+    params.push(tsQuery);
+    searchRef = `to_tsquery('simple', $${params.length})`;
+    whereClause += ` AND ${searchVector} @@ ${searchRef}`;
+  }
+
+  return { whereClause, params, searchRef, searchVector };
+}
+
+// Statistics filter interface (admin dashboard)
+export interface ReportStatsFilter {
+  category?: ReportCategory;
+  barangay_id?: string;
+  created_from?: Date;
+  created_to?: Date;
+}
+
+// Aggregate statistics for the admin dashboard
+export interface ReportStats {
+  totalReports: number;
+  statusBreakdown: {
+    submitted: number;
+    "in-review": number;
+    "in-progress": number;
+    resolved: number;
+    closed: number;
+  };
+  categoryBreakdown: {
+    infrastructure: number;
+    sanitation: number;
+    safety: number;
+    water: number;
+    electrical: number;
+  };
+  recentActivity: {
+    last24Hours: number;
+    last7Days: number;
+    last30Days: number;
+  };
+  resolution: {
+    resolvedCount: number;
+    medianHours: number | null;
+  };
+  backlogAge: {
+    open: number;
+    under24Hours: number;
+    days1to7: number;
+    days7to30: number;
+    over30Days: number;
+  };
 }
 
 // Validation functions
@@ -90,6 +487,77 @@ export function validateReportStatus(status: string): status is ReportStatus {
   ].includes(status);
 }
 
+// Status workflow: allowed next states for each status (same-status updates are no-ops)
+export const STATUS_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> = {
+  Submitted: ["In Review", "Closed"],
+  "In Review": ["In Progress", "Resolved", "Closed"],
+  "In Progress": ["In Review", "Resolved", "Closed"],
+  Resolved: ["Closed", "In Progress"],
+  Closed: ["In Review"],
+};
+
+// Leaving Resolved/Closed for an active state reopens the report and needs a reason
+const FINAL_STATUSES: readonly ReportStatus[] = ["Resolved", "Closed"];
+
+export function canTransitionStatus(
+  from: ReportStatus,
+  to: ReportStatus
+): boolean {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isReopenTransition(
+  from: ReportStatus,
+  to: ReportStatus
+): boolean {
+  return FINAL_STATUSES.includes(from) && !FINAL_STATUSES.includes(to);
+}
+
+// Thrown by ReportModel.update when the status workflow rejects a change
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly code: "illegal_transition" | "reason_required",
+    public readonly from: ReportStatus,
+    public readonly to: ReportStatus
+  ) {
+    super(
+      code === "reason_required"
+        ? `Reopening a report (${from} → ${to}) requires a reason`
+        : `Cannot change status from ${from} to ${to}`
+    );
+    this.name = "StatusTransitionError";
+  }
+
+  get allowed(): readonly ReportStatus[] {
+    return STATUS_TRANSITIONS[this.from];
+  }
+}
+
+// Thrown when duplicate_of would point at a missing report or create a chain (A→B→C)
+export class DuplicateLinkError extends Error {
+  constructor(
+    public readonly code:
+      | "self_reference"
+      | "target_not_found"
+      | "target_is_duplicate"
+      | "has_duplicates"
+      | "already_merged",
+    public readonly targetId?: string
+  ) {
+    super(
+      {
+        self_reference: "A report cannot be a duplicate of itself",
+        target_not_found: "The canonical report was not found",
+        target_is_duplicate: `Report ${targetId} is itself a duplicate; merge into its canonical report instead`,
+        has_duplicates:
+          "Other reports are merged into this report; it cannot become a duplicate",
+        already_merged: `Report is already a duplicate of ${targetId}`,
+      }[code]
+    );
+    this.name = "DuplicateLinkError";
+  }
+}
+
 export function validateDescription(description: string): boolean {
   return description.length >= 1 && description.length <= 500;
 }
@@ -105,40 +573,51 @@ export function validateLocation(location: Location): boolean {
   );
 }
 
-// Validate location specifically for Philippines (enforced by database constraint)
-export function validatePhilippinesLocation(location: Location): boolean {
-  return (
-    validateLocation(location) &&
-    location.latitude >= 4.0 &&
-    location.latitude <= 21.0 &&
-    location.longitude >= 116.0 &&
-    location.longitude <= 127.0
-  );
-}
-
-// Validate location specifically for Surigao City area (optional strict validation)
-export function validateSurigaoCityLocation(location: Location): boolean {
-  return (
-    validatePhilippinesLocation(location) &&
-    location.latitude >= 9.6 && // Surigao City area bounds
-    location.latitude <= 9.9 &&
-    location.longitude >= 125.3 &&
-    location.longitude <= 125.6
-  );
+// Strip admin-only fields before a report goes out on a public endpoint
+export function toPublicReport(report: Report): Report {
+  const {
+    reporter_ip: _reporterIp,
+    assigned_to: _assignedTo,
+    assigned_to_email: _assignedToEmail,
+    ...rest
+  } = report;
+  return rest;
 }
 
 // Database operations
 export class ReportModel {
-  // Create a new report
+  // Create a new report. The category's routing rule sets department and
+  // assignee (skipped when that admin is disabled) and is audited in the same statement.
   static async create(data: CreateReportInput): Promise<Report> {
     const result = await query(
       `
-      INSERT INTO reports (category, description, location, address, photo_url, photo_public_id, reporter_ip)
-      VALUES ($1, $2, ST_SetSRID(ST_Point($3, $4), 4326), $5, $6, $7, $8)
-      RETURNING id, category, description, 
-                ST_X(location) as longitude, ST_Y(location) as latitude,
-                address, photo_url, photo_public_id, status, reporter_ip, admin_notes, 
-                duplicate_of, created_at, updated_at, resolved_at
+      WITH routing AS (
+        SELECT r.department, a.clerk_user_id AS assignee
+        FROM report_routing_rules r
+        LEFT JOIN admin_users a
+          ON a.clerk_user_id = r.default_assignee AND a.disabled_at IS NULL
+        WHERE r.category = $1
+      ),
+      inserted AS (
+        INSERT INTO reports (category, description, location, address, photo_url, photo_public_id, reporter_ip,
+                             tracking_token_hash, department, assigned_to, barangay_id)
+        VALUES ($1, $2, ST_SetSRID(ST_Point($3, $4), 4326), $5, $6, $7, $8, $9,
+                (SELECT department FROM routing),
+                (SELECT assignee FROM routing),
+                ${barangayContainingPointSql(3, 4)})
+        RETURNING id, category, description, 
+                  ST_X(location) as longitude, ST_Y(location) as latitude,
+                  address, photo_url, photo_public_id, status, reporter_ip,
+                  duplicate_of, assigned_to, department, barangay_id, created_at, updated_at, resolved_at
+      ),
+      initial_assignment AS (
+        INSERT INTO report_assignment_history
+          (report_id, old_assigned_to, new_assigned_to, old_department, new_department, changed_by, note)
+        SELECT id, NULL, assigned_to, NULL, department, NULL, 'Routing rule'
+        FROM inserted
+        WHERE assigned_to IS NOT NULL OR department IS NOT NULL
+      )
+      SELECT * FROM inserted
     `,
       [
         data.category,
@@ -149,6 +628,7 @@ export class ReportModel {
         data.photo_url,
         data.photo_public_id,
         data.reporter_ip,
+        data.tracking_token_hash || null,
       ]
     );
 
@@ -165,8 +645,10 @@ export class ReportModel {
       `
       SELECT id, category, description, 
              ST_X(location) as longitude, ST_Y(location) as latitude,
-             address, photo_url, photo_public_id, status, reporter_ip, admin_notes,
-             duplicate_of, created_at, updated_at, resolved_at
+             address, photo_url, photo_public_id, status, reporter_ip,
+             duplicate_of, assigned_to, department, barangay_id, created_at, updated_at, resolved_at,
+             ${ASSIGNEE_EMAIL_COLUMN}, ${BARANGAY_NAME_COLUMN}, ${SUPPORT_COUNT_COLUMN},
+             ${DUPLICATE_COUNT_COLUMN}, ${DUPLICATE_IDS_COLUMN}, ${PHOTOS_COLUMN}
       FROM reports WHERE id = $1
     `,
       [id]
@@ -182,63 +664,254 @@ export class ReportModel {
   }
 
   // Find reports with filtering
-  static async findMany(
-    filter: ReportFilter = {}
-  ): Promise<{ reports: Report[]; total: number }> {
-    let whereClause = "WHERE 1=1";
-    const params: any[] = [];
+  static async findMany(filter: ReportFilter = {}): Promise<ReportListResult> {
+    const { whereClause, params, searchRef, searchVector } =
+      buildReportWhereClause(filter);
 
-    if (filter.category) {
-      params.push(filter.category);
-      whereClause += ` AND category = $${params.length}`;
+    // Full-text search: ranked results with highlighted snippets
+    let searchColumns = "";
+    const keyset = isKeysetCompatible(filter);
+    const keysetOrder: SortOrder = filter.sortOrder === "asc" ? "asc" : "desc";
+    let orderBy = `created_at ${keysetOrder.toUpperCase()}, id ${keysetOrder.toUpperCase()}`;
+    if (searchRef) {
+      const isAdminScope = filter.searchScope === "admin";
+      const queryRef = searchRef;
+
+      searchColumns = `,
+             ts_rank(${searchVector}, ${queryRef}) as search_rank,
+             ts_headline('simple', description, ${queryRef}, '${HEADLINE_OPTIONS}') as headline_description,
+             CASE WHEN address IS NOT NULL
+               THEN ts_headline('simple', address, ${queryRef}, '${HEADLINE_OPTIONS}')
+             END as headline_address${
+               isAdminScope
+                 ? `,
+             CASE WHEN admin_notes IS NOT NULL
+               THEN ts_headline('simple', admin_notes, ${queryRef}, '${HEADLINE_OPTIONS}')
+             END as headline_admin_notes`
+                 : ""
+             }`;
+      orderBy = "search_rank DESC, created_at DESC";
     }
 
-    if (filter.status) {
-      params.push(filter.status);
-      whereClause += ` AND status = $${params.length}`;
+    // Explicit sort wins over search ranking; id keeps page boundaries stable
+    if (filter.sortBy) {
+      const direction = filter.sortOrder === "asc" ? "ASC" : "DESC";
+      orderBy = `${SORT_COLUMNS[filter.sortBy]} ${direction} NULLS LAST, id ${direction}`;
     }
 
-    // Count total matching records
-    const countResult = await query(
-      `SELECT COUNT(*) as total FROM reports ${whereClause}`,
-      params
-    );
-    const total = parseInt(countResult.rows[0].total);
+    // Count total matching records (optional in cursor mode)
+    let total: number | undefined;
+    if (filter.includeTotal !== false) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total FROM reports ${whereClause}`,
+        params
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    // Get paginated results
+    // Keyset position is applied after counting so total covers all pages
+    let pageClause = whereClause;
+    const pageParams = [...params];
+    if (filter.cursor) {
+      if (!keyset || filter.cursor.order !== keysetOrder) {
+        throw new Error("Cursor does not match the requested ordering");
+      }
+      pageParams.push(filter.cursor.createdAt, filter.cursor.id);
+      const n = pageParams.length;
+      pageClause += ` AND (created_at, id) ${
+        keysetOrder === "asc" ? ">" : "<"
+      } ($${n - 1}::timestamptz, $${n}::uuid)`;
+    }
+
+    // Get paginated results (one extra row tells whether more exist)
     const limit = filter.limit || 20;
-    const offset = filter.offset || 0;
+    const offset = filter.cursor ? 0 : filter.offset || 0;
 
     // Add limit and offset parameters
-    const limitIndex = params.length + 1;
-    const offsetIndex = params.length + 2;
-    params.push(limit, offset);
+    const limitIndex = pageParams.length + 1;
+    const offsetIndex = pageParams.length + 2;
+    pageParams.push(limit + 1, offset);
 
     const result = await query(
       `
       SELECT id, category, description, 
              ST_X(location) as longitude, ST_Y(location) as latitude,
-             address, photo_url, photo_public_id, status, reporter_ip, admin_notes,
-             duplicate_of, created_at, updated_at, resolved_at
-      FROM reports ${whereClause}
-      ORDER BY created_at DESC
+             address, photo_url, photo_public_id, status, reporter_ip,
+             duplicate_of, assigned_to, department, barangay_id, created_at, updated_at, resolved_at,
+             ${ASSIGNEE_EMAIL_COLUMN}, ${BARANGAY_NAME_COLUMN}, ${SUPPORT_COUNT_COLUMN},
+             ${DUPLICATE_COUNT_COLUMN}, created_at::text as cursor_created_at${searchColumns}
+      FROM reports ${pageClause}
+      ORDER BY ${orderBy}
       LIMIT $${limitIndex} OFFSET $${offsetIndex}
     `,
-      params
+      pageParams
     );
 
-    const reports = result.rows.map((row) => ({
-      ...row,
-      location: { latitude: row.latitude, longitude: row.longitude },
-    }));
+    const hasMore = result.rows.length > limit;
+    const rows = result.rows.slice(0, limit);
+    const lastRow = rows[rows.length - 1];
+    const nextCursor =
+      keyset && hasMore && lastRow
+        ? encodeReportCursor({
+            createdAt: lastRow.cursor_created_at,
+            id: lastRow.id,
+            order: keysetOrder,
+          })
+        : null;
+
+    const reports = rows.map((row) => {
+      const {
+        cursor_created_at,
+        headline_description,
+        headline_address,
+        headline_admin_notes,
+        ...rest
+      } = row;
+      const report: Report = {
+        ...rest,
+        location: { latitude: row.latitude, longitude: row.longitude },
+      };
+      if (searchRef) {
+        report.search_rank = Number(row.search_rank);
+        report.highlights = {
+          description: headline_description,
+          address: headline_address ?? undefined,
+          admin_notes: headline_admin_notes ?? undefined,
+        };
+      }
+      return report;
+    });
+
+    return { reports, total, hasMore, nextCursor };
+  }
+
+  // Reports for the map as GeoJSON. Sorting and paging in the filter are ignored.
+  // With a zoom below CLUSTER_MAX_ZOOM, reports are grouped on a grid of about
+  // 32 px cells (8 per 256 px tile) so the payload follows the viewport, not the
+  // number of reports.
+  static async findMapFeatures(
+    filter: ReportFilter = {},
+    zoom?: number
+  ): Promise<ReportFeatureCollection> {
+    const { whereClause, params } = buildReportWhereClause(filter);
+    const clustered = zoom !== undefined && zoom < CLUSTER_MAX_ZOOM;
+
+    let sql: string;
+    if (clustered) {
+      params.push(360 / 2 ** zoom! / 8);
+      const gridRef = `$${params.length}`;
+      // array_agg(...)[1] is the report itself when the cell holds only one
+      sql = `
+        SELECT COUNT(*)::int AS point_count,
+               ST_X(ST_Centroid(ST_Collect(location))) AS longitude,
+               ST_Y(ST_Centroid(ST_Collect(location))) AS latitude,
+               (array_agg(id))[1] AS id,
+               (array_agg(category))[1] AS category,
+               (array_agg(status))[1] AS status,
+               (array_agg(address))[1] AS address,
+               (array_agg(left(description, ${MAP_DESCRIPTION_LENGTH})))[1] AS description,
+               (array_agg(created_at))[1] AS created_at
+        FROM reports ${whereClause}
+        GROUP BY ST_SnapToGrid(location, ${gridRef})
+        ORDER BY point_count DESC
+        LIMIT $${params.length + 1}
+      `;
+    } else {
+      sql = `
+        SELECT 1 AS point_count,
+               ST_X(location) AS longitude, ST_Y(location) AS latitude,
+               id, category, status, address,
+               left(description, ${MAP_DESCRIPTION_LENGTH}) AS description, created_at
+        FROM reports ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${params.length + 1}
+      `;
+    }
+    // One extra row tells whether the result was cut short
+    params.push(MAX_MAP_FEATURES + 1);
+
+    const result = await query(sql, params);
+    const rows = result.rows.slice(0, MAX_MAP_FEATURES);
+
+    const features: ReportMapFeature[] = rows.map((row) => {
+      const single = row.point_count === 1;
+      return {
+        type: "Feature",
+        geometry: {
+          type: "Point",
+          coordinates: [row.longitude, row.latitude],
+        },
+        properties: single
+          ? {
+              cluster: false,
+              point_count: 1,
+              id: row.id,
+              category: row.category,
+              status: row.status,
+              address: row.address,
+              description: row.description,
+              created_at: row.created_at,
+            }
+          : { cluster: true, point_count: row.point_count },
+      };
+    });
+
+    return {
+      type: "FeatureCollection",
+      features,
+      truncated: result.rows.length > MAX_MAP_FEATURES,
+    };
+  }
+
+  // Mapbox Vector Tile (layer "reports") for tile z/x/y, built by ST_AsMVT.
+  // Returns an empty buffer when no report falls in the tile.
+  static async findTile(
+    z: number,
+    x: number,
+    y: number,
+    filter: ReportFilter = {}
+  ): Promise<Buffer> {
+    const { whereClause, params } = buildReportWhereClause(filter);
+    params.push(z, x, y);
+    const n = params.length;
 
-    return { reports, total };
+    const result = await query(
+      `
+      WITH bounds AS (
+        SELECT ST_TileEnvelope($${n - 2}, $${n - 1}, $${n}) AS geom
+      ),
+      features AS (
+        SELECT ST_AsMVTGeom(ST_Transform(location, 3857), bounds.geom) AS geom,
+               id::text AS id, category, status, created_at::text AS created_at
+        FROM reports, bounds
+        ${whereClause}
+          AND location && ST_Transform(bounds.geom, 4326)
+      )
+      SELECT ST_AsMVT(features.*, 'reports', 4096, 'geom') AS tile FROM features
+    `,
+      params
+    );
+    return result.rows[0]?.tile || Buffer.alloc(0);
   }
 
   // Update report
   static async update(
     id: string,
-    data: UpdateReportInput
+    data: UpdateReportInput,
+    context: UpdateReportContext = {}
+  ): Promise<Report | null> {
+    // Report update and its status history row commit (or roll back) together
+    return transaction((client) =>
+      this.updateWithClient(client, id, data, context)
+    );
+  }
+
+  // Update inside an existing transaction (locks the row, enforces the status workflow)
+  private static async updateWithClient(
+    client: any,
+    id: string,
+    data: UpdateReportInput,
+    context: UpdateReportContext
   ): Promise<Report | null> {
     const updates: string[] = [];
     const params: any[] = [];
@@ -248,40 +921,84 @@ export class ReportModel {
       updates.push(`status = $${params.length}`);
     }
 
-    if (data.admin_notes !== undefined) {
-      params.push(data.admin_notes);
-      updates.push(`admin_notes = $${params.length}`);
-    }
-
     if (data.duplicate_of !== undefined) {
       params.push(data.duplicate_of);
       updates.push(`duplicate_of = $${params.length}`);
     }
 
-    if (data.resolved_at !== undefined) {
-      params.push(data.resolved_at);
-      updates.push(`resolved_at = $${params.length}`);
+    if (updates.length === 0 && !data.admin_note) {
+      throw new Error("No fields to update");
     }
 
-    if (updates.length === 0) {
-      throw new Error("No fields to update");
+    const current = await client.query(
+      `SELECT status, barangay_id FROM reports WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    if (current.rows.length === 0) return null;
+    if (context.barangayId && current.rows[0].barangay_id !== context.barangayId) {
+      return null;
+    }
+    const oldStatus: ReportStatus = current.rows[0].status;
+
+    if (data.duplicate_of) {
+      await this.assertLinkable(client, id, data.duplicate_of);
+    }
+    const statusChanged = !!data.status && data.status !== oldStatus;
+
+    if (data.status && statusChanged) {
+      if (!canTransitionStatus(oldStatus, data.status)) {
+        throw new StatusTransitionError(
+          "illegal_transition",
+          oldStatus,
+          data.status
+        );
+      }
+      if (isReopenTransition(oldStatus, data.status) && !context.note) {
+        throw new StatusTransitionError(
+          "reason_required",
+          oldStatus,
+          data.status
+        );
+      }
+
+      // resolved_at tracks the Resolved state
+      if (data.status === "Resolved") {
+        updates.push("resolved_at = NOW()");
+      } else if (oldStatus === "Resolved") {
+        updates.push("resolved_at = NULL");
+      }
     }
 
     params.push(id);
-    const result = await query(
+    updates.push("updated_at = NOW()");
+    const result = await client.query(
       `
       UPDATE reports 
-      SET ${updates.join(", ")}, updated_at = NOW()
+      SET ${updates.join(", ")}
       WHERE id = $${params.length}
       RETURNING id, category, description, 
                 ST_X(location) as longitude, ST_Y(location) as latitude,
-                address, photo_url, photo_public_id, status, reporter_ip, admin_notes,
-                duplicate_of, created_at, updated_at, resolved_at
+                address, photo_url, photo_public_id, status, reporter_ip,
+                duplicate_of, assigned_to, department, created_at, updated_at, resolved_at,
+                ${ASSIGNEE_EMAIL_COLUMN}
     `,
       params
     );
 
-    if (result.rows.length === 0) return null;
+    if (data.status && statusChanged) {
+      await ReportHistoryModel.record(client, {
+        report_id: id,
+        old_status: oldStatus,
+        new_status: data.status,
+        changed_by: context.actor,
+        note: context.note,
+        public_message: context.publicMessage,
+      });
+    }
+
+    if (data.admin_note) {
+      await AdminNoteModel.append(client, id, data.admin_note, context.actor);
+    }
 
     const row = result.rows[0];
     return {
@@ -290,30 +1007,272 @@ export class ReportModel {
     };
   }
 
-  // Find nearby reports for duplicate detection (optimized for Surigao City)
+  // duplicate_of must point at an existing canonical report, and the report being
+  // linked must not have duplicates of its own, so links stay one level deep
+  private static async assertLinkable(
+    client: any,
+    id: string,
+    targetId: string
+  ): Promise<void> {
+    if (id === targetId) {
+      throw new DuplicateLinkError("self_reference");
+    }
+
+    const target = await client.query(
+      "SELECT duplicate_of FROM reports WHERE id = $1 FOR UPDATE",
+      [targetId]
+    );
+    if (target.rows.length === 0) {
+      throw new DuplicateLinkError("target_not_found", targetId);
+    }
+    if (target.rows[0].duplicate_of) {
+      throw new DuplicateLinkError("target_is_duplicate", targetId);
+    }
+
+    const linked = await client.query(
+      "SELECT 1 FROM reports WHERE duplicate_of = $1 LIMIT 1",
+      [id]
+    );
+    if (linked.rows.length > 0) {
+      throw new DuplicateLinkError("has_duplicates");
+    }
+  }
+
+  // Merge a duplicate into its canonical report: link it, close it with the reason
+  // (recorded in status history and the admin note log) and copy its photo into
+  // the canonical gallery
+  static async merge(
+    duplicateId: string,
+    canonicalId: string,
+    reason: string,
+    context: UpdateReportContext = {}
+  ): Promise<{ duplicate: Report; canonical: Report } | null> {
+    const merged = await transaction(async (client) => {
+      const current = await client.query(
+        "SELECT status, duplicate_of, photo_url, photo_public_id FROM reports WHERE id = $1 FOR UPDATE",
+        [duplicateId]
+      );
+      if (current.rows.length === 0) return null;
+      const row = current.rows[0];
+      if (row.duplicate_of) {
+        throw new DuplicateLinkError("already_merged", row.duplicate_of);
+      }
+
+      // The history note is capped at MAX_STATUS_NOTE_LENGTH, like the reason,
+      // so the canonical id only goes into the (longer) admin note log
+      const duplicate = await this.updateWithClient(
+        client,
+        duplicateId,
+        {
+          duplicate_of: canonicalId,
+          status: row.status === "Closed" ? undefined : "Closed",
+          admin_note: `Merged into ${canonicalId}: ${reason}`,
+        },
+        { actor: context.actor, note: reason }
+      );
+
+      if (row.photo_url) {
+        await client.query(
+          `INSERT INTO report_photos (report_id, photo_url, photo_public_id, source_report_id)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (report_id, photo_url) DO NOTHING`,
+          [canonicalId, row.photo_url, row.photo_public_id, duplicateId]
+        );
+      }
+      return duplicate;
+    });
+
+    if (!merged) return null;
+    const canonical = await this.findById(canonicalId);
+    return { duplicate: merged, canonical: canonical! };
+  }
+
+  // Change assignee and/or department; the change is audited in the same transaction
+  static async assign(
+    id: string,
+    input: AssignReportInput,
+    context: UpdateReportContext = {}
+  ): Promise<Report | null> {
+    return transaction(async (client) => {
+      const current = await client.query(
+        `SELECT assigned_to, department FROM reports WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (current.rows.length === 0) return null;
+      const old = current.rows[0];
+
+      const assignedTo =
+        input.assigned_to !== undefined ? input.assigned_to : old.assigned_to;
+      const department =
+        input.department !== undefined ? input.department : old.department;
+
+      const result = await client.query(
+        `
+        UPDATE reports
+        SET assigned_to = $1, department = $2, updated_at = NOW()
+        WHERE id = $3
+        RETURNING id, category, description, 
+                  ST_X(location) as longitude, ST_Y(location) as latitude,
+                  address, photo_url, photo_public_id, status, reporter_ip,
+                  duplicate_of, assigned_to, department, created_at, updated_at, resolved_at,
+                  ${ASSIGNEE_EMAIL_COLUMN}
+      `,
+        [assignedTo, department, id]
+      );
+
+      if (assignedTo !== old.assigned_to || department !== old.department) {
+        await AssignmentModel.record(client, {
+          report_id: id,
+          old_assigned_to: old.assigned_to,
+          new_assigned_to: assignedTo,
+          old_department: old.department,
+          new_department: department,
+          changed_by: context.actor || null,
+          note: context.note || null,
+        });
+      }
+
+      const row = result.rows[0];
+      return {
+        ...row,
+        location: { latitude: row.latitude, longitude: row.longitude },
+      };
+    });
+  }
+
+  // Apply one operation to many reports in a single transaction. Each ID runs in its
+  // own savepoint so a failure is reported per ID without undoing the others;
+  // dryRun rolls everything back after computing the results.
+  static async bulkUpdate(
+    ids: string[],
+    operation: BulkReportOperation,
+    context: UpdateReportContext = {},
+    dryRun: boolean = false
+  ): Promise<BulkReportResult[]> {
+    const data: UpdateReportInput = {};
+    if (operation.action === "status") data.status = operation.status;
+    if (operation.action === "append_notes") {
+      data.admin_note = operation.notes;
+    }
+    if (operation.action === "mark_duplicate") {
+      data.duplicate_of = operation.duplicate_of;
+    }
+
+    return transaction(async (client) => {
+      await client.query("SAVEPOINT bulk_start");
+      const results: BulkReportResult[] = [];
+
+      for (const id of ids) {
+        await client.query("SAVEPOINT bulk_item");
+        try {
+          if (operation.action === "delete") {
+            const deleted = await client.query(
+              "DELETE FROM reports WHERE id = $1 AND ($2::uuid IS NULL OR barangay_id = $2)",
+              [id, context.barangayId || null]
+            );
+            results.push(
+              (deleted.rowCount || 0) > 0
+                ? { id, success: true }
+                : {
+                    id,
+                    success: false,
+                    error: "not_found",
+                    message: "Report not found",
+                  }
+            );
+          } else {
+            const report = await this.updateWithClient(
+              client,
+              id,
+              data,
+              context
+            );
+            results.push(
+              report
+                ? { id, success: true, status: report.status }
+                : {
+                    id,
+                    success: false,
+                    error: "not_found",
+                    message: "Report not found",
+                  }
+            );
+          }
+          await client.query("RELEASE SAVEPOINT bulk_item");
+        } catch (error: any) {
+          await client.query("ROLLBACK TO SAVEPOINT bulk_item");
+          if (
+            error instanceof StatusTransitionError ||
+            error instanceof DuplicateLinkError
+          ) {
+            results.push({
+              id,
+              success: false,
+              error: error.code,
+              message: error.message,
+            });
+          } else if (error?.code === "23503") {
+            // Still referenced by reports marked as its duplicates
+            results.push({
+              id,
+              success: false,
+              error: "referenced",
+              message: "Report is referenced by other reports as their duplicate",
+            });
+          } else {
+            throw error;
+          }
+        }
+      }
+
+      if (dryRun) {
+        await client.query("ROLLBACK TO SAVEPOINT bulk_start");
+      }
+      return results;
+    });
+  }
+
+  // Open, canonical reports near a point (closest first) for pre-submit suggestions.
+  // Only public columns are returned.
   static async findNearby(
     location: Location,
-    radiusMeters: number = 100
+    options: NearbyReportOptions = {}
   ): Promise<Report[]> {
+    const params: any[] = [
+      location.longitude,
+      location.latitude,
+      options.radiusMeters ?? 100,
+    ];
+    let categoryClause = "";
+    if (options.category) {
+      params.push(options.category);
+      categoryClause = `AND category = $${params.length}`;
+    }
+    params.push(options.limit ?? 5);
+
     const result = await query(
       `
       SELECT id, category, description, 
              ST_X(location) as longitude, ST_Y(location) as latitude,
-             address, photo_url, photo_public_id, status, reporter_ip, admin_notes,
-             duplicate_of, created_at, updated_at, resolved_at,
-             ST_Distance(
+             address, photo_url, status, created_at, updated_at, resolved_at,
+             ${SUPPORT_COUNT_COLUMN}, ${DUPLICATE_COUNT_COLUMN},
+             ROUND(ST_Distance(
                location::geography,
                ST_SetSRID(ST_Point($1, $2), 4326)::geography
-             ) as distance_meters
+             ))::int as distance_meters
       FROM reports
       WHERE ST_DWithin(
         location::geography,
         ST_SetSRID(ST_Point($1, $2), 4326)::geography,
         $3
       )
-      ORDER BY distance_meters
+        AND status <> 'Closed'
+        AND duplicate_of IS NULL
+        ${categoryClause}
+      ORDER BY distance_meters, created_at DESC
+      LIMIT $${params.length}
     `,
-      [location.longitude, location.latitude, radiusMeters]
+      params
     );
 
     return result.rows.map((row) => ({
@@ -322,33 +1281,22 @@ export class ReportModel {
     }));
   }
 
-  // Find reports within Surigao City bounds
-  static async findInSurigaoCity(): Promise<Report[]> {
-    // Surigao City approximate bounds
-    const surigaoBounds = {
-      north: 9.9,
-      south: 9.6,
-      east: 125.6,
-      west: 125.3,
-    };
+  // Reports owned by the given tracking token hashes (newest first).
+  // Only public columns; duplicate_of tells the reporter where a merged report went.
+  static async findByTrackingTokens(tokenHashes: string[]): Promise<Report[]> {
+    if (tokenHashes.length === 0) return [];
 
     const result = await query(
       `
       SELECT id, category, description, 
              ST_X(location) as longitude, ST_Y(location) as latitude,
-             address, photo_url, photo_public_id, status, reporter_ip, admin_notes,
-             duplicate_of, created_at, updated_at, resolved_at
+             address, photo_url, status, duplicate_of, created_at, updated_at, resolved_at,
+             ${SUPPORT_COUNT_COLUMN}, ${DUPLICATE_COUNT_COLUMN}
       FROM reports
-      WHERE ST_X(location) BETWEEN $1 AND $2 
-        AND ST_Y(location) BETWEEN $3 AND $4
+      WHERE tracking_token_hash = ANY($1::text[])
       ORDER BY created_at DESC
     `,
-      [
-        surigaoBounds.west,
-        surigaoBounds.east,
-        surigaoBounds.south,
-        surigaoBounds.north,
-      ]
+      [tokenHashes]
     );
 
     return result.rows.map((row) => ({
@@ -357,12 +1305,150 @@ export class ReportModel {
     }));
   }
 
+  // Aggregate statistics computed in SQL (admin dashboard)
+  static async getStats(filter: ReportStatsFilter = {}): Promise<ReportStats> {
+    // Category and barangay filters apply everywhere; the date range does not apply to the
+    // rolling recentActivity windows
+    const categoryParams: any[] = [];
+    let categoryWhere = "WHERE 1=1";
+    if (filter.category) {
+      categoryParams.push(filter.category);
+      categoryWhere += ` AND category = $${categoryParams.length}`;
+    }
+    if (filter.barangay_id) {
+      categoryParams.push(filter.barangay_id);
+      categoryWhere += ` AND barangay_id = $${categoryParams.length}`;
+    }
+
+    const params = [...categoryParams];
+    let whereClause = categoryWhere;
+    if (filter.created_from) {
+      params.push(filter.created_from);
+      whereClause += ` AND created_at >= $${params.length}`;
+    }
+    if (filter.created_to) {
+      params.push(filter.created_to);
+      whereClause += ` AND created_at <= $${params.length}`;
+    }
+
+    const [statusResult, categoryResult, summaryResult, activityResult] =
+      await Promise.all([
+        query(
+          `SELECT status, COUNT(*)::int AS count
+           FROM reports ${whereClause}
+           GROUP BY status`,
+          params
+        ),
+        query(
+          `SELECT category, COUNT(*)::int AS count
+           FROM reports ${whereClause}
+           GROUP BY category`,
+          params
+        ),
+        query(
+          `
+          SELECT
+            COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE resolved_at IS NOT NULL)::int AS resolved_count,
+            percentile_cont(0.5) WITHIN GROUP (
+              ORDER BY EXTRACT(EPOCH FROM (resolved_at - created_at))
+            ) FILTER (WHERE resolved_at IS NOT NULL) AS median_resolution_seconds,
+            COUNT(*) FILTER (WHERE status NOT IN ('Resolved', 'Closed'))::int AS open,
+            COUNT(*) FILTER (
+              WHERE status NOT IN ('Resolved', 'Closed')
+                AND created_at >= NOW() - INTERVAL '24 hours'
+            )::int AS backlog_under_24h,
+            COUNT(*) FILTER (
+              WHERE status NOT IN ('Resolved', 'Closed')
+                AND created_at < NOW() - INTERVAL '24 hours'
+                AND created_at >= NOW() - INTERVAL '7 days'
+            )::int AS backlog_1_to_7d,
+            COUNT(*) FILTER (
+              WHERE status NOT IN ('Resolved', 'Closed')
+                AND created_at < NOW() - INTERVAL '7 days'
+                AND created_at >= NOW() - INTERVAL '30 days'
+            )::int AS backlog_7_to_30d,
+            COUNT(*) FILTER (
+              WHERE status NOT IN ('Resolved', 'Closed')
+                AND created_at < NOW() - INTERVAL '30 days'
+            )::int AS backlog_over_30d
+          FROM reports ${whereClause}
+        `,
+          params
+        ),
+        query(
+          `
+          SELECT
+            COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '24 hours')::int AS last_24h,
+            COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '7 days')::int AS last_7d,
+            COUNT(*)::int AS last_30d
+          FROM reports ${categoryWhere}
+            AND created_at >= NOW() - INTERVAL '30 days'
+        `,
+          categoryParams
+        ),
+      ]);
+
+    const statusCounts: Record<string, number> = {};
+    for (const row of statusResult.rows) statusCounts[row.status] = row.count;
+
+    const categoryCounts: Record<string, number> = {};
+    for (const row of categoryResult.rows)
+      categoryCounts[row.category] = row.count;
+
+    const summary = summaryResult.rows[0];
+    const activity = activityResult.rows[0];
+    const medianSeconds =
+      summary.median_resolution_seconds === null
+        ? null
+        : Number(summary.median_resolution_seconds);
+
+    return {
+      totalReports: summary.total,
+      statusBreakdown: {
+        submitted: statusCounts["Submitted"] || 0,
+        "in-review": statusCounts["In Review"] || 0,
+        "in-progress": statusCounts["In Progress"] || 0,
+        resolved: statusCounts["Resolved"] || 0,
+        closed: statusCounts["Closed"] || 0,
+      },
+      categoryBreakdown: {
+        infrastructure: categoryCounts["Infrastructure"] || 0,
+        sanitation: categoryCounts["Sanitation"] || 0,
+        safety: categoryCounts["Safety"] || 0,
+        water: categoryCounts["Water"] || 0,
+        electrical: categoryCounts["Electrical"] || 0,
+      },
+      recentActivity: {
+        last24Hours: activity.last_24h,
+        last7Days: activity.last_7d,
+        last30Days: activity.last_30d,
+      },
+      resolution: {
+        resolvedCount: summary.resolved_count,
+        medianHours:
+          medianSeconds === null
+            ? null
+            : Math.round((medianSeconds / 3600) * 10) / 10,
+      },
+      backlogAge: {
+        open: summary.open,
+        under24Hours: summary.backlog_under_24h,
+        days1to7: summary.backlog_1_to_7d,
+        days7to30: summary.backlog_7_to_30d,
+        over30Days: summary.backlog_over_30d,
+      },
+    };
+  }
+
   // Delete report (admin only)
+  // Throws 23503 (foreign_key_violation) while other reports are marked as its duplicates
   static async delete(id: string): Promise<boolean> {
     try {
       const result = await query("DELETE FROM reports WHERE id = $1", [id]);
       return (result.rowCount || 0) > 0;
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.code === "23503") throw error;
       console.error("Error deleting report:", error);
       return false;
     }
@@ -0,0 +1,197 @@
+import { query, transaction } from "../db/connection";
+import { screenComment } from "../services/commentFilter";
+
+export type CommentStatus = "visible" | "pending" | "hidden";
+
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  body: string;
+  // Posted by staff through the admin API
+  is_official: boolean;
+  created_at: Date;
+  // Admin endpoints only
+  status?: CommentStatus;
+  author_ip?: string | null;
+  author_email?: string | null;
+  moderation_reason?: string | null;
+  moderated_by?: string | null;
+  moderated_at?: Date | null;
+}
+
+export const MAX_COMMENT_LENGTH = 1000;
+// Comments one IP may post per hour, across all reports
+export const COMMENT_HOURLY_LIMIT = 10;
+
+export function validateCommentBody(body: unknown): body is string {
+  return (
+    typeof body === "string" &&
+    body.trim().length > 0 &&
+    body.trim().length <= MAX_COMMENT_LENGTH
+  );
+}
+
+// Moderators can publish a held comment or hide a published one
+export function validateModerationStatus(
+  status: unknown
+): status is "visible" | "hidden" {
+  return status === "visible" || status === "hidden";
+}
+
+// Thrown when an IP exceeds COMMENT_HOURLY_LIMIT
+export class CommentRateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Maximum ${COMMENT_HOURLY_LIMIT} comments per hour allowed`);
+    this.name = "CommentRateLimitError";
+  }
+}
+
+const PUBLIC_COLUMNS = "c.id, c.report_id, c.body, c.is_official, c.created_at";
+const ADMIN_COLUMNS = `${PUBLIC_COLUMNS}, c.status, host(c.author_ip) AS author_ip,
+       a.email AS author_email, c.moderation_reason, c.moderated_by, c.moderated_at`;
+
+export class ReportCommentModel {
+  // Published comments, oldest first
+  static async findPublic(reportId: string): Promise<ReportComment[]> {
+    const result = await query(
+      `
+      SELECT ${PUBLIC_COLUMNS}
+      FROM report_comments c
+      WHERE c.report_id = $1 AND c.status = 'visible'
+      ORDER BY c.created_at ASC, c.id ASC
+    `,
+      [reportId]
+    );
+    return result.rows;
+  }
+
+  // Every comment on a report, including held and hidden ones
+  static async findForAdmin(reportId: string): Promise<ReportComment[]> {
+    const result = await query(
+      `
+      SELECT ${ADMIN_COLUMNS}
+      FROM report_comments c
+      LEFT JOIN admin_users a ON a.clerk_user_id = c.author_clerk_user_id
+      WHERE c.report_id = $1
+      ORDER BY c.created_at ASC, c.id ASC
+    `,
+      [reportId]
+    );
+    return result.rows;
+  }
+
+  // Moderation queue across all reports, or one barangay's reports (oldest first)
+  static async findByStatus(
+    status: CommentStatus,
+    limit: number = 50,
+    barangayId?: string
+  ): Promise<ReportComment[]> {
+    const result = await query(
+      `
+      SELECT ${ADMIN_COLUMNS}
+      FROM report_comments c
+      LEFT JOIN admin_users a ON a.clerk_user_id = c.author_clerk_user_id
+      WHERE c.status = $1
+        AND ($3::uuid IS NULL OR c.report_id IN (SELECT id FROM reports WHERE barangay_id = $3))
+      ORDER BY c.created_at ASC
+      LIMIT $2
+    `,
+      [status, limit, barangayId || null]
+    );
+    return result.rows;
+  }
+
+  // Resident comment; null when the report does not exist. Comments caught by
+  // the filter are stored as 'pending' with the reason.
+  static async addPublic(
+    reportId: string,
+    body: string,
+    authorIp: string
+  ): Promise<ReportComment | null> {
+    const screen = screenComment(body);
+
+    return transaction(async (client) => {
+      const report = await client.query("SELECT id FROM reports WHERE id = $1", [
+        reportId,
+      ]);
+      if (report.rows.length === 0) return null;
+
+      // Serialise comments from one IP so a burst cannot overrun the hourly cap
+      await client.query(
+        "SELECT pg_advisory_xact_lock(hashtext('report_comments:' || $1))",
+        [authorIp]
+      );
+
+      const recent = await client.query(
+        `SELECT COUNT(*)::int AS count,
+                CEIL(EXTRACT(EPOCH FROM MIN(created_at) + INTERVAL '1 hour' - NOW()))::int AS retry_after
+         FROM report_comments
+         WHERE author_ip = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+        [authorIp]
+      );
+      if (recent.rows[0].count >= COMMENT_HOURLY_LIMIT) {
+        throw new CommentRateLimitError(
+          Math.max(1, recent.rows[0].retry_after || 1)
+        );
+      }
+
+      const result = await client.query(
+        `
+        INSERT INTO report_comments (report_id, body, author_ip, status, moderation_reason)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, report_id, body, is_official, created_at, status
+      `,
+        [
+          reportId,
+          body.trim(),
+          authorIp,
+          screen.held ? "pending" : "visible",
+          screen.reason || null,
+        ]
+      );
+      return result.rows[0];
+    });
+  }
+
+  // Staff reply: always published and flagged official; null when the report does not exist
+  static async addOfficial(
+    reportId: string,
+    body: string,
+    clerkUserId: string
+  ): Promise<ReportComment | null> {
+    const result = await query(
+      `
+      INSERT INTO report_comments (report_id, body, author_clerk_user_id, is_official)
+      SELECT id, $2, $3, TRUE FROM reports WHERE id = $1
+      RETURNING id, report_id, body, is_official, created_at, status
+    `,
+      [reportId, body.trim(), clerkUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async setStatus(
+    id: string,
+    status: "visible" | "hidden",
+    moderatedBy: string
+  ): Promise<ReportComment | null> {
+    const result = await query(
+      `
+      UPDATE report_comments
+      SET status = $2, moderated_by = $3, moderated_at = NOW()
+      WHERE id = $1
+      RETURNING id, report_id, body, is_official, created_at, status,
+                moderation_reason, moderated_by, moderated_at
+    `,
+      [id, status, moderatedBy]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await query("DELETE FROM report_comments WHERE id = $1", [
+      id,
+    ]);
+    return (result.rowCount || 0) > 0;
+  }
+}
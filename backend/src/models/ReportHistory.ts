@@ -0,0 +1,73 @@
+import { query } from "../db/connection";
+import { ReportStatus } from "./Report";
+
+// One status change on a report (audit trail)
+export interface ReportStatusChange {
+  id: string;
+  report_id: string;
+  old_status: ReportStatus | null;
+  new_status: ReportStatus;
+  // Clerk user id of the admin and the internal note; admin endpoints only
+  changed_by?: string | null;
+  changed_by_email?: string | null;
+  note?: string | null;
+  // Update shown to residents
+  public_message: string | null;
+  created_at: Date;
+}
+
+export interface RecordStatusChangeInput {
+  report_id: string;
+  old_status: ReportStatus | null;
+  new_status: ReportStatus;
+  changed_by?: string;
+  note?: string;
+  public_message?: string;
+}
+
+export const MAX_STATUS_NOTE_LENGTH = 500;
+export const MAX_PUBLIC_MESSAGE_LENGTH = 500;
+
+export class ReportHistoryModel {
+  // Insert a history row; takes the transaction client so it commits with the report update
+  static async record(
+    client: any,
+    input: RecordStatusChangeInput
+  ): Promise<void> {
+    await client.query(
+      `
+      INSERT INTO report_status_history (report_id, old_status, new_status, changed_by, note, public_message)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `,
+      [
+        input.report_id,
+        input.old_status,
+        input.new_status,
+        input.changed_by || null,
+        input.note || null,
+        input.public_message || null,
+      ]
+    );
+  }
+
+  // Status history for a report, oldest first; actors and internal notes only
+  // when includeInternal is set
+  static async findByReport(
+    reportId: string,
+    includeInternal: boolean = false
+  ): Promise<ReportStatusChange[]> {
+    const result = await query(
+      `
+      SELECT h.id, h.report_id, h.old_status, h.new_status, h.public_message, h.created_at
+             ${includeInternal ? ", h.note, h.changed_by, a.email AS changed_by_email" : ""}
+      FROM report_status_history h
+      ${includeInternal ? "LEFT JOIN admin_users a ON a.clerk_user_id = h.changed_by" : ""}
+      WHERE h.report_id = $1
+      ORDER BY h.created_at ASC, h.id ASC
+    `,
+      [reportId]
+    );
+
+    return result.rows;
+  }
+}
@@ -0,0 +1,279 @@
+// Query-string parsing and validation for report listings
+
+import {
+  ReportFilter,
+  ReportCategory,
+  ReportStatus,
+  validateReportCategory,
+  validateReportStatus,
+  validateSortField,
+  decodeReportCursor,
+  isKeysetCompatible,
+  MAX_SEARCH_LENGTH,
+} from "./Report";
+import { BoundingBox, LocationValidator } from "./Location";
+import { DEPARTMENTS, validateDepartment } from "./Assignment";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export interface ReportQueryValidation {
+  isValid: boolean;
+  filter?: ReportFilter;
+  error?: string;
+  message?: string;
+}
+
+export class ReportQueryValidator {
+  // Parse optional ISO 8601 date: undefined when absent, null when invalid
+  static parseDate(value: unknown): Date | null | undefined {
+    if (value === undefined || value === "") return undefined;
+    if (typeof value !== "string") return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Accept comma-separated (?status=A,B) and repeated (?status=A&status=B) values
+  static parseList(value: unknown): string[] | null {
+    if (value === undefined || value === "") return [];
+    const raw = Array.isArray(value) ? value : [value];
+    if (!raw.every((v) => typeof v === "string")) return null;
+    return (raw as string[])
+      .flatMap((v) => v.split(","))
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+
+  // Parse "west,south,east,north": undefined when absent, null when invalid
+  static parseBoundingBox(value: unknown): BoundingBox | null | undefined {
+    if (value === undefined || value === "") return undefined;
+    if (typeof value !== "string") return null;
+
+    const parts = value.split(",").map((v) => parseFloat(v));
+    if (parts.length !== 4 || parts.some((v) => !isFinite(v))) return null;
+
+    const [west, south, east, north] = parts;
+    if (
+      !LocationValidator.validateCoordinates(south, west).isValid ||
+      !LocationValidator.validateCoordinates(north, east).isValid ||
+      west >= east ||
+      south >= north
+    ) {
+      return null;
+    }
+    return { west, south, east, north };
+  }
+
+  // Parse boolean flags ("true"/"1" or "false"/"0"): undefined when absent, null when invalid
+  static parseBoolean(value: unknown): boolean | null | undefined {
+    if (value === undefined || value === "") return undefined;
+    if (value === "true" || value === "1") return true;
+    if (value === "false" || value === "0") return false;
+    return null;
+  }
+
+  // Validate listing query params (limit/offset are handled by each route)
+  // currentAdminId resolves the admin-only "assigned_to=me" (my queue) filter
+  static validate(
+    query: Record<string, unknown>,
+    scope: "public" | "admin",
+    currentAdminId?: string
+  ): ReportQueryValidation {
+    const filter: ReportFilter = {};
+
+    const categories = this.parseList(query.category);
+    if (!categories || !categories.every(validateReportCategory)) {
+      return {
+        isValid: false,
+        error: "Invalid category",
+        message:
+          "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
+      };
+    }
+    if (categories.length > 0) {
+      filter.categories = categories as ReportCategory[];
+    }
+
+    const statuses = this.parseList(query.status);
+    if (!statuses || !statuses.every(validateReportStatus)) {
+      return {
+        isValid: false,
+        error: "Invalid status",
+        message:
+          "Status must be one of: Submitted, In Review, In Progress, Resolved, Closed",
+      };
+    }
+    if (statuses.length > 0) {
+      filter.statuses = statuses as ReportStatus[];
+    }
+
+    const { search } = query;
+    if (search !== undefined) {
+      if (typeof search !== "string" || search.length > MAX_SEARCH_LENGTH) {
+        return {
+          isValid: false,
+          error: "Invalid search",
+          message: `Search must be a string of at most ${MAX_SEARCH_LENGTH} characters`,
+        };
+      }
+      if (search.trim()) {
+        filter.search = search.trim();
+        filter.searchScope = scope;
+      }
+    }
+
+    const dateParams = [
+      "created_from",
+      "created_to",
+      "resolved_from",
+      "resolved_to",
+    ] as const;
+    for (const key of dateParams) {
+      const date = this.parseDate(query[key]);
+      if (date === null) {
+        return {
+          isValid: false,
+          error: "Invalid date",
+          message: `'${key}' must be a valid ISO 8601 date`,
+        };
+      }
+      if (date) filter[key] = date;
+    }
+
+    if (
+      (filter.created_from &&
+        filter.created_to &&
+        filter.created_from > filter.created_to) ||
+      (filter.resolved_from &&
+        filter.resolved_to &&
+        filter.resolved_from > filter.resolved_to)
+    ) {
+      return {
+        isValid: false,
+        error: "Invalid date range",
+        message: "Range start must be before range end",
+      };
+    }
+
+    const bbox = this.parseBoundingBox(query.bbox);
+    if (bbox === null) {
+      return {
+        isValid: false,
+        error: "Invalid bbox",
+        message:
+          "bbox must be 'west,south,east,north' in degrees with west < east and south < north",
+      };
+    }
+    if (bbox) filter.bbox = bbox;
+
+    const { barangay } = query;
+    if (barangay !== undefined && barangay !== "") {
+      if (typeof barangay !== "string" || !UUID_PATTERN.test(barangay)) {
+        return {
+          isValid: false,
+          error: "Invalid barangay",
+          message: "barangay must be a barangay ID (see GET /barangays)",
+        };
+      }
+      filter.barangay_id = barangay;
+    }
+
+    const { sortBy, sortOrder } = query;
+    if (sortBy !== undefined) {
+      if (typeof sortBy !== "string" || !validateSortField(sortBy)) {
+        return {
+          isValid: false,
+          error: "Invalid sortBy",
+          message:
+            "sortBy must be one of: created_at, updated_at, resolved_at, status, category, support_count",
+        };
+      }
+      filter.sortBy = sortBy;
+    }
+    if (sortOrder !== undefined) {
+      if (sortOrder !== "asc" && sortOrder !== "desc") {
+        return {
+          isValid: false,
+          error: "Invalid sortOrder",
+          message: "sortOrder must be 'asc' or 'desc'",
+        };
+      }
+      filter.sortOrder = sortOrder;
+    }
+
+    // Assignment queue filters (admin only): assigned_to=me|none|<clerk user id>
+    if (scope === "admin") {
+      const { assigned_to, department } = query;
+      if (assigned_to !== undefined && assigned_to !== "") {
+        if (typeof assigned_to !== "string" || assigned_to.length > 255) {
+          return {
+            isValid: false,
+            error: "Invalid assigned_to",
+            message: "assigned_to must be 'me', 'none' or an admin user id",
+          };
+        }
+        if (assigned_to === "none") {
+          filter.assigned_to = null;
+        } else if (assigned_to === "me") {
+          filter.assigned_to = currentAdminId;
+        } else {
+          filter.assigned_to = assigned_to;
+        }
+      }
+      if (department !== undefined && department !== "") {
+        if (typeof department !== "string" || !validateDepartment(department)) {
+          return {
+            isValid: false,
+            error: "Invalid department",
+            message: `department must be one of: ${Object.keys(DEPARTMENTS).join(", ")}`,
+          };
+        }
+        filter.department = department;
+      }
+    }
+
+    // Cursor (keyset) pagination: ?pagination=cursor for the first page, ?cursor=... after
+    const { cursor, pagination } = query;
+    if (pagination !== undefined && pagination !== "cursor" && pagination !== "offset") {
+      return {
+        isValid: false,
+        error: "Invalid pagination",
+        message: "pagination must be 'cursor' or 'offset'",
+      };
+    }
+    const includeTotal = this.parseBoolean(query.includeTotal);
+    if (includeTotal === null) {
+      return {
+        isValid: false,
+        error: "Invalid includeTotal",
+        message: "includeTotal must be 'true' or 'false'",
+      };
+    }
+    if (cursor !== undefined || pagination === "cursor") {
+      if (!isKeysetCompatible(filter)) {
+        return {
+          isValid: false,
+          error: "Invalid pagination",
+          message:
+            "Cursor pagination requires the default created_at ordering and no search",
+        };
+      }
+      if (cursor !== undefined) {
+        const decoded =
+          typeof cursor === "string" ? decodeReportCursor(cursor) : null;
+        if (!decoded || decoded.order !== (filter.sortOrder || "desc")) {
+          return {
+            isValid: false,
+            error: "Invalid cursor",
+            message: "cursor is malformed or does not match the sort order",
+          };
+        }
+        filter.cursor = decoded;
+      }
+      // Counting every page is wasteful; only count when asked
+      filter.includeTotal = includeTotal === true;
+    }
+
+    return { isValid: true, filter };
+  }
+}
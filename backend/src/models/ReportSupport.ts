@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import { transaction } from "../db/connection";
+
+export interface SupportResult {
+  // Report that received the support (the canonical one for merged duplicates)
+  report_id: string;
+  // False when this device (or IP) had already supported the report
+  added: boolean;
+  support_count: number;
+}
+
+export interface Supporter {
+  ip: string;
+  // Random per-device token from the client; stored as a SHA-256 hash
+  deviceToken?: string;
+}
+
+// Supports one IP may add per hour, across all reports
+export const SUPPORT_HOURLY_LIMIT = 30;
+// Distinct devices behind one IP that may support the same report (shared wifi)
+export const MAX_DEVICES_PER_IP = 5;
+
+export function validateDeviceToken(token: unknown): token is string {
+  return typeof token === "string" && /^[A-Za-z0-9_-]{16,128}$/.test(token);
+}
+
+// Thrown when an IP exceeds SUPPORT_HOURLY_LIMIT
+export class SupportRateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Maximum ${SUPPORT_HOURLY_LIMIT} supports per hour allowed`);
+    this.name = "SupportRateLimitError";
+  }
+}
+
+export class ReportSupportModel {
+  // Record support from one resident; null when the report does not exist.
+  // Deduplicated per device token when given, per IP otherwise; an IP that
+  // supported without a token cannot add more with one, and vice versa.
+  static async add(
+    reportId: string,
+    supporter: Supporter
+  ): Promise<SupportResult | null> {
+    const tokenHash = supporter.deviceToken
+      ? crypto.createHash("sha256").update(supporter.deviceToken).digest("hex")
+      : null;
+
+    return transaction(async (client) => {
+      const report = await client.query(
+        "SELECT id, duplicate_of FROM reports WHERE id = $1",
+        [reportId]
+      );
+      if (report.rows.length === 0) return null;
+      // Merged duplicates forward support to their canonical report
+      const targetId: string = report.rows[0].duplicate_of || reportId;
+
+      // Serialise supports from one IP so the hourly and per-report caps
+      // below cannot be overrun by concurrent requests
+      await client.query(
+        "SELECT pg_advisory_xact_lock(hashtext('report_supports:' || $1))",
+        [supporter.ip]
+      );
+
+      const recent = await client.query(
+        `SELECT COUNT(*)::int AS count,
+                CEIL(EXTRACT(EPOCH FROM MIN(created_at) + INTERVAL '1 hour' - NOW()))::int AS retry_after
+         FROM report_supports
+         WHERE supporter_ip = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+        [supporter.ip]
+      );
+      if (recent.rows[0].count >= SUPPORT_HOURLY_LIMIT) {
+        throw new SupportRateLimitError(
+          Math.max(1, recent.rows[0].retry_after || 1)
+        );
+      }
+
+      const fromIp = await client.query(
+        `SELECT COUNT(*)::int AS count,
+                COUNT(*) FILTER (WHERE device_token_hash IS NULL)::int AS without_token
+         FROM report_supports WHERE report_id = $1 AND supporter_ip = $2`,
+        [targetId, supporter.ip]
+      );
+      const { count: ipCount, without_token: ipOnlyCount } = fromIp.rows[0];
+
+      let added = false;
+      if (tokenHash) {
+        // Fresh tokens are cheap to mint, so cap devices per IP on one report
+        if (ipOnlyCount === 0 && ipCount < MAX_DEVICES_PER_IP) {
+          const inserted = await client.query(
+            `INSERT INTO report_supports (report_id, supporter_ip, device_token_hash)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (report_id, device_token_hash) WHERE device_token_hash IS NOT NULL
+             DO NOTHING`,
+            [targetId, supporter.ip, tokenHash]
+          );
+          added = (inserted.rowCount || 0) > 0;
+        }
+      } else if (ipCount === 0) {
+        const inserted = await client.query(
+          `INSERT INTO report_supports (report_id, supporter_ip)
+           VALUES ($1, $2)
+           ON CONFLICT (report_id, supporter_ip) WHERE device_token_hash IS NULL
+           DO NOTHING`,
+          [targetId, supporter.ip]
+        );
+        added = (inserted.rowCount || 0) > 0;
+      }
+
+      const count = await client.query(
+        "SELECT COUNT(*)::int AS count FROM report_supports WHERE report_id = $1",
+        [targetId]
+      );
+
+      return {
+        report_id: targetId,
+        added,
+        support_count: count.rows[0].count,
+      };
+    });
+  }
+}
@@ -0,0 +1,190 @@
+import { query } from "../db/connection";
+import { BOUNDARY_COLUMN } from "./Barangay";
+
+// What happens to a location inside the area
+export type ServiceAreaStrictness = "allow" | "warn" | "reject";
+
+// Service area from the registry (service_areas)
+export interface ServiceArea {
+  id: string;
+  name: string;
+  strictness: ServiceAreaStrictness;
+  // Highest priority wins where areas overlap
+  priority: number;
+  // Shown to residents for 'warn' and 'reject'
+  message: string | null;
+  updated_at: Date;
+  // [west, south, east, north] of the boundary
+  bbox?: [number, number, number, number];
+  // Simplified GeoJSON geometry; only when requested
+  boundary?: object;
+}
+
+export interface UpsertServiceAreaInput {
+  strictness: ServiceAreaStrictness;
+  priority?: number;
+  message?: string | null;
+  // GeoJSON Polygon/MultiPolygon; required when creating unless fromBarangays
+  boundary?: object;
+  // Use the union of all loaded barangay boundaries as the polygon
+  fromBarangays?: boolean;
+}
+
+// Result of checking a location against the registry
+export interface ServiceAreaCheck {
+  // False when the report must be refused ('reject' or outside every area)
+  allowed: boolean;
+  // Inside an 'allow' area
+  withinServiceArea: boolean;
+  area: string | null;
+  strictness: ServiceAreaStrictness;
+  // Warning for 'warn' areas, reason for rejections
+  message?: string;
+}
+
+export const MAX_SERVICE_AREA_MESSAGE_LENGTH = 300;
+
+// Outside every registered area
+export const OUTSIDE_SERVICE_AREA_MESSAGE = "Location is outside the service area";
+
+export function validateServiceAreaStrictness(
+  value: unknown
+): value is ServiceAreaStrictness {
+  return value === "allow" || value === "warn" || value === "reject";
+}
+
+// Thrown when neither a boundary nor loaded barangays are available to build the polygon
+export class ServiceAreaBoundaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServiceAreaBoundaryError";
+  }
+}
+
+const SERVICE_AREA_COLUMNS = `id, name, strictness, priority, message, updated_at,
+       json_build_array(ST_XMin(boundary), ST_YMin(boundary), ST_XMax(boundary), ST_YMax(boundary)) AS bbox`;
+
+export class ServiceAreaModel {
+  static async findAll(includeBoundary: boolean = false): Promise<ServiceArea[]> {
+    const result = await query(
+      `
+      SELECT ${SERVICE_AREA_COLUMNS}${includeBoundary ? `, ${BOUNDARY_COLUMN}` : ""}
+      FROM service_areas
+      ORDER BY priority DESC, name
+    `
+    );
+    return result.rows;
+  }
+
+  // Area deciding the policy for a point: highest priority, then the smallest area
+  static async findForPoint(
+    latitude: number,
+    longitude: number
+  ): Promise<ServiceArea | null> {
+    const result = await query(
+      `
+      SELECT ${SERVICE_AREA_COLUMNS}
+      FROM service_areas
+      WHERE ST_Contains(boundary, ST_SetSRID(ST_Point($1, $2), 4326))
+      ORDER BY priority DESC, ST_Area(boundary) ASC
+      LIMIT 1
+    `,
+      [longitude, latitude]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async check(
+    latitude: number,
+    longitude: number
+  ): Promise<ServiceAreaCheck> {
+    const area = await this.findForPoint(latitude, longitude);
+    if (!area) {
+      return {
+        allowed: false,
+        withinServiceArea: false,
+        area: null,
+        strictness: "reject",
+        message: OUTSIDE_SERVICE_AREA_MESSAGE,
+      };
+    }
+
+    const check: ServiceAreaCheck = {
+      allowed: area.strictness !== "reject",
+      withinServiceArea: area.strictness === "allow",
+      area: area.name,
+      strictness: area.strictness,
+    };
+    if (area.strictness !== "allow") {
+      check.message =
+        area.message ||
+        (area.strictness === "reject"
+          ? `Reports from ${area.name} are not accepted`
+          : `Location is in ${area.name}, outside the main service area`);
+    }
+    return check;
+  }
+
+  // Create or update an area by name. Polygons are normalised to valid multipolygons.
+  static async upsert(
+    name: string,
+    input: UpsertServiceAreaInput
+  ): Promise<ServiceArea> {
+    let boundarySql: string;
+    const params: any[] = [
+      name,
+      input.strictness,
+      input.priority ?? 0,
+      input.message ?? null,
+    ];
+
+    if (input.fromBarangays) {
+      const count = await query("SELECT COUNT(*)::int AS count FROM barangays");
+      if (count.rows[0].count === 0) {
+        throw new ServiceAreaBoundaryError(
+          "No barangay boundaries are loaded (npm run barangays:load)"
+        );
+      }
+      boundarySql =
+        "(SELECT ST_Multi(ST_CollectionExtract(ST_MakeValid(ST_Union(boundary)), 3)) FROM barangays)";
+    } else if (input.boundary) {
+      params.push(JSON.stringify(input.boundary));
+      boundarySql = `ST_Multi(ST_CollectionExtract(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON($${params.length}), 4326)), 3))`;
+    } else {
+      // Keep the current polygon; fails below if the area does not exist yet
+      const existing = await query(
+        "SELECT 1 FROM service_areas WHERE name = $1",
+        [name]
+      );
+      if (existing.rows.length === 0) {
+        throw new ServiceAreaBoundaryError(
+          "A boundary (or from_barangays) is required for a new service area"
+        );
+      }
+      boundarySql = "(SELECT boundary FROM service_areas WHERE name = $1)";
+    }
+
+    const result = await query(
+      `
+      INSERT INTO service_areas (name, boundary, strictness, priority, message, updated_at)
+      VALUES ($1, ${boundarySql}, $2, $3, $4, NOW())
+      ON CONFLICT (name) DO UPDATE
+        SET boundary = EXCLUDED.boundary,
+            strictness = EXCLUDED.strictness,
+            priority = EXCLUDED.priority,
+            message = EXCLUDED.message,
+            updated_at = NOW()
+      RETURNING ${SERVICE_AREA_COLUMNS}
+    `,
+      params
+    );
+    return result.rows[0];
+  }
+
+  static async delete(name: string): Promise<boolean> {
+    const result = await query("DELETE FROM service_areas WHERE name = $1", [
+      name,
+    ]);
+    return (result.rowCount || 0) > 0;
+  }
+}
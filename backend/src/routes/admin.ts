@@ -1,38 +1,145 @@
 import { Router, Request, Response } from "express";
-import { authenticateAdmin, requireAdminRole } from "../middleware/adminAuth";
-import { ReportModel, UpdateReportInput } from "../models/Report";
+import {
+  authenticateAdmin,
+  requireAdminRole,
+  restrictToAdminBarangay,
+} from "../middleware/adminAuth";
+import {
+  ReportModel,
+  UpdateReportInput,
+  ReportFilter,
+  ReportStatsFilter,
+  validateReportCategory,
+  validateReportStatus,
+  StatusTransitionError,
+  DuplicateLinkError,
+  BulkReportOperation,
+  MAX_BULK_REPORTS,
+} from "../models/Report";
+import { ReportQueryValidator } from "../models/ReportQuery";
+import {
+  ReportHistoryModel,
+  MAX_STATUS_NOTE_LENGTH,
+  MAX_PUBLIC_MESSAGE_LENGTH,
+} from "../models/ReportHistory";
+import {
+  AdminNoteModel,
+  validateAdminNote,
+  MAX_ADMIN_NOTE_LENGTH,
+} from "../models/AdminNote";
+import {
+  ReportCommentModel,
+  validateCommentBody,
+  validateModerationStatus,
+  MAX_COMMENT_LENGTH,
+} from "../models/ReportComment";
+import {
+  AdminUserModel,
+  LastAdminError,
+  validateAdminRole,
+} from "../models/AdminUser";
+import {
+  AssignmentModel,
+  DEPARTMENTS,
+  validateDepartment,
+} from "../models/Assignment";
+import { LandmarkModel, validateLandmarkInput } from "../models/Landmark";
+import {
+  ServiceAreaModel,
+  ServiceAreaBoundaryError,
+  validateServiceAreaStrictness,
+  MAX_SERVICE_AREA_MESSAGE_LENGTH,
+} from "../models/ServiceArea";
+import {
+  findPotentialDuplicates,
+  getDuplicateRules,
+  upsertDuplicateRule,
+  DEFAULT_DUPLICATE_RULE,
+} from "../services/duplicateDetector";
 
 const router = Router();
 
 // Apply admin authentication to all routes
 router.use(authenticateAdmin);
 
+// Barangay officials only reach reports (and comments on them) in their barangay
+router.use(
+  "/reports/:id",
+  restrictToAdminBarangay("SELECT barangay_id FROM reports WHERE id = $1")
+);
+router.use(
+  "/comments/:id",
+  restrictToAdminBarangay(
+    `SELECT r.barangay_id FROM report_comments c
+     JOIN reports r ON r.id = c.report_id
+     WHERE c.id = $1`
+  )
+);
+router.use(
+  "/landmarks/:id",
+  restrictToAdminBarangay("SELECT barangay_id FROM landmarks WHERE id = $1")
+);
+
+// At least one active admin must remain
+function sendLastAdminError(res: Response, error: LastAdminError) {
+  return res.status(409).json({
+    error: "Last admin",
+    message: `${error.message}; promote another user to admin first`,
+  });
+}
+
+// Workflow violations: 409 for illegal transitions, 400 when a reopen lacks a reason
+function sendStatusTransitionError(res: Response, error: StatusTransitionError) {
+  return res.status(error.code === "reason_required" ? 400 : 409).json({
+    error:
+      error.code === "reason_required"
+        ? "Reason required"
+        : "Invalid status transition",
+    message: error.message,
+    currentStatus: error.from,
+    allowedStatuses: error.allowed,
+  });
+}
+
+// Bad duplicate links: 404 for a missing canonical report, 400 for self links,
+// 409 for chains and reports that are already merged
+function sendDuplicateLinkError(res: Response, error: DuplicateLinkError) {
+  const status =
+    error.code === "target_not_found"
+      ? 404
+      : error.code === "self_reference"
+        ? 400
+        : 409;
+  return res.status(status).json({
+    error: "Invalid duplicate link",
+    code: error.code,
+    message: error.message,
+  });
+}
+
 // GET /api/v1/admin/reports - Get all reports with admin filtering
 router.get(
   "/reports",
   requireAdminRole("moderator"),
   async (req: Request, res: Response) => {
     try {
-      const {
-        category,
-        status,
-        limit = "20",
-        offset = "0",
-        sortBy = "created_at",
-        sortOrder = "desc",
-        search,
-      } = req.query;
-
-      // Build filter object
-      const filter: any = {};
-
-      if (category && typeof category === "string") {
-        filter.category = category;
-      }
+      const { limit = "20", offset = "0" } = req.query;
 
-      if (status && typeof status === "string") {
-        filter.status = status;
+      // Filters, search (incl. admin notes), date ranges, bbox, queue and sort
+      const parsed = ReportQueryValidator.validate(
+        req.query,
+        "admin",
+        req.clerkUserId
+      );
+      if (!parsed.isValid) {
+        return res.status(400).json({
+          error: parsed.error,
+          message: parsed.message,
+        });
       }
+      const filter: ReportFilter = parsed.filter!;
+      // Barangay officials: their own barangay, whatever was requested
+      if (req.adminBarangayId) filter.barangay_id = req.adminBarangayId;
 
       // Parse pagination
       const limitNum = Math.min(parseInt(limit as string, 10) || 20, 100);
@@ -44,17 +151,34 @@ router.get(
       // Get reports from database
       const result = await ReportModel.findMany(filter);
 
+      // Cursor mode: no offset/page numbers, total only when requested
+      if (filter.includeTotal !== undefined) {
+        return res.json({
+          success: true,
+          data: {
+            reports: result.reports,
+            ...(result.total !== undefined && { total: result.total }),
+            limit: limitNum,
+            hasMore: result.hasMore,
+            nextCursor: result.nextCursor,
+          },
+          message: "Admin reports fetched successfully",
+        });
+      }
+
+      const total = result.total ?? 0;
       res.json({
         success: true,
         data: {
           reports: result.reports,
-          total: result.total,
+          total,
           limit: limitNum,
           offset: offsetNum,
-          hasMore: offsetNum + limitNum < result.total,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
           pagination: {
             currentPage: Math.floor(offsetNum / limitNum) + 1,
-            totalPages: Math.ceil(result.total / limitNum),
+            totalPages: Math.ceil(total / limitNum),
             pageSize: limitNum,
           },
         },
@@ -70,14 +194,192 @@ router.get(
   }
 );
 
-// PUT /api/v1/admin/reports/:id - Update report status and admin notes
+// POST /api/v1/admin/reports/bulk - Apply one action to many reports in one transaction
+router.post(
+  "/reports/bulk",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const {
+        ids,
+        action,
+        status,
+        notes,
+        duplicate_of,
+        note,
+        public_message,
+        dryRun,
+      } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (
+        !Array.isArray(ids) ||
+        ids.length === 0 ||
+        ids.length > MAX_BULK_REPORTS ||
+        !ids.every((id) => typeof id === "string" && uuidRegex.test(id))
+      ) {
+        return res.status(400).json({
+          error: "Invalid ids",
+          message: `ids must be an array of 1-${MAX_BULK_REPORTS} report UUIDs`,
+        });
+      }
+      const uniqueIds: string[] = Array.from(new Set(ids));
+
+      const validActions = ["status", "append_notes", "mark_duplicate", "delete"];
+      if (!validActions.includes(action)) {
+        return res.status(400).json({
+          error: "Invalid action",
+          message: `action must be one of: ${validActions.join(", ")}`,
+        });
+      }
+
+      if (dryRun !== undefined && typeof dryRun !== "boolean") {
+        return res.status(400).json({
+          error: "Invalid dryRun",
+          message: "dryRun must be a boolean",
+        });
+      }
+
+      if (
+        note !== undefined &&
+        (typeof note !== "string" || note.length > MAX_STATUS_NOTE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid note",
+          message: `Note must be a string with maximum ${MAX_STATUS_NOTE_LENGTH} characters`,
+        });
+      }
+
+      if (
+        public_message !== undefined &&
+        (typeof public_message !== "string" ||
+          public_message.length > MAX_PUBLIC_MESSAGE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid public message",
+          message: `public_message must be a string with maximum ${MAX_PUBLIC_MESSAGE_LENGTH} characters`,
+        });
+      }
+
+      const operation: BulkReportOperation = { action };
+
+      if (action === "status") {
+        if (typeof status !== "string" || !validateReportStatus(status)) {
+          return res.status(400).json({
+            error: "Invalid status",
+            message:
+              "Status must be one of: Submitted, In Review, In Progress, Resolved, Closed",
+          });
+        }
+        operation.status = status;
+      }
+
+      if (action === "append_notes") {
+        if (!validateAdminNote(notes)) {
+          return res.status(400).json({
+            error: "Invalid notes",
+            message: `notes must be a non-empty string with maximum ${MAX_ADMIN_NOTE_LENGTH} characters`,
+          });
+        }
+        operation.notes = notes.trim();
+      }
+
+      if (action === "mark_duplicate") {
+        if (typeof duplicate_of !== "string" || !uuidRegex.test(duplicate_of)) {
+          return res.status(400).json({
+            error: "Invalid duplicate_of",
+            message: "duplicate_of must be a valid UUID",
+          });
+        }
+        if (uniqueIds.includes(duplicate_of)) {
+          return res.status(400).json({
+            error: "Invalid duplicate_of",
+            message: "A report cannot be marked as a duplicate of itself",
+          });
+        }
+        const target = await ReportModel.findById(duplicate_of);
+        if (!target) {
+          return res.status(404).json({
+            error: "Report not found",
+            message: "The duplicate_of report was not found",
+          });
+        }
+        if (req.adminBarangayId && target.barangay_id !== req.adminBarangayId) {
+          return res.status(404).json({
+            error: "Report not found",
+            message: "The duplicate_of report was not found in your barangay",
+          });
+        }
+        operation.duplicate_of = duplicate_of;
+      }
+
+      // Bulk delete needs the same role as the single DELETE route
+      if (action === "delete" && req.adminRole !== "admin") {
+        return res.status(403).json({
+          error: "Insufficient permissions",
+          message: "Admin role required for this operation",
+        });
+      }
+
+      const results = await ReportModel.bulkUpdate(
+        uniqueIds,
+        operation,
+        {
+          actor: req.clerkUserId,
+          note: note?.trim() || undefined,
+          publicMessage:
+            action === "status" ? public_message?.trim() || undefined : undefined,
+          barangayId: req.adminBarangayId,
+        },
+        dryRun === true
+      );
+      const succeeded = results.filter((r) => r.success).length;
+
+      if (!dryRun) {
+        console.log(
+          `📦 Admin action: Bulk ${action} on ${succeeded}/${results.length} reports by ${req.clerkUserId} (${req.adminRole})`
+        );
+      }
+
+      res.json({
+        success: true,
+        data: {
+          action,
+          dryRun: dryRun === true,
+          succeeded,
+          failed: results.length - succeeded,
+          results,
+        },
+        message: dryRun
+          ? "Bulk operation preview (no changes saved)"
+          : "Bulk operation completed",
+      });
+    } catch (error) {
+      console.error("Error applying bulk operation:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to apply bulk operation",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/reports/:id - Update status (with optional public message), append an internal note
 router.put(
   "/reports/:id",
   requireAdminRole("moderator"),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const { status, admin_notes, duplicate_of } = req.body;
+      const {
+        status,
+        admin_notes,
+        admin_note,
+        duplicate_of,
+        note,
+        public_message,
+      } = req.body;
 
       // Validate UUID format
       const uuidRegex =
@@ -109,16 +411,23 @@ router.put(
         updateData.status = status;
       }
 
+      // Notes are append-only now; the old overwrite field is rejected
       if (admin_notes !== undefined) {
-        if (typeof admin_notes === "string" && admin_notes.length <= 1000) {
-          updateData.admin_notes = admin_notes;
-        } else {
+        return res.status(400).json({
+          error: "Unsupported field",
+          message:
+            "admin_notes can no longer be overwritten; send admin_note to append to the notes log",
+        });
+      }
+
+      if (admin_note !== undefined) {
+        if (!validateAdminNote(admin_note)) {
           return res.status(400).json({
-            error: "Invalid admin notes",
-            message:
-              "Admin notes must be a string with maximum 1000 characters",
+            error: "Invalid admin note",
+            message: `Admin note must be between 1 and ${MAX_ADMIN_NOTE_LENGTH} characters`,
           });
         }
+        updateData.admin_note = admin_note.trim();
       }
 
       if (duplicate_of !== undefined) {
@@ -133,10 +442,52 @@ router.put(
             message: "duplicate_of must be null or a valid UUID",
           });
         }
+
+        if (duplicate_of && req.adminBarangayId) {
+          const canonical = await ReportModel.findById(duplicate_of);
+          if (canonical && canonical.barangay_id !== req.adminBarangayId) {
+            return res.status(404).json({
+              error: "Report not found",
+              message: "The duplicate_of report was not found in your barangay",
+            });
+          }
+        }
+      }
+
+      if (
+        note !== undefined &&
+        (typeof note !== "string" || note.length > MAX_STATUS_NOTE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid note",
+          message: `Note must be a string with maximum ${MAX_STATUS_NOTE_LENGTH} characters`,
+        });
+      }
+
+      if (public_message !== undefined) {
+        if (
+          typeof public_message !== "string" ||
+          public_message.length > MAX_PUBLIC_MESSAGE_LENGTH
+        ) {
+          return res.status(400).json({
+            error: "Invalid public message",
+            message: `public_message must be a string with maximum ${MAX_PUBLIC_MESSAGE_LENGTH} characters`,
+          });
+        }
+        if (public_message.trim() && !status) {
+          return res.status(400).json({
+            error: "Invalid public message",
+            message: "public_message is published with a status change",
+          });
+        }
       }
 
-      // Update report
-      const updatedReport = await ReportModel.update(id, updateData);
+      // Update report (status changes are recorded in the history table)
+      const updatedReport = await ReportModel.update(id, updateData, {
+        actor: req.clerkUserId,
+        note: note?.trim() || undefined,
+        publicMessage: public_message?.trim() || undefined,
+      });
 
       if (!updatedReport) {
         return res.status(404).json({
@@ -157,6 +508,12 @@ router.put(
         message: "Report updated successfully",
       });
     } catch (error) {
+      if (error instanceof StatusTransitionError) {
+        return sendStatusTransitionError(res, error);
+      }
+      if (error instanceof DuplicateLinkError) {
+        return sendDuplicateLinkError(res, error);
+      }
       console.error("Error updating report:", error);
       res.status(500).json({
         error: "Internal server error",
@@ -173,7 +530,7 @@ router.patch(
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, note, public_message } = req.body;
 
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
       if (!uuidRegex.test(id)) {
@@ -197,7 +554,36 @@ router.patch(
         });
       }
 
-      const updated = await ReportModel.update(id, { status });
+      if (
+        note !== undefined &&
+        (typeof note !== "string" || note.length > MAX_STATUS_NOTE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid note",
+          message: `Note must be a string with maximum ${MAX_STATUS_NOTE_LENGTH} characters`,
+        });
+      }
+
+      if (
+        public_message !== undefined &&
+        (typeof public_message !== "string" ||
+          public_message.length > MAX_PUBLIC_MESSAGE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid public message",
+          message: `public_message must be a string with maximum ${MAX_PUBLIC_MESSAGE_LENGTH} characters`,
+        });
+      }
+
+      const updated = await ReportModel.update(
+        id,
+        { status },
+        {
+          actor: req.clerkUserId,
+          note: note?.trim() || undefined,
+          publicMessage: public_message?.trim() || undefined,
+        }
+      );
       if (!updated) {
         return res.status(404).json({
           error: "Report not found",
@@ -211,6 +597,9 @@ router.patch(
 
       res.json({ success: true, data: updated, message: "Status updated" });
     } catch (error) {
+      if (error instanceof StatusTransitionError) {
+        return sendStatusTransitionError(res, error);
+      }
       console.error("Error updating report status:", error);
       res.status(500).json({
         error: "Internal server error",
@@ -220,15 +609,14 @@ router.patch(
   }
 );
 
-// DELETE /api/v1/admin/reports/:id - Delete report (admin only)
-router.delete(
-  "/reports/:id",
-  requireAdminRole("admin"),
+// GET /api/v1/admin/reports/:id/notes - Internal notes log (oldest first)
+router.get(
+  "/reports/:id/notes",
+  requireAdminRole("moderator"),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
-      // Validate UUID format
       const uuidRegex =
         /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
       if (!uuidRegex.test(id)) {
@@ -238,131 +626,1366 @@ router.delete(
         });
       }
 
-      const deleted = await ReportModel.delete(id);
+      const notes = await AdminNoteModel.findByReport(id);
+      res.json({
+        success: true,
+        data: notes,
+        message: "Admin notes fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching admin notes:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch admin notes",
+      });
+    }
+  }
+);
 
-      if (!deleted) {
+// POST /api/v1/admin/reports/:id/notes - Append an internal note
+router.post(
+  "/reports/:id/notes",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { body } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+      if (!validateAdminNote(body)) {
+        return res.status(400).json({
+          error: "Invalid admin note",
+          message: `Admin note must be between 1 and ${MAX_ADMIN_NOTE_LENGTH} characters`,
+        });
+      }
+
+      const updated = await ReportModel.update(
+        id,
+        { admin_note: body.trim() },
+        { actor: req.clerkUserId }
+      );
+      if (!updated) {
         return res.status(404).json({
           error: "Report not found",
           message: "Report with the specified ID was not found",
         });
       }
 
-      // Log admin action
       console.log(
-        `🗑️ Admin action: Report ${id} deleted by ${req.clerkUserId} (${req.adminRole})`
+        `📝 Admin action: Note added to report ${id} by ${req.clerkUserId}`
       );
 
-      res.json({
+      const notes = await AdminNoteModel.findByReport(id);
+      res.status(201).json({
         success: true,
-        message: "Report deleted successfully",
+        data: notes,
+        message: "Admin note added",
       });
     } catch (error) {
-      console.error("Error deleting report:", error);
+      console.error("Error adding admin note:", error);
       res.status(500).json({
         error: "Internal server error",
-        message: "Failed to delete report",
+        message: "Failed to add admin note",
       });
     }
   }
 );
 
-// GET /api/v1/admin/stats - Get dashboard statistics
+// GET /api/v1/admin/reports/:id/history - Status history including who made each change
 router.get(
-  "/stats",
+  "/reports/:id/history",
   requireAdminRole("moderator"),
   async (req: Request, res: Response) => {
     try {
-      // This would typically involve complex queries to get statistics
-      // For now, return basic stats structure
-      const stats = {
-        totalReports: 0,
-        statusBreakdown: {
-          submitted: 0,
-          "in-review": 0,
-          "in-progress": 0,
-          resolved: 0,
-          closed: 0,
-        },
-        categoryBreakdown: {
-          infrastructure: 0,
-          sanitation: 0,
-          safety: 0,
-          water: 0,
-          electrical: 0,
-        },
-        recentActivity: {
-          last24Hours: 0,
-          last7Days: 0,
-          last30Days: 0,
-        },
-      };
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+
+      const report = await ReportModel.findById(id);
+      if (!report) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
 
-      // In a real implementation, these would be database queries
-      // For now, return the structure for frontend development
+      const history = await ReportHistoryModel.findByReport(id, true);
 
       res.json({
         success: true,
-        data: stats,
-        message: "Admin statistics retrieved",
+        data: history,
+        message: "Report history fetched successfully",
       });
     } catch (error) {
-      console.error("Error fetching admin stats:", error);
+      console.error("Error fetching report history:", error);
       res.status(500).json({
         error: "Internal server error",
-        message: "Failed to fetch admin statistics",
+        message: "Failed to fetch report history",
       });
     }
   }
 );
 
-// POST /api/v1/admin/users - Create admin user (admin only)
-router.post(
-  "/users",
-  requireAdminRole("admin"),
+// GET /api/v1/admin/reports/:id/duplicates - Scored duplicate candidates for a report
+router.get(
+  "/reports/:id/duplicates",
+  requireAdminRole("moderator"),
   async (req: Request, res: Response) => {
     try {
-      const { clerk_user_id, email, role = "moderator" } = req.body;
-
-      if (!clerk_user_id || !email) {
-        return res.status(400).json({
-          error: "Missing required fields",
-          message: "clerk_user_id and email are required",
-        });
-      }
+      const { id } = req.params;
 
-      if (!["moderator", "admin"].includes(role)) {
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
         return res.status(400).json({
-          error: "Invalid role",
-          message: "Role must be 'moderator' or 'admin'",
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
         });
       }
 
-      // Use helper function from middleware
-      const { createAdminUser } = require("../middleware/adminAuth");
-      const success = await createAdminUser(clerk_user_id, email, role);
-
-      if (!success) {
-        return res.status(500).json({
-          error: "Failed to create admin user",
-          message: "Database error occurred",
+      const report = await ReportModel.findById(id);
+      if (!report) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
         });
       }
 
-      // Log admin action
-      console.log(
-        `👤 Admin action: Admin user ${email} (${role}) created by ${req.clerkUserId}`
-      );
+      const duplicates = await findPotentialDuplicates({
+        location: report.location,
+        category: report.category,
+        description: report.description,
+        excludeId: report.id,
+      });
 
-      res.status(201).json({
+      res.json({
         success: true,
-        data: { clerk_user_id, email, role },
-        message: "Admin user created successfully",
+        data: duplicates,
+        message: "Duplicate candidates fetched successfully",
       });
     } catch (error) {
-      console.error("Error creating admin user:", error);
+      console.error("Error fetching duplicate candidates:", error);
       res.status(500).json({
         error: "Internal server error",
-        message: "Failed to create admin user",
+        message: "Failed to fetch duplicate candidates",
+      });
+    }
+  }
+);
+
+// POST /api/v1/admin/reports/:id/merge - Merge a duplicate into its canonical report
+router.post(
+  "/reports/:id/merge",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { canonical_id, reason } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+      if (typeof canonical_id !== "string" || !uuidRegex.test(canonical_id)) {
+        return res.status(400).json({
+          error: "Invalid canonical_id",
+          message: "canonical_id must be a valid UUID",
+        });
+      }
+      if (
+        typeof reason !== "string" ||
+        !reason.trim() ||
+        reason.length > MAX_STATUS_NOTE_LENGTH
+      ) {
+        return res.status(400).json({
+          error: "Invalid reason",
+          message: `A reason of at most ${MAX_STATUS_NOTE_LENGTH} characters is required`,
+        });
+      }
+
+      if (req.adminBarangayId) {
+        const canonical = await ReportModel.findById(canonical_id);
+        if (canonical && canonical.barangay_id !== req.adminBarangayId) {
+          return res.status(404).json({
+            error: "Report not found",
+            message: "The canonical report was not found in your barangay",
+          });
+        }
+      }
+
+      const result = await ReportModel.merge(id, canonical_id, reason.trim(), {
+        actor: req.clerkUserId,
+      });
+      if (!result) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `🔗 Admin action: Report ${id} merged into ${canonical_id} by ${req.clerkUserId}`
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: "Report merged successfully",
+      });
+    } catch (error) {
+      if (error instanceof DuplicateLinkError) {
+        return sendDuplicateLinkError(res, error);
+      }
+      if (error instanceof StatusTransitionError) {
+        return sendStatusTransitionError(res, error);
+      }
+      console.error("Error merging report:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to merge report",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/reports/:id/assign - Change assignee and/or department
+router.put(
+  "/reports/:id/assign",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { assigned_to, department, note } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+
+      if (assigned_to === undefined && department === undefined) {
+        return res.status(400).json({
+          error: "Nothing to assign",
+          message: "Provide assigned_to and/or department",
+        });
+      }
+
+      // "me" assigns to the requesting admin; null unassigns
+      let assignee: string | null | undefined = assigned_to;
+      if (assigned_to === "me") {
+        assignee = req.clerkUserId;
+      } else if (assigned_to !== undefined && assigned_to !== null) {
+        if (typeof assigned_to !== "string" || assigned_to.length > 255) {
+          return res.status(400).json({
+            error: "Invalid assigned_to",
+            message: "assigned_to must be 'me', null or an admin user id",
+          });
+        }
+      }
+      if (assignee && !(await AssignmentModel.isAssignable(assignee))) {
+        return res.status(400).json({
+          error: "Invalid assigned_to",
+          message: "Assignee must be an existing admin user",
+        });
+      }
+
+      if (
+        department !== undefined &&
+        department !== null &&
+        (typeof department !== "string" || !validateDepartment(department))
+      ) {
+        return res.status(400).json({
+          error: "Invalid department",
+          message: `department must be null or one of: ${Object.keys(DEPARTMENTS).join(", ")}`,
+        });
+      }
+
+      if (
+        note !== undefined &&
+        (typeof note !== "string" || note.length > MAX_STATUS_NOTE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid note",
+          message: `Note must be a string with maximum ${MAX_STATUS_NOTE_LENGTH} characters`,
+        });
+      }
+
+      const updated = await ReportModel.assign(
+        id,
+        { assigned_to: assignee, department },
+        { actor: req.clerkUserId, note: note?.trim() || undefined }
+      );
+      if (!updated) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `👤 Admin action: Report ${id} assigned to ${updated.assigned_to ?? "nobody"} (${updated.department ?? "no department"}) by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, data: updated, message: "Assignment updated" });
+    } catch (error) {
+      console.error("Error assigning report:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to assign report",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/reports/:id/assign - Assignment audit trail
+router.get(
+  "/reports/:id/assign",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+
+      const report = await ReportModel.findById(id);
+      if (!report) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
+
+      const history = await AssignmentModel.findByReport(id);
+
+      res.json({
+        success: true,
+        data: {
+          assigned_to: report.assigned_to ?? null,
+          assigned_to_email: report.assigned_to_email ?? null,
+          department: report.department ?? null,
+          history,
+        },
+        message: "Assignment history fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching assignment history:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch assignment history",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/routing-rules - Default department/assignee per category
+router.get(
+  "/routing-rules",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const rules = await AssignmentModel.getRoutingRules();
+      res.json({
+        success: true,
+        data: { rules, departments: DEPARTMENTS },
+        message: "Routing rules fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching routing rules:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch routing rules",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/routing-rules/:category - Set routing for a category (admin only)
+router.put(
+  "/routing-rules/:category",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { category } = req.params;
+      const { department, default_assignee = null } = req.body || {};
+
+      if (!validateReportCategory(category)) {
+        return res.status(400).json({
+          error: "Invalid category",
+          message:
+            "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
+        });
+      }
+      if (typeof department !== "string" || !validateDepartment(department)) {
+        return res.status(400).json({
+          error: "Invalid department",
+          message: `department must be one of: ${Object.keys(DEPARTMENTS).join(", ")}`,
+        });
+      }
+      if (
+        default_assignee !== null &&
+        (typeof default_assignee !== "string" ||
+          !(await AssignmentModel.isAssignable(default_assignee)))
+      ) {
+        return res.status(400).json({
+          error: "Invalid default_assignee",
+          message: "default_assignee must be null or an existing admin user",
+        });
+      }
+
+      const rule = await AssignmentModel.upsertRoutingRule(
+        category,
+        department,
+        default_assignee
+      );
+
+      console.log(
+        `🧭 Admin action: Routing for ${category} set to ${department} by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, data: rule, message: "Routing rule updated" });
+    } catch (error) {
+      console.error("Error updating routing rule:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update routing rule",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/duplicate-rules - Duplicate search radius/window per category
+router.get(
+  "/duplicate-rules",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const rules = await getDuplicateRules();
+      res.json({
+        success: true,
+        data: { rules, defaults: DEFAULT_DUPLICATE_RULE },
+        message: "Duplicate rules fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching duplicate rules:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch duplicate rules",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/duplicate-rules/:category - Set radius/window for a category (admin only)
+router.put(
+  "/duplicate-rules/:category",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { category } = req.params;
+      const { radius_meters, window_hours } = req.body || {};
+
+      if (!validateReportCategory(category)) {
+        return res.status(400).json({
+          error: "Invalid category",
+          message:
+            "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
+        });
+      }
+      if (
+        !Number.isInteger(radius_meters) ||
+        radius_meters < 10 ||
+        radius_meters > 2000
+      ) {
+        return res.status(400).json({
+          error: "Invalid radius_meters",
+          message: "radius_meters must be an integer between 10 and 2000",
+        });
+      }
+      if (
+        !Number.isInteger(window_hours) ||
+        window_hours < 1 ||
+        window_hours > 720
+      ) {
+        return res.status(400).json({
+          error: "Invalid window_hours",
+          message: "window_hours must be an integer between 1 and 720",
+        });
+      }
+
+      const rule = await upsertDuplicateRule(
+        category,
+        radius_meters,
+        window_hours
+      );
+
+      console.log(
+        `🧭 Admin action: Duplicate rule for ${category} set to ${radius_meters}m / ${window_hours}h by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, data: rule, message: "Duplicate rule updated" });
+    } catch (error) {
+      console.error("Error updating duplicate rule:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update duplicate rule",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/service-areas - Service area registry with boundaries
+router.get(
+  "/service-areas",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const areas = await ServiceAreaModel.findAll(true);
+      res.json({
+        success: true,
+        data: areas,
+        message: "Service areas fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching service areas:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch service areas",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/service-areas/:name - Create or update a service area (admin only)
+router.put(
+  "/service-areas/:name",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { name } = req.params;
+      const {
+        strictness,
+        priority = 0,
+        message = null,
+        boundary,
+        from_barangays,
+      } = req.body || {};
+
+      if (!name.trim() || name.length > 100) {
+        return res.status(400).json({
+          error: "Invalid name",
+          message: "Service area name must be 1-100 characters",
+        });
+      }
+      if (!validateServiceAreaStrictness(strictness)) {
+        return res.status(400).json({
+          error: "Invalid strictness",
+          message: "strictness must be one of: allow, warn, reject",
+        });
+      }
+      if (!Number.isInteger(priority) || priority < -1000 || priority > 1000) {
+        return res.status(400).json({
+          error: "Invalid priority",
+          message: "priority must be an integer between -1000 and 1000",
+        });
+      }
+      if (
+        message !== null &&
+        (typeof message !== "string" ||
+          message.length > MAX_SERVICE_AREA_MESSAGE_LENGTH)
+      ) {
+        return res.status(400).json({
+          error: "Invalid message",
+          message: `message must be null or a string with maximum ${MAX_SERVICE_AREA_MESSAGE_LENGTH} characters`,
+        });
+      }
+      if (from_barangays !== undefined && typeof from_barangays !== "boolean") {
+        return res.status(400).json({
+          error: "Invalid from_barangays",
+          message: "from_barangays must be a boolean",
+        });
+      }
+      if (
+        boundary !== undefined &&
+        (typeof boundary !== "object" ||
+          boundary === null ||
+          (boundary.type !== "Polygon" && boundary.type !== "MultiPolygon") ||
+          !Array.isArray(boundary.coordinates))
+      ) {
+        return res.status(400).json({
+          error: "Invalid boundary",
+          message: "boundary must be a GeoJSON Polygon or MultiPolygon geometry",
+        });
+      }
+      if (boundary !== undefined && from_barangays) {
+        return res.status(400).json({
+          error: "Invalid boundary",
+          message: "Send either boundary or from_barangays, not both",
+        });
+      }
+
+      const area = await ServiceAreaModel.upsert(name.trim(), {
+        strictness,
+        priority,
+        message: message?.trim() || null,
+        boundary,
+        fromBarangays: from_barangays === true,
+      });
+
+      console.log(
+        `🗺️ Admin action: Service area ${area.name} (${area.strictness}) set by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, data: area, message: "Service area updated" });
+    } catch (error: any) {
+      if (error instanceof ServiceAreaBoundaryError) {
+        return res.status(400).json({
+          error: "Invalid boundary",
+          message: error.message,
+        });
+      }
+      // PostGIS could not parse the GeoJSON coordinates
+      if (error?.code === "XX000") {
+        return res.status(400).json({
+          error: "Invalid boundary",
+          message: "boundary could not be parsed as GeoJSON",
+        });
+      }
+      console.error("Error updating service area:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update service area",
+      });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/service-areas/:name - Remove a service area (admin only)
+router.delete(
+  "/service-areas/:name",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { name } = req.params;
+
+      const deleted = await ServiceAreaModel.delete(name);
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Service area not found",
+          message: `Service area '${name}' does not exist`,
+        });
+      }
+
+      console.log(
+        `🗑️ Admin action: Service area ${name} deleted by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, message: "Service area deleted" });
+    } catch (error) {
+      console.error("Error deleting service area:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete service area",
+      });
+    }
+  }
+);
+
+// POST /api/v1/admin/landmarks - Add a landmark to the gazetteer
+router.post(
+  "/landmarks",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const validation = validateLandmarkInput(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: validation.error,
+          message: validation.message,
+        });
+      }
+
+      const input = validation.input!;
+      // Barangay officials add landmarks to their own barangay
+      if (req.adminBarangayId) input.barangay_id = req.adminBarangayId;
+
+      const landmark = await LandmarkModel.create(input, req.clerkUserId);
+
+      console.log(
+        `📍 Admin action: Landmark ${landmark.id} (${landmark.name}) added by ${req.clerkUserId}`
+      );
+
+      res.status(201).json({
+        success: true,
+        data: landmark,
+        message: "Landmark created",
+      });
+    } catch (error: any) {
+      if (error?.code === "23503") {
+        return res.status(400).json({
+          error: "Invalid barangay_id",
+          message: "Barangay not found",
+        });
+      }
+      console.error("Error creating landmark:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to create landmark",
+      });
+    }
+  }
+);
+
+// PUT /api/v1/admin/landmarks/:id - Replace a landmark
+router.put(
+  "/landmarks/:id",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Landmark ID must be a valid UUID",
+        });
+      }
+
+      const validation = validateLandmarkInput(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: validation.error,
+          message: validation.message,
+        });
+      }
+
+      const input = validation.input!;
+      if (req.adminBarangayId) input.barangay_id = req.adminBarangayId;
+
+      const landmark = await LandmarkModel.update(id, input);
+      if (!landmark) {
+        return res.status(404).json({
+          error: "Landmark not found",
+          message: "Landmark with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `📍 Admin action: Landmark ${id} (${landmark.name}) updated by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, data: landmark, message: "Landmark updated" });
+    } catch (error: any) {
+      if (error?.code === "23503") {
+        return res.status(400).json({
+          error: "Invalid barangay_id",
+          message: "Barangay not found",
+        });
+      }
+      console.error("Error updating landmark:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update landmark",
+      });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/landmarks/:id - Remove a landmark (admin only)
+router.delete(
+  "/landmarks/:id",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Landmark ID must be a valid UUID",
+        });
+      }
+
+      const deleted = await LandmarkModel.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Landmark not found",
+          message: "Landmark with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `🗑️ Admin action: Landmark ${id} deleted by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, message: "Landmark deleted" });
+    } catch (error) {
+      console.error("Error deleting landmark:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete landmark",
+      });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/reports/:id - Delete report (admin only)
+router.delete(
+  "/reports/:id",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      // Validate UUID format
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+
+      const deleted = await ReportModel.delete(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
+
+      // Log admin action
+      console.log(
+        `🗑️ Admin action: Report ${id} deleted by ${req.clerkUserId} (${req.adminRole})`
+      );
+
+      res.json({
+        success: true,
+        message: "Report deleted successfully",
+      });
+    } catch (error: any) {
+      if (error?.code === "23503") {
+        // Canonical report of a merge: its duplicates still point at it
+        return res.status(409).json({
+          error: "Report is referenced",
+          message: "Report is referenced by other reports as their duplicate",
+        });
+      }
+      console.error("Error deleting report:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete report",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/stats - Get dashboard statistics
+router.get(
+  "/stats",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { category, from, to, barangay } = req.query;
+      const filter: ReportStatsFilter = {};
+
+      if (category && typeof category === "string") {
+        if (!validateReportCategory(category)) {
+          return res.status(400).json({
+            error: "Invalid category",
+            message:
+              "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
+          });
+        }
+        filter.category = category;
+      }
+
+      // Optional created_at range (ISO 8601 dates)
+      const createdFrom = ReportQueryValidator.parseDate(from);
+      const createdTo = ReportQueryValidator.parseDate(to);
+      if (createdFrom === null || createdTo === null) {
+        return res.status(400).json({
+          error: "Invalid date",
+          message: "'from' and 'to' must be valid ISO 8601 dates",
+        });
+      }
+      filter.created_from = createdFrom;
+      filter.created_to = createdTo;
+
+      if (barangay !== undefined && barangay !== "") {
+        const uuidRegex =
+          /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+        if (typeof barangay !== "string" || !uuidRegex.test(barangay)) {
+          return res.status(400).json({
+            error: "Invalid barangay",
+            message: "barangay must be a barangay ID",
+          });
+        }
+        filter.barangay_id = barangay;
+      }
+      if (req.adminBarangayId) filter.barangay_id = req.adminBarangayId;
+
+      if (
+        filter.created_from &&
+        filter.created_to &&
+        filter.created_from > filter.created_to
+      ) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          message: "'from' must be before 'to'",
+        });
+      }
+
+      const stats = await ReportModel.getStats(filter);
+
+      res.json({
+        success: true,
+        data: stats,
+        message: "Admin statistics retrieved",
+      });
+    } catch (error) {
+      console.error("Error fetching admin stats:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch admin statistics",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/reports/:id/comments - All comments incl. held and hidden ones
+router.get(
+  "/reports/:id/comments",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+
+      const comments = await ReportCommentModel.findForAdmin(id);
+      res.json({
+        success: true,
+        data: comments,
+        message: "Report comments fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching admin report comments:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch report comments",
+      });
+    }
+  }
+);
+
+// POST /api/v1/admin/reports/:id/comments - Official reply (published immediately)
+router.post(
+  "/reports/:id/comments",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { body } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Report ID must be a valid UUID",
+        });
+      }
+      if (!validateCommentBody(body)) {
+        return res.status(400).json({
+          error: "Invalid comment",
+          message: `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`,
+        });
+      }
+
+      const comment = await ReportCommentModel.addOfficial(
+        id,
+        body,
+        req.clerkUserId!
+      );
+      if (!comment) {
+        return res.status(404).json({
+          error: "Report not found",
+          message: "Report with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `💬 Admin action: Official reply on report ${id} by ${req.clerkUserId}`
+      );
+
+      res.status(201).json({
+        success: true,
+        data: comment,
+        message: "Official reply posted",
+      });
+    } catch (error) {
+      console.error("Error posting official reply:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to post reply",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/comments?status=pending - Moderation queue
+router.get(
+  "/comments",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { status = "pending", limit = "50" } = req.query;
+
+      if (
+        status !== "pending" &&
+        status !== "visible" &&
+        status !== "hidden"
+      ) {
+        return res.status(400).json({
+          error: "Invalid status",
+          message: "status must be one of: pending, visible, hidden",
+        });
+      }
+      const limitNum = Math.min(parseInt(limit as string, 10) || 50, 200);
+
+      const comments = await ReportCommentModel.findByStatus(
+        status,
+        limitNum,
+        req.adminBarangayId
+      );
+      res.json({
+        success: true,
+        data: comments,
+        message: "Comments fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch comments",
+      });
+    }
+  }
+);
+
+// PATCH /api/v1/admin/comments/:id - Publish (visible) or hide a comment
+router.patch(
+  "/comments/:id",
+  requireAdminRole("moderator"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { status } = req.body || {};
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Comment ID must be a valid UUID",
+        });
+      }
+      if (!validateModerationStatus(status)) {
+        return res.status(400).json({
+          error: "Invalid status",
+          message: "status must be 'visible' or 'hidden'",
+        });
+      }
+
+      const comment = await ReportCommentModel.setStatus(
+        id,
+        status,
+        req.clerkUserId!
+      );
+      if (!comment) {
+        return res.status(404).json({
+          error: "Comment not found",
+          message: "Comment with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `💬 Admin action: Comment ${id} set to ${status} by ${req.clerkUserId}`
+      );
+
+      res.json({
+        success: true,
+        data: comment,
+        message: status === "visible" ? "Comment published" : "Comment hidden",
+      });
+    } catch (error) {
+      console.error("Error moderating comment:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update comment",
+      });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/comments/:id - Remove a comment permanently (admin only)
+router.delete(
+  "/comments/:id",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(id)) {
+        return res.status(400).json({
+          error: "Invalid ID",
+          message: "Comment ID must be a valid UUID",
+        });
+      }
+
+      const deleted = await ReportCommentModel.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Comment not found",
+          message: "Comment with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `🗑️ Admin action: Comment ${id} deleted by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, message: "Comment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete comment",
+      });
+    }
+  }
+);
+
+// GET /api/v1/admin/users - List admin users with last login (admin only)
+router.get(
+  "/users",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const users = await AdminUserModel.findAll();
+      res.json({
+        success: true,
+        data: users,
+        message: "Admin users fetched successfully",
+      });
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch admin users",
+      });
+    }
+  }
+);
+
+// POST /api/v1/admin/users - Create (or update) admin user (admin only)
+router.post(
+  "/users",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { clerk_user_id, email, role = "moderator" } = req.body;
+
+      if (!clerk_user_id || !email) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          message: "clerk_user_id and email are required",
+        });
+      }
+
+      if (!validateAdminRole(role)) {
+        return res.status(400).json({
+          error: "Invalid role",
+          message: "Role must be 'moderator' or 'admin'",
+        });
+      }
+
+      const user = await AdminUserModel.upsert(clerk_user_id, email, role);
+
+      // Log admin action
+      console.log(
+        `👤 Admin action: Admin user ${email} (${role}) created by ${req.clerkUserId}`
+      );
+
+      res.status(201).json({
+        success: true,
+        data: user,
+        message: "Admin user created successfully",
+      });
+    } catch (error: any) {
+      if (error instanceof LastAdminError) {
+        return sendLastAdminError(res, error);
+      }
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: "Email already in use",
+          message: "Another admin user already has this email",
+        });
+      }
+      console.error("Error creating admin user:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to create admin user",
+      });
+    }
+  }
+);
+
+// PATCH /api/v1/admin/users/:id - Change role, disable/enable, set barangay (admin only)
+router.patch(
+  "/users/:id",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { role, disabled, barangay_id } = req.body || {};
+
+      if (role !== undefined && !validateAdminRole(role)) {
+        return res.status(400).json({
+          error: "Invalid role",
+          message: "Role must be 'moderator' or 'admin'",
+        });
+      }
+      if (disabled !== undefined && typeof disabled !== "boolean") {
+        return res.status(400).json({
+          error: "Invalid disabled",
+          message: "disabled must be a boolean",
+        });
+      }
+      const uuidRegex =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (
+        barangay_id !== undefined &&
+        barangay_id !== null &&
+        (typeof barangay_id !== "string" || !uuidRegex.test(barangay_id))
+      ) {
+        return res.status(400).json({
+          error: "Invalid barangay_id",
+          message: "barangay_id must be a barangay ID or null",
+        });
+      }
+      if (role === undefined && disabled === undefined && barangay_id === undefined) {
+        return res.status(400).json({
+          error: "Nothing to update",
+          message: "Provide role, disabled and/or barangay_id",
+        });
+      }
+
+      const user = await AdminUserModel.update(id, { role, disabled, barangay_id });
+      if (!user) {
+        return res.status(404).json({
+          error: "Admin user not found",
+          message: "Admin user with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `👤 Admin action: Admin user ${user.email} updated by ${req.clerkUserId}:`,
+        { role, disabled, barangay_id }
+      );
+
+      res.json({ success: true, data: user, message: "Admin user updated" });
+    } catch (error: any) {
+      if (error instanceof LastAdminError) {
+        return sendLastAdminError(res, error);
+      }
+      if (error?.code === "23503") {
+        return res.status(400).json({
+          error: "Invalid barangay_id",
+          message: "Barangay not found",
+        });
+      }
+      console.error("Error updating admin user:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update admin user",
+      });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/users/:id - Remove admin user (admin only)
+router.delete(
+  "/users/:id",
+  requireAdminRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const deleted = await AdminUserModel.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Admin user not found",
+          message: "Admin user with the specified ID was not found",
+        });
+      }
+
+      console.log(
+        `🗑️ Admin action: Admin user ${id} deleted by ${req.clerkUserId}`
+      );
+
+      res.json({ success: true, message: "Admin user deleted successfully" });
+    } catch (error) {
+      if (error instanceof LastAdminError) {
+        return sendLastAdminError(res, error);
+      }
+      console.error("Error deleting admin user:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete admin user",
       });
     }
   }
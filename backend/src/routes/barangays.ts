@@ -0,0 +1,76 @@
+import { Router, Request, Response } from "express";
+import { generalRateLimit } from "../middleware/rateLimiter";
+import { BarangayModel } from "../models/Barangay";
+import { ReportQueryValidator } from "../models/ReportQuery";
+
+const router = Router();
+
+// Apply general rate limiting to all barangay routes
+router.use(generalRateLimit);
+
+// GET /api/v1/barangays - List barangays (boundary=true adds simplified GeoJSON boundaries)
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const includeBoundary = ReportQueryValidator.parseBoolean(req.query.boundary);
+    if (includeBoundary === null) {
+      return res.status(400).json({
+        error: "Invalid boundary",
+        message: "boundary must be 'true' or 'false'",
+      });
+    }
+
+    const barangays = await BarangayModel.findAll(includeBoundary === true);
+    res.json({
+      success: true,
+      data: {
+        barangays,
+        total: barangays.length,
+      },
+      message: "Barangays fetched successfully",
+    });
+  } catch (error) {
+    console.error("Error fetching barangays:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch barangays",
+    });
+  }
+});
+
+// GET /api/v1/barangays/:id - Single barangay with its boundary
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(400).json({
+        error: "Invalid ID",
+        message: "Barangay ID must be a valid UUID",
+      });
+    }
+
+    const barangay = await BarangayModel.findById(id, true);
+    if (!barangay) {
+      return res.status(404).json({
+        error: "Barangay not found",
+        message: "Barangay with the specified ID was not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: barangay,
+      message: "Barangay fetched successfully",
+    });
+  } catch (error) {
+    console.error("Error fetching barangay:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch barangay",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router, Request, Response } from "express";
+import { generalRateLimit } from "../middleware/rateLimiter";
+import {
+  LandmarkModel,
+  MAX_LANDMARK_SEARCH_LENGTH,
+} from "../models/Landmark";
+
+const router = Router();
+
+// Apply general rate limiting to all landmark routes
+router.use(generalRateLimit);
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Optional ?barangay=<uuid>: undefined when absent, null when invalid
+function parseBarangay(value: unknown): string | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  return typeof value === "string" && uuidRegex.test(value) ? value : null;
+}
+
+// GET /api/v1/landmarks - Full landmark list (optional barangay); cached offline by the PWA
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const barangayId = parseBarangay(req.query.barangay);
+    if (barangayId === null) {
+      return res.status(400).json({
+        error: "Invalid barangay",
+        message: "barangay must be a valid UUID",
+      });
+    }
+
+    const landmarks = await LandmarkModel.findAll(barangayId);
+    res.json({
+      success: true,
+      data: {
+        landmarks,
+        total: landmarks.length,
+      },
+      message: "Landmarks fetched successfully",
+    });
+  } catch (error) {
+    console.error("Error fetching landmarks:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch landmarks",
+    });
+  }
+});
+
+// GET /api/v1/landmarks/search - Fuzzy search by name, alias, purok or barangay (q, limit, barangay)
+router.get("/search", async (req: Request, res: Response) => {
+  try {
+    const { q, limit = "10" } = req.query;
+
+    if (
+      typeof q !== "string" ||
+      !q.trim() ||
+      q.length > MAX_LANDMARK_SEARCH_LENGTH
+    ) {
+      return res.status(400).json({
+        error: "Invalid query",
+        message: `q is required (maximum ${MAX_LANDMARK_SEARCH_LENGTH} characters)`,
+      });
+    }
+
+    const limitNum = parseInt(limit as string, 10);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 25) {
+      return res.status(400).json({
+        error: "Invalid limit",
+        message: "Limit must be between 1 and 25",
+      });
+    }
+
+    const barangayId = parseBarangay(req.query.barangay);
+    if (barangayId === null) {
+      return res.status(400).json({
+        error: "Invalid barangay",
+        message: "barangay must be a valid UUID",
+      });
+    }
+
+    const landmarks = await LandmarkModel.search(q, limitNum, barangayId);
+    res.json({
+      success: true,
+      data: {
+        landmarks,
+        total: landmarks.length,
+      },
+      message: "Landmark search completed",
+    });
+  } catch (error) {
+    console.error("Error searching landmarks:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to search landmarks",
+    });
+  }
+});
+
+export default router;
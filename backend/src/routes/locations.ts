@@ -1,5 +1,11 @@
 import { Router, Request, Response } from "express";
 import { generalRateLimit } from "../middleware/rateLimiter";
+import { LocationValidator, AddressGeocoder } from "../models/Location";
+import {
+  ServiceAreaModel,
+  ServiceAreaStrictness,
+  OUTSIDE_SERVICE_AREA_MESSAGE,
+} from "../models/ServiceArea";
 
 const router = Router();
 
@@ -16,6 +22,9 @@ interface LocationValidationRequest {
 interface LocationValidationResponse {
   isValid: boolean;
   withinServiceArea: boolean;
+  // Registered area deciding the policy (null outside every area)
+  serviceArea: string | null;
+  strictness: ServiceAreaStrictness;
   suggestedAddress?: string;
   warnings?: string[];
   metadata: {
@@ -28,81 +37,6 @@ interface LocationValidationResponse {
   };
 }
 
-// Service area bounds - approximate bounds for Philippines/Surigao City
-// These can be adjusted based on actual service coverage
-const SERVICE_AREA_BOUNDS = {
-  // Philippines approximate bounds
-  north: 21.0,
-  south: 5.0,
-  east: 126.0,
-  west: 117.0,
-
-  // Surigao City more specific bounds (can be used for stricter validation)
-  surigaoCity: {
-    north: 9.8,
-    south: 9.3,
-    east: 125.5,
-    west: 125.0,
-  },
-};
-
-// Helper function to validate coordinate format
-function isValidCoordinate(lat: number, lng: number): boolean {
-  return (
-    typeof lat === "number" &&
-    typeof lng === "number" &&
-    !isNaN(lat) &&
-    !isNaN(lng) &&
-    lat >= -90 &&
-    lat <= 90 &&
-    lng >= -180 &&
-    lng <= 180
-  );
-}
-
-// Helper function to check if coordinates are within service area
-function isWithinServiceArea(lat: number, lng: number): boolean {
-  // Check if within Philippines bounds
-  const withinPhilippines =
-    lat >= SERVICE_AREA_BOUNDS.south &&
-    lat <= SERVICE_AREA_BOUNDS.north &&
-    lng >= SERVICE_AREA_BOUNDS.west &&
-    lng <= SERVICE_AREA_BOUNDS.east;
-
-  return withinPhilippines;
-}
-
-// Helper function to check if coordinates are within Surigao City (more specific)
-function isWithinsurigaoCity(lat: number, lng: number): boolean {
-  const bounds = SERVICE_AREA_BOUNDS.surigaoCity;
-  return (
-    lat >= bounds.south &&
-    lat <= bounds.north &&
-    lng >= bounds.west &&
-    lng <= bounds.east
-  );
-}
-
-// Helper function to calculate distance between two points (simplified)
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 // POST /api/v1/locations/validate - Validate location coordinates
 router.post("/validate", async (req: Request, res: Response) => {
   try {
@@ -118,7 +52,7 @@ router.post("/validate", async (req: Request, res: Response) => {
     }
 
     // Validate coordinate format
-    if (!isValidCoordinate(latitude, longitude)) {
+    if (!LocationValidator.validateCoordinates(latitude, longitude).isValid) {
       return res.status(400).json({
         error: "Invalid coordinates",
         message:
@@ -126,19 +60,14 @@ router.post("/validate", async (req: Request, res: Response) => {
       });
     }
 
-    // Check service area
-    const withinServiceArea = isWithinServiceArea(latitude, longitude);
-    const withinsurigaoCity = isWithinsurigaoCity(latitude, longitude);
+    // Check the service area registry
+    const serviceArea = await ServiceAreaModel.check(latitude, longitude);
 
-    // Generate warnings
+    // Generate warnings (rejections and 'warn' areas carry a message)
     const warnings: string[] = [];
 
-    if (!withinServiceArea) {
-      warnings.push("Location is outside the service area");
-    } else if (!withinsurigaoCity) {
-      warnings.push(
-        "Location is outside Surigao City - response times may be longer"
-      );
+    if (serviceArea.message) {
+      warnings.push(serviceArea.message);
     }
 
     // Check for common invalid locations (ocean, etc.)
@@ -159,8 +88,10 @@ router.post("/validate", async (req: Request, res: Response) => {
 
     // Create response
     const response: LocationValidationResponse = {
-      isValid: withinServiceArea,
-      withinServiceArea: withinServiceArea,
+      isValid: serviceArea.allowed,
+      withinServiceArea: serviceArea.withinServiceArea,
+      serviceArea: serviceArea.area,
+      strictness: serviceArea.strictness,
       warnings: warnings.length > 0 ? warnings : undefined,
       metadata: {
         coordinates: {
@@ -172,11 +103,18 @@ router.post("/validate", async (req: Request, res: Response) => {
       },
     };
 
-    // If address is provided, we could add reverse geocoding here
-    // For now, just acknowledge it
     if (address) {
       response.suggestedAddress = address;
       response.metadata.source = "client-provided-with-address";
+    } else {
+      const geocoded = await AddressGeocoder.reverseGeocode({
+        latitude,
+        longitude,
+      });
+      if (geocoded) {
+        response.suggestedAddress = geocoded;
+        response.metadata.source = "reverse-geocoded";
+      }
     }
 
     res.json({
@@ -193,18 +131,21 @@ router.post("/validate", async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/v1/locations/service-area - Get service area bounds
+// GET /api/v1/locations/service-area - Registered service areas (highest priority first)
 router.get("/service-area", async (req: Request, res: Response) => {
   try {
+    const areas = await ServiceAreaModel.findAll(true);
+    const primary = areas.find((area) => area.strictness === "allow");
+
     res.json({
       success: true,
       data: {
-        bounds: SERVICE_AREA_BOUNDS,
+        areas,
         coverage: {
-          primary: "Surigao City",
-          secondary: "Philippines",
-          notes:
-            "Primary coverage in Surigao City with extended support across Philippines",
+          primary: primary?.name || null,
+          // Policy for locations outside every area
+          outside: "reject",
+          notes: OUTSIDE_SERVICE_AREA_MESSAGE,
         },
       },
       message: "Service area information retrieved",
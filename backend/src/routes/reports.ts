@@ -1,13 +1,41 @@
 import { Router, Request, Response } from "express";
-import { ReportModel, CreateReportInput, ReportFilter } from "../models/Report";
 import {
-  validateReportCategory,
-  validateReportStatus,
-  validateDescription,
+  ReportModel,
+  CreateReportInput,
+  ReportFilter,
+  ReportCategory,
+  toPublicReport,
 } from "../models/Report";
-import { LocationValidator } from "../models/Location";
-import { reportRateLimit } from "../middleware/rateLimiter";
-import { findPotentialDuplicates } from "../services/duplicateDetector";
+import { validateReportCategory, validateDescription } from "../models/Report";
+import { ReportQueryValidator } from "../models/ReportQuery";
+import { ReportHistoryModel } from "../models/ReportHistory";
+import {
+  ReportSupportModel,
+  SupportRateLimitError,
+  validateDeviceToken,
+} from "../models/ReportSupport";
+import {
+  ReportCommentModel,
+  CommentRateLimitError,
+  validateCommentBody,
+  MAX_COMMENT_LENGTH,
+} from "../models/ReportComment";
+import { LocationValidator, AddressGeocoder } from "../models/Location";
+import { reportRateLimit, tileRateLimit } from "../middleware/rateLimiter";
+import {
+  findPotentialDuplicates,
+  getDuplicateRule,
+  PotentialDuplicate,
+  DEFAULT_DUPLICATE_RULE,
+} from "../services/duplicateDetector";
+import { getClientIp } from "../services/clientIp";
+import {
+  generateTrackingToken,
+  hashTrackingToken,
+  validateTrackingToken,
+  parseTrackingTokens,
+  MAX_TRACKING_TOKENS,
+} from "../services/trackingToken";
 
 const router = Router();
 
@@ -51,8 +79,8 @@ router.post(
         });
       }
 
-      // Validate location
-      const locationValidation = LocationValidator.validateLocation(location);
+      // Validate location (coordinates + service area registry)
+      const locationValidation = await LocationValidator.validateLocation(location);
       if (!locationValidation.isValid) {
         return res.status(400).json({
           error: "Invalid location",
@@ -61,23 +89,38 @@ router.post(
       }
 
       // Get reporter IP
-      const reporter_ip = req.ip || req.connection.remoteAddress || "unknown";
+      const reporter_ip = getClientIp(req);
+
+      // Returned once; only the hash is stored
+      const trackingToken = generateTrackingToken();
+
+      // Reports queued offline usually arrive without an address; geocoding
+      // failures leave it empty rather than failing the submission
+      const resolvedAddress =
+        address ||
+        (await AddressGeocoder.reverseGeocode(locationValidation.location!)) ||
+        undefined;
 
       // Create report input
       const reportData: CreateReportInput = {
         category,
         description,
         location: locationValidation.location!,
-        address,
+        address: resolvedAddress,
         photo_url,
         photo_public_id,
         reporter_ip,
+        tracking_token_hash: hashTrackingToken(trackingToken),
       };
 
       // Duplicate detection (non-blocking if fails)
-      let duplicates: any[] = [];
+      let duplicates: PotentialDuplicate[] = [];
       try {
-        duplicates = await findPotentialDuplicates(reportData.location);
+        duplicates = await findPotentialDuplicates({
+          location: reportData.location,
+          category: reportData.category,
+          description: reportData.description,
+        });
       } catch (dupErr) {
         console.warn("Duplicate detection failed", dupErr);
       }
@@ -91,7 +134,7 @@ router.post(
       // Return created report
       res.status(201).json({
         success: true,
-        data: report,
+        data: { ...toPublicReport(report), tracking_token: trackingToken },
         duplicates,
         message: duplicates.length
           ? `Report submitted. ${duplicates.length} similar recent report(s) nearby.`
@@ -110,7 +153,7 @@ router.post(
 // GET /api/v1/reports - Get reports with filtering
 router.get("/reports", async (req: Request, res: Response) => {
   try {
-    const { category, status, limit = "20", offset = "0" } = req.query;
+    const { limit = "20", offset = "0" } = req.query;
 
     // Determine max limit: env override > dev small cap > production default
     const parsedEnvMax = process.env.REPORTS_MAX_LIMIT
@@ -123,30 +166,15 @@ router.get("/reports", async (req: Request, res: Response) => {
         ? 5
         : 100;
 
-    // Validate query parameters
-    const filter: ReportFilter = {};
-
-    if (category && typeof category === "string") {
-      if (!validateReportCategory(category)) {
-        return res.status(400).json({
-          error: "Invalid category",
-          message:
-            "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
-        });
-      }
-      filter.category = category;
-    }
-
-    if (status && typeof status === "string") {
-      if (!validateReportStatus(status)) {
-        return res.status(400).json({
-          error: "Invalid status",
-          message:
-            "Status must be one of: Submitted, In Review, In Progress, Resolved, Closed",
-        });
-      }
-      filter.status = status;
+    // Validate filter, search and sort parameters
+    const parsed = ReportQueryValidator.validate(req.query, "public");
+    if (!parsed.isValid) {
+      return res.status(400).json({
+        error: parsed.error,
+        message: parsed.message,
+      });
     }
+    const filter: ReportFilter = parsed.filter!;
 
     // Parse and validate pagination parameters
     const limitNum = parseInt(limit as string, 10);
@@ -170,17 +198,36 @@ router.get("/reports", async (req: Request, res: Response) => {
     filter.limit = effectiveLimit;
     filter.offset = offsetNum;
 
-    // Get reports from database
+    // Get reports from database (admin-only fields stripped)
     const result = await ReportModel.findMany(filter);
+    const reports = result.reports.map(toPublicReport);
+
+    // Cursor mode: no offset, total only when requested
+    if (filter.includeTotal !== undefined) {
+      return res.json({
+        success: true,
+        data: {
+          reports,
+          ...(result.total !== undefined && { total: result.total }),
+          limit: effectiveLimit,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+          maxLimit: MAX_REPORTS_LIMIT,
+          limitRequested: limitNum,
+          limitApplied: effectiveLimit,
+        },
+      });
+    }
 
     res.json({
       success: true,
       data: {
-        reports: result.reports,
+        reports,
         total: result.total,
         limit: effectiveLimit,
         offset: offsetNum,
-        hasMore: offsetNum + effectiveLimit < result.total,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
         maxLimit: MAX_REPORTS_LIMIT,
         limitRequested: limitNum,
         limitApplied: effectiveLimit,
@@ -197,6 +244,206 @@ router.get("/reports", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/v1/reports/nearby?lat&lng&category - Open reports near a point (pre-submit suggestions)
+router.get("/reports/nearby", async (req: Request, res: Response) => {
+  try {
+    const { lat, lng, category, radius } = req.query;
+
+    const latitude = parseFloat(lat as string);
+    const longitude = parseFloat(lng as string);
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      latitude < -90 ||
+      latitude > 90 ||
+      longitude < -180 ||
+      longitude > 180
+    ) {
+      return res.status(400).json({
+        error: "Invalid location",
+        message: "lat and lng must be valid coordinates",
+      });
+    }
+
+    if (
+      category !== undefined &&
+      (typeof category !== "string" || !validateReportCategory(category))
+    ) {
+      return res.status(400).json({
+        error: "Invalid category",
+        message:
+          "Category must be one of: Infrastructure, Sanitation, Safety, Water, Electrical",
+      });
+    }
+
+    // Default radius follows the category's duplicate detection rule
+    let radiusMeters = category
+      ? (await getDuplicateRule(category as ReportCategory)).radius_meters
+      : DEFAULT_DUPLICATE_RULE.radius_meters;
+    if (radius !== undefined) {
+      radiusMeters = parseInt(radius as string, 10);
+      if (isNaN(radiusMeters) || radiusMeters < 10 || radiusMeters > 1000) {
+        return res.status(400).json({
+          error: "Invalid radius",
+          message: "radius must be between 10 and 1000 metres",
+        });
+      }
+    }
+
+    const reports = await ReportModel.findNearby(
+      { latitude, longitude },
+      {
+        radiusMeters,
+        category: category as ReportCategory | undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: { reports, radius: radiusMeters },
+    });
+  } catch (error) {
+    console.error("Error fetching nearby reports:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch nearby reports",
+    });
+  }
+});
+
+// GET /api/v1/reports.geojson?bbox&zoom - Reports as a GeoJSON FeatureCollection for the map
+// (same filters as /reports). Below CLUSTER_MAX_ZOOM nearby reports come back as clusters.
+router.get("/reports.geojson", async (req: Request, res: Response) => {
+  try {
+    const parsed = ReportQueryValidator.validate(req.query, "public");
+    if (!parsed.isValid) {
+      return res.status(400).json({
+        error: parsed.error,
+        message: parsed.message,
+      });
+    }
+
+    let zoom: number | undefined;
+    if (req.query.zoom !== undefined) {
+      zoom = parseFloat(req.query.zoom as string);
+      if (!Number.isFinite(zoom) || zoom < 0 || zoom > 24) {
+        return res.status(400).json({
+          error: "Invalid zoom",
+          message: "zoom must be a number between 0 and 24",
+        });
+      }
+    }
+
+    const collection = await ReportModel.findMapFeatures(parsed.filter!, zoom);
+
+    res.type("application/geo+json").json(collection);
+  } catch (error) {
+    console.error("Error fetching report GeoJSON:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch map reports",
+    });
+  }
+});
+
+// GET /api/v1/tiles/:z/:x/:y.mvt - Mapbox Vector Tile with a "reports" layer
+// (same filters as /reports except bbox, which the tile replaces)
+router.get(
+  "/tiles/:z/:x/:y.mvt",
+  tileRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const z = Number(req.params.z);
+      const x = Number(req.params.x);
+      const y = Number(req.params.y);
+      if (
+        !Number.isInteger(z) ||
+        !Number.isInteger(x) ||
+        !Number.isInteger(y) ||
+        z < 0 ||
+        z > 22 ||
+        x < 0 ||
+        y < 0 ||
+        x >= 2 ** z ||
+        y >= 2 ** z
+      ) {
+        return res.status(400).json({
+          error: "Invalid tile",
+          message: "z must be 0-22 and x, y within 0..2^z-1",
+        });
+      }
+
+      const parsed = ReportQueryValidator.validate(
+        { ...req.query, bbox: undefined },
+        "public"
+      );
+      if (!parsed.isValid) {
+        return res.status(400).json({
+          error: parsed.error,
+          message: parsed.message,
+        });
+      }
+
+      const tile = await ReportModel.findTile(z, x, y, parsed.filter!);
+
+      // Short cache: tiles change whenever a report is added or updated
+      res.set("Cache-Control", "public, max-age=60");
+      if (tile.length === 0) {
+        return res.status(204).end();
+      }
+      res.type("application/vnd.mapbox-vector-tile").send(tile);
+    } catch (error) {
+      console.error("Error generating report tile:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to generate tile",
+      });
+    }
+  }
+);
+
+// GET /api/v1/reports/mine - Reports submitted from this device.
+// Tokens go in the X-Tracking-Tokens header (comma-separated) so they stay out of URLs and logs.
+router.get("/reports/mine", async (req: Request, res: Response) => {
+  try {
+    const tokens = parseTrackingTokens(req.get("X-Tracking-Tokens"));
+
+    if (tokens.length === 0) {
+      return res.status(400).json({
+        error: "Missing tracking tokens",
+        message: "Send one or more tracking tokens in the X-Tracking-Tokens header",
+      });
+    }
+    if (tokens.length > MAX_TRACKING_TOKENS) {
+      return res.status(400).json({
+        error: "Too many tracking tokens",
+        message: `At most ${MAX_TRACKING_TOKENS} tracking tokens per request`,
+      });
+    }
+    if (!tokens.every(validateTrackingToken)) {
+      return res.status(400).json({
+        error: "Invalid tracking token",
+        message: "Tracking tokens must be 43 URL-safe characters",
+      });
+    }
+
+    const reports = await ReportModel.findByTrackingTokens(
+      tokens.map(hashTrackingToken)
+    );
+
+    res.json({
+      success: true,
+      data: { reports },
+    });
+  } catch (error) {
+    console.error("Error fetching tracked reports:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch your reports",
+    });
+  }
+});
+
 // GET /api/v1/reports/:id - Get specific report
 router.get("/reports/:id", async (req: Request, res: Response) => {
   try {
@@ -224,7 +471,7 @@ router.get("/reports/:id", async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: report,
+      data: toPublicReport(report),
     });
   } catch (error) {
     console.error("Error fetching report:", error);
@@ -235,4 +482,198 @@ router.get("/reports/:id", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/v1/reports/:id/history - Public status timeline (public messages only; no actors or internal notes)
+router.get("/reports/:id/history", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(400).json({
+        error: "Invalid ID",
+        message: "Report ID must be a valid UUID",
+      });
+    }
+
+    const report = await ReportModel.findById(id);
+    if (!report) {
+      return res.status(404).json({
+        error: "Not found",
+        message: "Report not found",
+      });
+    }
+
+    const history = await ReportHistoryModel.findByReport(id);
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching report history:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch report history",
+    });
+  }
+});
+
+// POST /api/v1/reports/:id/support - "This is my issue too" (one per device or IP, rate limited)
+router.post("/reports/:id/support", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(400).json({
+        error: "Invalid ID",
+        message: "Report ID must be a valid UUID",
+      });
+    }
+
+    const { device_token } = req.body || {};
+    if (device_token !== undefined && !validateDeviceToken(device_token)) {
+      return res.status(400).json({
+        error: "Invalid device_token",
+        message: "device_token must be 16-128 URL-safe characters",
+      });
+    }
+
+    const result = await ReportSupportModel.add(id, {
+      ip: getClientIp(req),
+      deviceToken: device_token,
+    });
+    if (!result) {
+      return res.status(404).json({
+        error: "Not found",
+        message: "Report not found",
+      });
+    }
+
+    res.status(result.added ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: result.added
+        ? "Support recorded"
+        : "You have already supported this report",
+    });
+  } catch (error) {
+    if (error instanceof SupportRateLimitError) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({
+        error: "Rate limit exceeded",
+        message: error.message,
+        retryAfter: error.retryAfterSeconds,
+      });
+    }
+    console.error("Error recording report support:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to record support",
+    });
+  }
+});
+
+// GET /api/v1/reports/:id/comments - Published comments (oldest first)
+router.get("/reports/:id/comments", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(400).json({
+        error: "Invalid ID",
+        message: "Report ID must be a valid UUID",
+      });
+    }
+
+    const report = await ReportModel.findById(id);
+    if (!report) {
+      return res.status(404).json({
+        error: "Not found",
+        message: "Report not found",
+      });
+    }
+
+    const comments = await ReportCommentModel.findPublic(id);
+
+    res.json({
+      success: true,
+      data: comments,
+    });
+  } catch (error) {
+    console.error("Error fetching report comments:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to fetch comments",
+    });
+  }
+});
+
+// POST /api/v1/reports/:id/comments - Resident update (rate limited; filtered comments held for review)
+router.post("/reports/:id/comments", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(400).json({
+        error: "Invalid ID",
+        message: "Report ID must be a valid UUID",
+      });
+    }
+
+    const { body } = req.body || {};
+    if (!validateCommentBody(body)) {
+      return res.status(400).json({
+        error: "Invalid comment",
+        message: `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`,
+      });
+    }
+
+    const comment = await ReportCommentModel.addPublic(
+      id,
+      body,
+      getClientIp(req)
+    );
+    if (!comment) {
+      return res.status(404).json({
+        error: "Not found",
+        message: "Report not found",
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+      message:
+        comment.status === "pending"
+          ? "Comment received; it will appear after review"
+          : "Comment posted",
+    });
+  } catch (error) {
+    if (error instanceof CommentRateLimitError) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({
+        error: "Rate limit exceeded",
+        message: error.message,
+        retryAfter: error.retryAfterSeconds,
+      });
+    }
+    console.error("Error posting report comment:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: "Failed to post comment",
+    });
+  }
+});
+
 export default router;
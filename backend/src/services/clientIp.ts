@@ -0,0 +1,70 @@
+import { Request } from "express";
+import { isIP } from "net";
+
+// Client IP resolution shared by the rate limiters, report creation
+// (reporter_ip) and request logging.
+//
+// TRUST_PROXY decides which x-forwarded-for entries are believed; it is passed
+// to Express as the `trust proxy` setting so req.ip walks the chain from the
+// socket address and stops at the first untrusted hop:
+//   false / 0        - ignore x-forwarded-for, use the socket address
+//   <n>              - trust n proxy hops in front of the app (e.g. 1 behind Vercel)
+//   <cidr>,<cidr>... - trust proxies whose addresses match (IPs, CIDRs, or the
+//                      Express names loopback / linklocal / uniquelocal)
+// Unset defaults to 1 hop on Vercel and no proxies elsewhere.
+
+export type TrustProxySetting = boolean | number | string[];
+
+// Stored when no address can be determined (reporter_ip is NOT NULL INET)
+export const UNKNOWN_CLIENT_IP = "0.0.0.0";
+
+export function parseTrustProxy(
+  value: string | undefined = process.env.TRUST_PROXY
+): TrustProxySetting {
+  const raw = (value ?? "").trim();
+  if (!raw) return process.env.VERCEL ? 1 : false;
+
+  const lower = raw.toLowerCase();
+  if (lower === "false") return false;
+  if (lower === "true") {
+    // Trusting every hop lets any client pick its own address
+    throw new Error(
+      "TRUST_PROXY=true would trust spoofed x-forwarded-for headers; use a hop count or CIDR list"
+    );
+  }
+  if (/^\d+$/.test(raw)) {
+    const hops = parseInt(raw, 10);
+    return hops === 0 ? false : hops;
+  }
+
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Canonical form for the INET column: IPv4-mapped IPv6 (::ffff:1.2.3.4) becomes
+// plain IPv4 and zone ids (fe80::1%eth0) are dropped. Returns null when invalid.
+export function normalizeIp(address: string | undefined | null): string | null {
+  if (!address) return null;
+  let ip = address.trim();
+
+  const zoneIndex = ip.indexOf("%");
+  if (zoneIndex !== -1) ip = ip.slice(0, zoneIndex);
+
+  const mapped = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i.exec(ip);
+  if (mapped) ip = mapped[1];
+
+  const version = isIP(ip);
+  if (version === 0) return null;
+  return version === 6 ? ip.toLowerCase() : ip;
+}
+
+// req.ip already honours the trust proxy setting configured in index.ts
+export function getClientIp(req: Request): string {
+  return (
+    normalizeIp(req.ip) ||
+    normalizeIp(req.socket?.remoteAddress) ||
+    UNKNOWN_CLIENT_IP
+  );
+}
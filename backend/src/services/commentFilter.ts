@@ -0,0 +1,72 @@
+// Screens resident comments before they are published. Anything caught here is
+// stored as 'pending' for a moderator instead of being rejected outright, so a
+// false positive only delays the comment.
+
+export type CommentHoldReason = "profanity" | "link";
+
+export interface CommentScreenResult {
+  held: boolean;
+  reason?: CommentHoldReason;
+}
+
+// English and common Filipino/Cebuano profanity (matched as whole words after
+// undoing simple character substitutions)
+const PROFANITY = [
+  "fuck",
+  "fucking",
+  "shit",
+  "bitch",
+  "asshole",
+  "bastard",
+  "dick",
+  "cunt",
+  "putangina",
+  "tangina",
+  "puta",
+  "putang",
+  "gago",
+  "gaga",
+  "tarantado",
+  "ulol",
+  "bobo",
+  "tanga",
+  "yawa",
+  "pisti",
+  "buang",
+];
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+const PROFANITY_PATTERN = new RegExp(
+  `\\b(?:${PROFANITY.join("|")})\\b`,
+  "i"
+);
+
+// URLs, bare domains (example.com, bit.ly/x) and e-mail addresses
+const LINK_PATTERN =
+  /(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|ph|io|ly|co|me|info|biz|xyz|site|online|top|link)\b|\S+@\S+\.\S+/i;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LEET[char] || char)
+    // "f.u.c.k" / "f*ck" style separators inside words
+    .replace(/(\w)[.*_-](?=\w)/g, "$1");
+}
+
+export function screenComment(body: string): CommentScreenResult {
+  if (LINK_PATTERN.test(body)) return { held: true, reason: "link" };
+  if (PROFANITY_PATTERN.test(normalize(body))) {
+    return { held: true, reason: "profanity" };
+  }
+  return { held: false };
+}
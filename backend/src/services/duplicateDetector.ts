@@ -1,57 +1,146 @@
 import { query } from "../db/connection";
-import { Location } from "../models/Report";
+import { Location, ReportCategory } from "../models/Report";
 
 export interface PotentialDuplicate {
   id: string;
+  category: ReportCategory;
   description: string;
+  status: string;
   distance_m: number;
   created_at: string;
+  same_category: boolean;
+  // pg_trgm similarity of the descriptions (0-1)
+  text_similarity: number;
+  // Weighted score of distance, category and text (0-1)
+  confidence: number;
 }
 
-// Simple distance calc (Haversine) in meters
-function haversine(a: Location, b: Location) {
-  const R = 6371000; // m
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const dLat = toRad(b.latitude - a.latitude);
-  const dLon = toRad(b.longitude - a.longitude);
-  const lat1 = toRad(a.latitude);
-  const lat2 = toRad(b.latitude);
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-  const h =
-    sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  const c = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
-  return R * c;
+export interface DuplicateCheckInput {
+  location: Location;
+  category: ReportCategory;
+  description: string;
+  // Skip this report (when checking an existing one)
+  excludeId?: string;
+}
+
+// Search radius and look-back window for one category (duplicate_detection_rules)
+export interface DuplicateRule {
+  category: ReportCategory;
+  radius_meters: number;
+  window_hours: number;
+  updated_at?: Date;
+}
+
+// Used when a category has no row in duplicate_detection_rules
+export const DEFAULT_DUPLICATE_RULE = { radius_meters: 120, window_hours: 24 };
+
+// Score weights (sum to 1): closeness within the radius, same category, text similarity.
+// A different-category report only qualifies when it is very close and worded alike.
+const DISTANCE_WEIGHT = 0.4;
+const CATEGORY_WEIGHT = 0.35;
+const TEXT_WEIGHT = 0.25;
+export const MIN_DUPLICATE_CONFIDENCE = 0.5;
+const MAX_DUPLICATES = 5;
+
+export async function getDuplicateRules(): Promise<DuplicateRule[]> {
+  const result = await query(
+    `SELECT category, radius_meters, window_hours, updated_at
+     FROM duplicate_detection_rules
+     ORDER BY category`
+  );
+  return result.rows;
 }
 
+export async function getDuplicateRule(
+  category: ReportCategory
+): Promise<DuplicateRule> {
+  const result = await query(
+    `SELECT category, radius_meters, window_hours, updated_at
+     FROM duplicate_detection_rules
+     WHERE category = $1`,
+    [category]
+  );
+  return result.rows[0] || { category, ...DEFAULT_DUPLICATE_RULE };
+}
+
+export async function upsertDuplicateRule(
+  category: ReportCategory,
+  radiusMeters: number,
+  windowHours: number
+): Promise<DuplicateRule> {
+  const result = await query(
+    `INSERT INTO duplicate_detection_rules (category, radius_meters, window_hours, updated_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (category) DO UPDATE
+       SET radius_meters = EXCLUDED.radius_meters,
+           window_hours = EXCLUDED.window_hours,
+           updated_at = NOW()
+     RETURNING category, radius_meters, window_hours, updated_at`,
+    [category, radiusMeters, windowHours]
+  );
+  return result.rows[0];
+}
+
+// Open reports near the location, scored and filtered by MIN_DUPLICATE_CONFIDENCE.
+// Closed reports and reports already marked duplicate_of are never candidates.
 export async function findPotentialDuplicates(
-  location: Location,
-  radiusMeters = 120,
-  recentHours = 24
+  input: DuplicateCheckInput
 ): Promise<PotentialDuplicate[]> {
+  const rule = await getDuplicateRule(input.category);
+
   const result = await query(
-    `SELECT id, description, ST_Y(location) as latitude, ST_X(location) as longitude, created_at
-     FROM reports
-     WHERE created_at > NOW() - ($1 || ' hours')::interval`,
-    [recentHours]
+    `
+    WITH candidates AS (
+      SELECT id, category, description, status, created_at,
+             ST_Distance(
+               location::geography,
+               ST_SetSRID(ST_Point($1, $2), 4326)::geography
+             ) AS distance_m,
+             similarity(description, $4) AS text_similarity
+      FROM reports
+      WHERE ST_DWithin(
+              location::geography,
+              ST_SetSRID(ST_Point($1, $2), 4326)::geography,
+              $5
+            )
+        AND created_at > NOW() - make_interval(hours => $6)
+        AND status <> 'Closed'
+        AND duplicate_of IS NULL
+        AND ($7::uuid IS NULL OR id <> $7::uuid)
+    ),
+    scored AS (
+      SELECT *,
+             category = $3 AS same_category,
+             ROUND((
+               $8::float * GREATEST(0, 1 - distance_m / $5)
+               + CASE WHEN category = $3 THEN $9::float ELSE 0 END
+               + $10::float * text_similarity
+             )::numeric, 2)::float AS confidence
+      FROM candidates
+    )
+    SELECT id, category, description, status, created_at, same_category,
+           ROUND(distance_m)::int AS distance_m,
+           ROUND(text_similarity::numeric, 2)::float AS text_similarity,
+           confidence
+    FROM scored
+    WHERE confidence >= $11::float
+    ORDER BY confidence DESC, distance_m ASC
+    LIMIT $12
+  `,
+    [
+      input.location.longitude,
+      input.location.latitude,
+      input.category,
+      input.description,
+      rule.radius_meters,
+      rule.window_hours,
+      input.excludeId || null,
+      DISTANCE_WEIGHT,
+      CATEGORY_WEIGHT,
+      TEXT_WEIGHT,
+      MIN_DUPLICATE_CONFIDENCE,
+      MAX_DUPLICATES,
+    ]
   );
-  const current = location;
-  const candidates: PotentialDuplicate[] = [];
-  for (const row of result.rows) {
-    const dist = haversine(current, {
-      latitude: row.latitude,
-      longitude: row.longitude,
-    });
-    if (dist <= radiusMeters) {
-      candidates.push({
-        id: row.id,
-        description: row.description,
-        distance_m: Math.round(dist),
-        created_at: row.created_at,
-      });
-    }
-  }
-  // Return up to 5 closest
-  candidates.sort((a, b) => a.distance_m - b.distance_m);
-  return candidates.slice(0, 5);
+  return result.rows;
 }
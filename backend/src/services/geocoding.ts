@@ -0,0 +1,388 @@
+import fs from "fs";
+import path from "path";
+import { query } from "../db/connection";
+import {
+  Coordinates,
+  GeocodingResult,
+  LocationUtils,
+} from "../models/Location";
+
+// Server-side geocoding with pluggable providers and a Postgres cache
+//
+// Providers (GEOCODING_PROVIDER):
+//   mapbox    - Mapbox Geocoding API, needs MAPBOX_ACCESS_TOKEN
+//   nominatim - OpenStreetMap Nominatim at NOMINATIM_URL (public instance by default)
+//   gazetteer - local JSON file at GEOCODING_GAZETTEER_PATH, no network (tests, offline setups)
+//   none      - geocoding disabled
+// When unset, mapbox is used if MAPBOX_ACCESS_TOKEN is present, otherwise none.
+
+export interface GeocodingProvider {
+  readonly name: string;
+  // Best matches for free-text, most relevant first
+  forward(text: string, limit: number): Promise<GeocodingResult[]>;
+  // Address of the place at the coordinates, or null
+  reverse(location: Coordinates): Promise<GeocodingResult | null>;
+}
+
+// One entry of the gazetteer file
+interface GazetteerEntry {
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_COUNTRY = "ph";
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const MAPBOX_BASE = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+
+// Reverse cache key precision: 4 decimals is ~11 m at the equator
+const CACHE_COORDINATE_DECIMALS = 4;
+const CACHE_TTL_DAYS = 30;
+// Empty results expire sooner so newly mapped places show up
+const EMPTY_CACHE_TTL_DAYS = 1;
+
+// Gazetteer reverse lookups only match places this close
+const GAZETTEER_MAX_DISTANCE_METERS = 250;
+
+function timeoutMs(): number {
+  const value = parseInt(process.env.GEOCODING_TIMEOUT_MS || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+function country(): string {
+  return (process.env.GEOCODING_COUNTRY || DEFAULT_COUNTRY).toLowerCase();
+}
+
+async function fetchJson(url: string, headers?: Record<string, string>) {
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(timeoutMs()),
+  });
+  if (!response.ok) {
+    throw new Error(`Geocoding request failed (HTTP ${response.status})`);
+  }
+  return response.json();
+}
+
+interface MapboxFeature {
+  place_name: string;
+  text?: string;
+  center: [number, number];
+  relevance?: number;
+}
+
+export class MapboxGeocodingProvider implements GeocodingProvider {
+  readonly name = "mapbox";
+
+  constructor(private readonly token: string) {}
+
+  private toResult(feature: MapboxFeature): GeocodingResult {
+    return {
+      coordinates: {
+        latitude: feature.center[1],
+        longitude: feature.center[0],
+      },
+      formatted_address: feature.place_name,
+      place_name: feature.text || feature.place_name,
+      confidence: feature.relevance ?? 1,
+    };
+  }
+
+  async forward(text: string, limit: number): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({
+      access_token: this.token,
+      limit: String(limit),
+      country: country(),
+    });
+    const data = (await fetchJson(
+      `${MAPBOX_BASE}/${encodeURIComponent(text)}.json?${params}`
+    )) as { features?: MapboxFeature[] };
+    return (data.features || []).map((feature) => this.toResult(feature));
+  }
+
+  async reverse(location: Coordinates): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      access_token: this.token,
+      limit: "1",
+    });
+    const data = (await fetchJson(
+      `${MAPBOX_BASE}/${location.longitude},${location.latitude}.json?${params}`
+    )) as { features?: MapboxFeature[] };
+    const feature = data.features?.[0];
+    return feature ? this.toResult(feature) : null;
+  }
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  name?: string;
+  importance?: number;
+}
+
+// Nominatim's usage policy requires an identifying User-Agent
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = "nominatim";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly userAgent: string
+  ) {}
+
+  private toResult(place: NominatimPlace): GeocodingResult {
+    return {
+      coordinates: {
+        latitude: parseFloat(place.lat),
+        longitude: parseFloat(place.lon),
+      },
+      formatted_address: place.display_name,
+      place_name: place.name || place.display_name.split(",")[0],
+      confidence: place.importance ?? 1,
+    };
+  }
+
+  async forward(text: string, limit: number): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({
+      format: "jsonv2",
+      q: text,
+      limit: String(limit),
+      countrycodes: country(),
+    });
+    const data = (await fetchJson(`${this.baseUrl}/search?${params}`, {
+      "User-Agent": this.userAgent,
+    })) as NominatimPlace[];
+    return data.map((place) => this.toResult(place));
+  }
+
+  async reverse(location: Coordinates): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      format: "jsonv2",
+      lat: String(location.latitude),
+      lon: String(location.longitude),
+    });
+    const data = (await fetchJson(`${this.baseUrl}/reverse?${params}`, {
+      "User-Agent": this.userAgent,
+    })) as NominatimPlace & { error?: string };
+    return data.error || !data.display_name ? null : this.toResult(data);
+  }
+}
+
+// Looks places up in a JSON array of { name, address?, latitude, longitude }
+export class GazetteerGeocodingProvider implements GeocodingProvider {
+  readonly name = "gazetteer";
+  private readonly entries: GazetteerEntry[];
+
+  constructor(filePath: string) {
+    const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (!Array.isArray(data)) {
+      throw new Error(`Gazetteer ${filePath} must contain a JSON array`);
+    }
+    this.entries = data.filter(
+      (entry): entry is GazetteerEntry =>
+        typeof entry?.name === "string" &&
+        typeof entry.latitude === "number" &&
+        typeof entry.longitude === "number"
+    );
+  }
+
+  private toResult(entry: GazetteerEntry, confidence: number): GeocodingResult {
+    return {
+      coordinates: { latitude: entry.latitude, longitude: entry.longitude },
+      formatted_address: entry.address || entry.name,
+      place_name: entry.name,
+      confidence,
+    };
+  }
+
+  async forward(text: string, limit: number): Promise<GeocodingResult[]> {
+    const needle = text.trim().toLowerCase();
+    return this.entries
+      .map((entry) => {
+        const name = entry.name.toLowerCase();
+        const address = (entry.address || "").toLowerCase();
+        // Exact name, then name prefix, then anywhere in name or address
+        const confidence =
+          name === needle
+            ? 1
+            : name.startsWith(needle)
+              ? 0.8
+              : name.includes(needle) || address.includes(needle)
+                ? 0.5
+                : 0;
+        return { entry, confidence };
+      })
+      .filter((match) => match.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit)
+      .map((match) => this.toResult(match.entry, match.confidence));
+  }
+
+  async reverse(location: Coordinates): Promise<GeocodingResult | null> {
+    let nearest: GazetteerEntry | null = null;
+    let nearestDistance = GAZETTEER_MAX_DISTANCE_METERS;
+    for (const entry of this.entries) {
+      const distance = LocationUtils.calculateDistance(location, entry);
+      if (distance <= nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    }
+    return nearest
+      ? this.toResult(nearest, 1 - nearestDistance / GAZETTEER_MAX_DISTANCE_METERS)
+      : null;
+  }
+}
+
+// undefined until first use; null when geocoding is disabled
+let provider: GeocodingProvider | null | undefined;
+
+export function getGeocodingProvider(): GeocodingProvider | null {
+  if (provider !== undefined) return provider;
+
+  const token = process.env.MAPBOX_ACCESS_TOKEN;
+  const configured = (
+    process.env.GEOCODING_PROVIDER || (token ? "mapbox" : "none")
+  ).toLowerCase();
+
+  provider = null;
+  if (configured === "mapbox") {
+    if (token) {
+      provider = new MapboxGeocodingProvider(token);
+    } else {
+      console.warn(
+        "⚠️ GEOCODING_PROVIDER=mapbox but MAPBOX_ACCESS_TOKEN is not set; geocoding disabled"
+      );
+    }
+  } else if (configured === "nominatim") {
+    provider = new NominatimGeocodingProvider(
+      (process.env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL).replace(/\/+$/, ""),
+      process.env.NOMINATIM_USER_AGENT || "fix-my-barangay-backend"
+    );
+  } else if (configured === "gazetteer") {
+    const filePath = process.env.GEOCODING_GAZETTEER_PATH;
+    if (filePath) {
+      // A missing or malformed file disables geocoding like any other misconfiguration
+      try {
+        provider = new GazetteerGeocodingProvider(path.resolve(filePath));
+      } catch (error) {
+        console.warn(
+          "⚠️ Gazetteer could not be loaded; geocoding disabled:",
+          error instanceof Error ? error.message : error
+        );
+      }
+    } else {
+      console.warn(
+        "⚠️ GEOCODING_PROVIDER=gazetteer but GEOCODING_GAZETTEER_PATH is not set; geocoding disabled"
+      );
+    }
+  } else if (configured !== "none") {
+    console.warn(
+      `⚠️ Unknown GEOCODING_PROVIDER "${configured}"; geocoding disabled`
+    );
+  }
+
+  console.log(`🧭 Geocoding provider: ${provider?.name || "none"}`);
+  return provider;
+}
+
+function reverseCacheKey(location: Coordinates): string {
+  return `${location.latitude.toFixed(CACHE_COORDINATE_DECIMALS)},${location.longitude.toFixed(CACHE_COORDINATE_DECIMALS)}`;
+}
+
+function forwardCacheKey(text: string, limit: number): string {
+  return `${limit}:${text.trim().toLowerCase().replace(/\s+/g, " ")}`.slice(
+    0,
+    255
+  );
+}
+
+async function readCache(
+  providerName: string,
+  kind: "reverse" | "forward",
+  key: string
+): Promise<GeocodingResult[] | null> {
+  const result = await query(
+    `SELECT results FROM geocode_cache
+     WHERE provider = $1 AND kind = $2 AND cache_key = $3 AND expires_at > NOW()`,
+    [providerName, kind, key]
+  );
+  return result.rows[0]?.results ?? null;
+}
+
+async function writeCache(
+  providerName: string,
+  kind: "reverse" | "forward",
+  key: string,
+  results: GeocodingResult[]
+): Promise<void> {
+  const ttlDays = results.length > 0 ? CACHE_TTL_DAYS : EMPTY_CACHE_TTL_DAYS;
+  await query(
+    `INSERT INTO geocode_cache (provider, kind, cache_key, results, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+     ON CONFLICT (provider, kind, cache_key)
+     DO UPDATE SET results = EXCLUDED.results,
+                   created_at = NOW(),
+                   expires_at = EXCLUDED.expires_at`,
+    [providerName, kind, key, JSON.stringify(results), ttlDays]
+  );
+}
+
+// Cache-through lookup. Provider or cache failures are logged and treated as
+// "no result" so a slow geocoder never blocks report submission.
+async function cached(
+  kind: "reverse" | "forward",
+  key: string,
+  lookup: (provider: GeocodingProvider) => Promise<GeocodingResult[]>
+): Promise<GeocodingResult[]> {
+  const geocoder = getGeocodingProvider();
+  if (!geocoder) return [];
+
+  try {
+    const hit = await readCache(geocoder.name, kind, key);
+    if (hit) return hit;
+  } catch (error) {
+    console.warn("Geocode cache read failed:", error);
+  }
+
+  let results: GeocodingResult[];
+  try {
+    results = await lookup(geocoder);
+  } catch (error) {
+    console.warn(`Geocoding (${geocoder.name}, ${kind}) failed:`, error);
+    return [];
+  }
+
+  try {
+    await writeCache(geocoder.name, kind, key, results);
+  } catch (error) {
+    console.warn("Geocode cache write failed:", error);
+  }
+  return results;
+}
+
+export async function reverseGeocode(
+  location: Coordinates
+): Promise<GeocodingResult | null> {
+  const results = await cached(
+    "reverse",
+    reverseCacheKey(location),
+    async (geocoder) => {
+      const result = await geocoder.reverse(location);
+      return result ? [result] : [];
+    }
+  );
+  return results[0] || null;
+}
+
+export async function forwardGeocode(
+  text: string,
+  limit = 5
+): Promise<GeocodingResult[]> {
+  if (!text.trim()) return [];
+  return cached("forward", forwardCacheKey(text, limit), (geocoder) =>
+    geocoder.forward(text.trim(), limit)
+  );
+}
@@ -0,0 +1,243 @@
+import { createClient } from "redis";
+import { query, transaction } from "../db/connection";
+
+export interface RateLimitRule {
+  hourlyLimit: number;
+  dailyLimit: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  hourlyCount: number;
+  dailyCount: number;
+  hourlyResetAt: Date;
+  dailyResetAt: Date;
+  // Seconds until the blocking window resets (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+// Counts report submissions per key (client IP) in fixed hourly and daily windows.
+// A window starts at the first hit after the previous one expired.
+export interface RateLimitStore {
+  readonly name: string;
+  // Counts the hit only when both windows still have room
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+  // Removes counters whose windows have both expired; returns rows removed
+  cleanup(): Promise<number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function decide(
+  hourlyCount: number,
+  dailyCount: number,
+  hourlyResetAt: Date,
+  dailyResetAt: Date,
+  rule: RateLimitRule,
+  now: number,
+  counted: boolean
+): RateLimitDecision {
+  let retryAfterMs = 0;
+  if (!counted) {
+    // Wait for the later of the exhausted windows
+    if (hourlyCount >= rule.hourlyLimit) {
+      retryAfterMs = Math.max(retryAfterMs, hourlyResetAt.getTime() - now);
+    }
+    if (dailyCount >= rule.dailyLimit) {
+      retryAfterMs = Math.max(retryAfterMs, dailyResetAt.getTime() - now);
+    }
+  }
+  return {
+    allowed: counted,
+    hourlyCount,
+    dailyCount,
+    hourlyResetAt,
+    dailyResetAt,
+    retryAfterSeconds: counted ? 0 : Math.max(1, Math.ceil(retryAfterMs / 1000)),
+  };
+}
+
+// Uses the rate_limits table; last_*_reset holds the start of the current window
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+
+  async consume(ip: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    return transaction(async (client) => {
+      await client.query(
+        `INSERT INTO rate_limits (ip_address, hourly_count, daily_count)
+         VALUES ($1::inet, 0, 0)
+         ON CONFLICT (ip_address) DO NOTHING`,
+        [ip]
+      );
+
+      // Row lock serialises concurrent submissions from the same IP
+      const result = await client.query(
+        `SELECT hourly_count, daily_count, last_hourly_reset, last_daily_reset,
+                NOW() AS now
+         FROM rate_limits
+         WHERE ip_address = $1::inet
+         FOR UPDATE`,
+        [ip]
+      );
+      const row = result.rows[0];
+      const now = new Date(row.now).getTime();
+
+      let hourlyStart = new Date(row.last_hourly_reset).getTime();
+      let dailyStart = new Date(row.last_daily_reset).getTime();
+      let hourlyCount = row.hourly_count || 0;
+      let dailyCount = row.daily_count || 0;
+      if (now - hourlyStart >= HOUR_MS) {
+        hourlyStart = now;
+        hourlyCount = 0;
+      }
+      if (now - dailyStart >= DAY_MS) {
+        dailyStart = now;
+        dailyCount = 0;
+      }
+
+      const counted =
+        hourlyCount < rule.hourlyLimit && dailyCount < rule.dailyLimit;
+      if (counted) {
+        hourlyCount += 1;
+        dailyCount += 1;
+      }
+
+      await client.query(
+        `UPDATE rate_limits
+         SET hourly_count = $2, daily_count = $3,
+             last_hourly_reset = $4, last_daily_reset = $5
+         WHERE ip_address = $1::inet`,
+        [ip, hourlyCount, dailyCount, new Date(hourlyStart), new Date(dailyStart)]
+      );
+
+      return decide(
+        hourlyCount,
+        dailyCount,
+        new Date(hourlyStart + HOUR_MS),
+        new Date(dailyStart + DAY_MS),
+        rule,
+        now,
+        counted
+      );
+    });
+  }
+
+  async cleanup(): Promise<number> {
+    // The daily window is the longer one, so an expired daily window means the row is idle
+    const result = await query(
+      "DELETE FROM rate_limits WHERE last_daily_reset < NOW() - INTERVAL '1 day'"
+    );
+    return result.rowCount || 0;
+  }
+}
+
+// Check-and-increment both windows atomically; keys expire with their window
+const REDIS_CONSUME_SCRIPT = `
+local h = tonumber(redis.call('GET', KEYS[1]) or '0')
+local d = tonumber(redis.call('GET', KEYS[2]) or '0')
+local counted = 0
+if h < tonumber(ARGV[1]) and d < tonumber(ARGV[2]) then
+  h = redis.call('INCR', KEYS[1])
+  if h == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[3]) end
+  d = redis.call('INCR', KEYS[2])
+  if d == 1 then redis.call('PEXPIRE', KEYS[2], ARGV[4]) end
+  counted = 1
+end
+return { counted, h, d, redis.call('PTTL', KEYS[1]), redis.call('PTTL', KEYS[2]) }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = "redis";
+  private client: ReturnType<typeof createClient>;
+  private connecting: Promise<unknown> | null = null;
+
+  constructor(url: string, private readonly prefix = "fmb:ratelimit") {
+    this.client = createClient({ url });
+    this.client.on("error", (error) => {
+      console.error("❌ Redis rate limit store error:", error);
+    });
+  }
+
+  private async ready(): Promise<void> {
+    if (this.client.isReady) return;
+    if (!this.connecting) {
+      this.connecting = this.client.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    await this.connecting;
+  }
+
+  async consume(ip: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    await this.ready();
+    const reply = (await this.client.eval(REDIS_CONSUME_SCRIPT, {
+      keys: [`${this.prefix}:hour:${ip}`, `${this.prefix}:day:${ip}`],
+      arguments: [
+        String(rule.hourlyLimit),
+        String(rule.dailyLimit),
+        String(HOUR_MS),
+        String(DAY_MS),
+      ],
+    })) as number[];
+
+    const [counted, hourlyCount, dailyCount, hourlyTtl, dailyTtl] =
+      reply.map(Number);
+    const now = Date.now();
+    // PTTL is negative for a missing key (window not started yet)
+    return decide(
+      hourlyCount,
+      dailyCount,
+      new Date(now + (hourlyTtl > 0 ? hourlyTtl : HOUR_MS)),
+      new Date(now + (dailyTtl > 0 ? dailyTtl : DAY_MS)),
+      rule,
+      now,
+      counted === 1
+    );
+  }
+
+  async cleanup(): Promise<number> {
+    // Keys expire on their own
+    return 0;
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=redis (with REDIS_URL) selects Redis; Postgres otherwise
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const backend = (process.env.RATE_LIMIT_STORE || "postgres").toLowerCase();
+  if (backend === "redis") {
+    if (process.env.REDIS_URL) {
+      store = new RedisRateLimitStore(process.env.REDIS_URL);
+    } else {
+      console.warn(
+        "⚠️ RATE_LIMIT_STORE=redis but REDIS_URL is not set; using Postgres"
+      );
+    }
+  }
+  if (!store) store = new PostgresRateLimitStore();
+  console.log(`🛡 Rate limit store: ${store.name}`);
+  return store;
+}
+
+// Stale-row cleanup for long-running servers; serverless deployments should
+// run `npm run ratelimit:cleanup` from a scheduler instead
+export function startRateLimitCleanup(
+  intervalMs = HOUR_MS
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const removed = await getRateLimitStore().cleanup();
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} stale rate limit row(s)`);
+      }
+    } catch (error) {
+      console.error("Rate limit cleanup failed:", error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,216 @@
+import crypto, { KeyObject } from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Clerk session token verification (RS256 JWT checked against a JWKS)
+//
+// Modes (ADMIN_AUTH_MODE):
+//   clerk (default) - keys fetched from CLERK_JWKS_URL
+//   local           - keys derived from a local PEM key pair, tokens minted with
+//                     `npm run auth:local-token` (never allowed in production)
+
+export type AuthMode = "clerk" | "local";
+
+export interface SessionClaims {
+  sub: string;
+  iss?: string;
+  azp?: string;
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  sid?: string;
+  [claim: string]: unknown;
+}
+
+interface Jwk {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+}
+
+export class SessionTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionTokenError";
+  }
+}
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+// Minimum delay between JWKS refetches triggered by an unknown `kid`
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+const CLOCK_SKEW_SECONDS = 30;
+
+export const LOCAL_KEY_ID = "local-dev";
+export const LOCAL_ISSUER = "fix-my-barangay-local";
+const DEFAULT_LOCAL_KEY_PATH = path.resolve(
+  __dirname,
+  "../../.local-auth/private.pem"
+);
+
+let cachedKeys: Map<string, KeyObject> | null = null;
+let cachedAt = 0;
+let lastRefreshAttempt = 0;
+
+export function getAuthMode(): AuthMode {
+  const mode = (process.env.ADMIN_AUTH_MODE || "clerk").toLowerCase();
+  if (mode === "local") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ADMIN_AUTH_MODE=local is not allowed in production");
+    }
+    return "local";
+  }
+  return "clerk";
+}
+
+function base64UrlDecode(segment: string): Buffer {
+  return Buffer.from(segment, "base64url");
+}
+
+function parseSegment<T>(segment: string, label: string): T {
+  try {
+    return JSON.parse(base64UrlDecode(segment).toString("utf8"));
+  } catch {
+    throw new SessionTokenError(`Malformed token ${label}`);
+  }
+}
+
+// Build key map from the local PEM key pair (public half only is needed)
+function loadLocalKeys(): Map<string, KeyObject> {
+  const keyPath = process.env.LOCAL_AUTH_KEY_PATH || DEFAULT_LOCAL_KEY_PATH;
+  if (!fs.existsSync(keyPath)) {
+    throw new Error(
+      `Local auth key not found at ${keyPath}. Run "npm run auth:local-token" to generate one.`
+    );
+  }
+  const publicKey = crypto.createPublicKey(fs.readFileSync(keyPath, "utf8"));
+  return new Map([[LOCAL_KEY_ID, publicKey]]);
+}
+
+async function fetchClerkKeys(): Promise<Map<string, KeyObject>> {
+  const jwksUrl = process.env.CLERK_JWKS_URL;
+  if (!jwksUrl) {
+    throw new Error("CLERK_JWKS_URL environment variable is required");
+  }
+
+  const response = await fetch(jwksUrl, {
+    headers: process.env.CLERK_SECRET_KEY
+      ? { Authorization: `Bearer ${process.env.CLERK_SECRET_KEY}` }
+      : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS (HTTP ${response.status})`);
+  }
+
+  const body = (await response.json()) as { keys?: Jwk[] };
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of body.keys || []) {
+    if (jwk.kty !== "RSA" || !jwk.kid) continue;
+    keys.set(
+      jwk.kid,
+      crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: "jwk" })
+    );
+  }
+  return keys;
+}
+
+async function getSigningKey(kid: string): Promise<KeyObject | undefined> {
+  const now = Date.now();
+  const expired = !cachedKeys || now - cachedAt > JWKS_CACHE_TTL_MS;
+  const unknownKid = !!cachedKeys && !cachedKeys.has(kid);
+
+  if (
+    expired ||
+    (unknownKid && now - lastRefreshAttempt > JWKS_REFRESH_COOLDOWN_MS)
+  ) {
+    lastRefreshAttempt = now;
+    cachedKeys =
+      getAuthMode() === "local" ? loadLocalKeys() : await fetchClerkKeys();
+    cachedAt = now;
+  }
+
+  return cachedKeys?.get(kid);
+}
+
+function parseList(value?: string): string[] {
+  return (value || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Verify a session JWT and return its claims, throwing SessionTokenError when invalid
+export async function verifySessionToken(
+  token: string
+): Promise<SessionClaims> {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new SessionTokenError("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  const header = parseSegment<{ alg?: string; kid?: string }>(
+    encodedHeader,
+    "header"
+  );
+  if (header.alg !== "RS256") {
+    throw new SessionTokenError(`Unsupported token algorithm: ${header.alg}`);
+  }
+  if (!header.kid) {
+    throw new SessionTokenError("Token is missing a key id");
+  }
+
+  const key = await getSigningKey(header.kid);
+  if (!key) {
+    throw new SessionTokenError("Token signed with an unknown key");
+  }
+
+  const validSignature = crypto.verify(
+    "RSA-SHA256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    base64UrlDecode(encodedSignature)
+  );
+  if (!validSignature) {
+    throw new SessionTokenError("Invalid token signature");
+  }
+
+  const claims = parseSegment<SessionClaims>(encodedPayload, "payload");
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new SessionTokenError("Token is missing a subject");
+  }
+  if (
+    typeof claims.exp !== "number" ||
+    claims.exp + CLOCK_SKEW_SECONDS < nowSeconds
+  ) {
+    throw new SessionTokenError("Token has expired");
+  }
+  if (
+    typeof claims.nbf === "number" &&
+    claims.nbf - CLOCK_SKEW_SECONDS > nowSeconds
+  ) {
+    throw new SessionTokenError("Token is not yet valid");
+  }
+
+  const expectedIssuer =
+    getAuthMode() === "local" ? LOCAL_ISSUER : process.env.CLERK_ISSUER;
+  if (expectedIssuer && claims.iss !== expectedIssuer) {
+    throw new SessionTokenError("Unexpected token issuer");
+  }
+
+  // Clerk sets `azp` to the origin that requested the token
+  const authorizedParties = parseList(process.env.CLERK_AUTHORIZED_PARTIES);
+  if (
+    authorizedParties.length > 0 &&
+    claims.azp &&
+    !authorizedParties.includes(claims.azp)
+  ) {
+    throw new SessionTokenError("Token issued for an unauthorized party");
+  }
+
+  return claims;
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+
+// Secret handed to the reporter when a report is created. Reports stay
+// anonymous; holding the token is the only proof of ownership, so only its
+// SHA-256 hash is stored (reports.tracking_token_hash).
+
+// Tokens accepted by one GET /reports/mine request
+export const MAX_TRACKING_TOKENS = 50;
+
+export function generateTrackingToken(): string {
+  // 32 random bytes -> 43 URL-safe characters
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashTrackingToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function validateTrackingToken(token: unknown): token is string {
+  return typeof token === "string" && /^[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+// Comma-separated tokens from the X-Tracking-Tokens header, de-duplicated
+export function parseTrackingTokens(header: string | undefined): string[] {
+  if (!header) return [];
+  return Array.from(
+    new Set(
+      header
+        .split(",")
+        .map((token) => token.trim())
+        .filter(Boolean)
+    )
+  );
+}
@@ -0,0 +1,14 @@
+import os from "os";
+import path from "path";
+
+// Environment for tests that load app modules. Imported first so it is in
+// place before db/connection and the session verifier read it.
+process.env.POSTGRES_URL = "postgres://test@127.0.0.1:1/test"; // never connected; queries are mocked
+process.env.ADMIN_AUTH_MODE = "local";
+process.env.LOCAL_AUTH_KEY_PATH = path.join(
+  os.tmpdir(),
+  `fmb-test-auth-${process.pid}.pem`
+);
+process.env.INTERNAL_SERVICE_KEY = "test-internal-service-key";
+delete process.env.TRUST_PROXY;
+delete process.env.RATE_LIMIT_STORE;
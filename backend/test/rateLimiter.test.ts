@@ -0,0 +1,195 @@
+import "./helpers/env";
+import { describe, it, before, after, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import * as connection from "../src/db/connection";
+import * as rateLimitStore from "../src/services/rateLimitStore";
+import { reportRateLimit } from "../src/middleware/rateLimiter";
+
+// Must match HOURLY_LIMIT in middleware/rateLimiter.ts
+const HOURLY_LIMIT = 5;
+const ADMIN_USER_ID = "user_admin";
+const DISABLED_USER_ID = "user_disabled";
+
+// scripts/local-token.js signs with LOCAL_AUTH_KEY_PATH (created on first use)
+const { signToken } = require("../scripts/local-token.js") as {
+  signToken: (subject: string, ttlSeconds: number) => string;
+};
+
+// Hourly window only; the daily limit is never reached in these tests
+function createMemoryStore(): rateLimitStore.RateLimitStore {
+  const counts = new Map<string, number>();
+  return {
+    name: "memory",
+    async consume(key, rule) {
+      const current = counts.get(key) || 0;
+      const counted = current < rule.hourlyLimit && current < rule.dailyLimit;
+      const count = counted ? current + 1 : current;
+      counts.set(key, count);
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      return {
+        allowed: counted,
+        hourlyCount: count,
+        dailyCount: count,
+        hourlyResetAt: resetAt,
+        dailyResetAt: resetAt,
+        retryAfterSeconds: counted ? 0 : 3600,
+      };
+    },
+    async cleanup() {
+      return 0;
+    },
+  };
+}
+
+// Well-formed RS256 token signed with a key the server does not know
+function forgeToken(subject: string): string {
+  const { privateKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const now = Math.floor(Date.now() / 1000);
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid: "local-dev" })}.${encode({
+    sub: subject,
+    iss: "fix-my-barangay-local",
+    iat: now,
+    exp: now + 3600,
+  })}`;
+  const signature = crypto.sign("RSA-SHA256", Buffer.from(input), privateKey);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+describe("reportRateLimit privilege bypass", () => {
+  let server: Server;
+  let baseUrl: string;
+  let logs: string[];
+  let warnings: string[];
+
+  before(async () => {
+    // Create the local signing key now, so forged tokens are rejected by
+    // signature checks rather than by a missing key file
+    signToken(ADMIN_USER_ID, 60);
+
+    const app = express();
+    app.post("/api/v1/reports", reportRateLimit, (_req, res) => {
+      res.status(201).json({ success: true });
+    });
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(process.env.LOCAL_AUTH_KEY_PATH!, { force: true });
+  });
+
+  beforeEach(() => {
+    // Fresh counters per test; every request comes from 127.0.0.1
+    const store = createMemoryStore();
+    mock.method(rateLimitStore, "getRateLimitStore", () => store);
+    // admin_users lookup: only ADMIN_USER_ID is an active admin
+    mock.method(connection, "query", async (_text: string, params?: any[]) => ({
+      rows: params?.[0] === ADMIN_USER_ID ? [{ role: "admin" }] : [],
+      rowCount: params?.[0] === ADMIN_USER_ID ? 1 : 0,
+    }));
+
+    logs = [];
+    warnings = [];
+    mock.method(console, "log", (...args: unknown[]) => {
+      logs.push(args.join(" "));
+    });
+    mock.method(console, "warn", (...args: unknown[]) => {
+      warnings.push(args.join(" "));
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function submit(headers: Record<string, string>): Promise<number> {
+    const response = await fetch(`${baseUrl}/api/v1/reports`, {
+      method: "POST",
+      headers,
+    });
+    await response.arrayBuffer();
+    return response.status;
+  }
+
+  // Statuses of HOURLY_LIMIT + 1 submissions
+  async function submitPastLimit(headers: Record<string, string>) {
+    const statuses: number[] = [];
+    for (let i = 0; i <= HOURLY_LIMIT; i++) {
+      statuses.push(await submit(headers));
+    }
+    return statuses;
+  }
+
+  function assertThrottled(statuses: number[]) {
+    assert.deepEqual(statuses.slice(0, HOURLY_LIMIT), Array(HOURLY_LIMIT).fill(201));
+    assert.equal(statuses[HOURLY_LIMIT], 429);
+    assert.ok(!logs.some((line) => line.includes("rate limit bypassed")));
+  }
+
+  it("throttles a made-up Authorization bearer token", async () => {
+    assertThrottled(await submitPastLimit({ Authorization: "Bearer not-a-real-token" }));
+  });
+
+  it("throttles a bearer token signed with an unknown key", async () => {
+    assertThrottled(
+      await submitPastLimit({ Authorization: `Bearer ${forgeToken(ADMIN_USER_ID)}` })
+    );
+  });
+
+  it("throttles a forged __session cookie", async () => {
+    assertThrottled(
+      await submitPastLimit({
+        Cookie: `__session=${forgeToken(ADMIN_USER_ID)}; __client_uat=1700000000`,
+      })
+    );
+  });
+
+  it("throttles a wrong x-internal-service-key and warns about it", async () => {
+    assertThrottled(await submitPastLimit({ "x-internal-service-key": "guessed-key" }));
+    assert.ok(
+      warnings.some((line) => line.includes("Invalid x-internal-service-key"))
+    );
+  });
+
+  it("throttles a valid session of a user who is not an active admin", async () => {
+    assertThrottled(
+      await submitPastLimit({
+        Authorization: `Bearer ${signToken(DISABLED_USER_ID, 3600)}`,
+      })
+    );
+  });
+
+  it("lets the configured internal service key through and logs it", async () => {
+    const statuses = await submitPastLimit({
+      "x-internal-service-key": process.env.INTERNAL_SERVICE_KEY!,
+    });
+    assert.deepEqual(statuses, Array(HOURLY_LIMIT + 1).fill(201));
+    assert.ok(
+      logs.some((line) =>
+        line.includes("Report rate limit bypassed for internal service")
+      )
+    );
+  });
+
+  it("lets a verified admin session through and logs the admin", async () => {
+    const token = signToken(ADMIN_USER_ID, 3600);
+    const statuses = await submitPastLimit({ Cookie: `__session=${token}` });
+    assert.deepEqual(statuses, Array(HOURLY_LIMIT + 1).fill(201));
+    assert.ok(
+      logs.some((line) =>
+        line.includes(`Report rate limit bypassed for admin ${ADMIN_USER_ID}`)
+      )
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import "./helpers/env";
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as connection from "../src/db/connection";
+import { ReportModel } from "../src/models/Report";
+import { MAX_STATUS_NOTE_LENGTH } from "../src/models/ReportHistory";
+import { MAX_ADMIN_NOTE_LENGTH } from "../src/models/AdminNote";
+
+const DUPLICATE_ID = "11111111-1111-4111-8111-111111111111";
+const CANONICAL_ID = "22222222-2222-4222-8222-222222222222";
+
+const REPORT_ROW = {
+  id: DUPLICATE_ID,
+  category: "Infrastructure",
+  description: "Pothole",
+  latitude: 9.7587,
+  longitude: 125.5135,
+  status: "Closed",
+  duplicate_of: CANONICAL_ID,
+};
+
+// CHECK constraints from database/schema.sql, raised like Postgres does
+function checkViolation(constraint: string): Error {
+  return Object.assign(new Error(`violates check constraint "${constraint}"`), {
+    code: "23514",
+  });
+}
+
+describe("ReportModel.merge", () => {
+  let statusNotes: (string | null)[];
+  let adminNotes: string[];
+
+  // Stand-in for a transaction client on a Submitted report with no links
+  const client = {
+    async query(text: string, params: any[] = []) {
+      if (text.includes("SELECT status, duplicate_of, photo_url")) {
+        return { rows: [{ status: "Submitted", duplicate_of: null, photo_url: null }] };
+      }
+      if (text.includes("SELECT status, barangay_id")) {
+        return { rows: [{ status: "Submitted", barangay_id: null }] };
+      }
+      if (text.includes("SELECT duplicate_of FROM reports")) {
+        return { rows: [{ duplicate_of: null }] };
+      }
+      if (text.includes("INSERT INTO report_status_history")) {
+        const note: string | null = params[4];
+        if (note !== null && note.length > MAX_STATUS_NOTE_LENGTH) {
+          throw checkViolation("report_status_history_note_check");
+        }
+        statusNotes.push(note);
+        return { rows: [] };
+      }
+      if (text.includes("INSERT INTO report_admin_notes")) {
+        const body: string = params[1];
+        if (body.length < 1 || body.length > MAX_ADMIN_NOTE_LENGTH) {
+          throw checkViolation("report_admin_notes_body_check");
+        }
+        adminNotes.push(body);
+        return { rows: [{ id: "note", body }] };
+      }
+      if (text.trim().startsWith("UPDATE reports")) {
+        return { rows: [REPORT_ROW] };
+      }
+      return { rows: [] };
+    },
+  };
+
+  beforeEach(() => {
+    statusNotes = [];
+    adminNotes = [];
+    mock.method(connection, "transaction", (callback: (c: any) => Promise<unknown>) =>
+      callback(client)
+    );
+    // findById of the canonical report after the transaction
+    mock.method(connection, "query", async () => ({
+      rows: [{ ...REPORT_ROW, id: CANONICAL_ID, status: "Submitted", duplicate_of: null }],
+    }));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("accepts a reason of exactly MAX_STATUS_NOTE_LENGTH characters", async () => {
+    const reason = "x".repeat(MAX_STATUS_NOTE_LENGTH);
+
+    const result = await ReportModel.merge(DUPLICATE_ID, CANONICAL_ID, reason, {
+      actor: "user_admin",
+    });
+
+    assert.ok(result);
+    assert.equal(result.duplicate.id, DUPLICATE_ID);
+    assert.equal(result.canonical.id, CANONICAL_ID);
+    // Status history keeps the plain reason; the admin log names the canonical report
+    assert.deepEqual(statusNotes, [reason]);
+    assert.deepEqual(adminNotes, [`Merged into ${CANONICAL_ID}: ${reason}`]);
+  });
+});
@@ -1,42 +1,61 @@
 "use client";
 import React, { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { reportsApi } from "@/services/api";
-import { Category, Report, ReportsResponse } from "@/types";
+import { adminApi } from "@/services/api";
+import { Category, ReportCategory, ReportStats, ReportStatsFilters } from "@/types";
 import { categoriesApi } from "@/services/api";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAdminToken } from "@/hooks/useAdminToken";
 
-// Fetch all pages utility (clamps per backend, continues until no more results or safety cap)
-async function fetchAllReports(): Promise<Report[]> {
-  const pageSizeRequested = 500; // request large; backend may clamp
-  let offset = 0;
-  let collected: Report[] = [];
-  for (let i = 0; i < 20; i++) { // safety cap 20 pages
-    const res: ReportsResponse = await reportsApi.getReports({ limit: pageSizeRequested, offset });
-    collected = collected.concat(res.reports);
-    if (!res.hasMore) break;
-    offset += res.limit; // use applied limit
-  }
-  return collected;
+const STATUS_LABELS: Record<keyof ReportStats["statusBreakdown"], string> = {
+  submitted: "Submitted",
+  "in-review": "In Review",
+  "in-progress": "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+const BACKLOG_LABELS: Record<Exclude<keyof ReportStats["backlogAge"], "open">, string> = {
+  under24Hours: "< 24h",
+  days1to7: "1–7 days",
+  days7to30: "7–30 days",
+  over30Days: "> 30 days",
+};
+
+// Convert a yyyy-mm-dd input value into an ISO bound (start or end of day)
+function toIsoBound(value: string, endOfDay: boolean): string | undefined {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).toISOString();
 }
 
 export default function AnalyticsPage() {
-  const [reports, setReports] = useState<Report[]>([]);
+  const [stats, setStats] = useState<ReportStats | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [category, setCategory] = useState<ReportCategory | undefined>();
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const getToken = useAdminToken();
+
+  useEffect(() => {
+    categoriesApi.getCategories().then(res => setCategories(res.categories));
+  }, []);
 
   useEffect(() => {
     async function fetchData() {
       setLoading(true);
       setError("");
       try {
-        const [catRes, allReports] = await Promise.all([
-          categoriesApi.getCategories(),
-          fetchAllReports(),
-        ]);
-        setCategories(catRes.categories);
-        setReports(allReports);
+        const filters: ReportStatsFilters = {
+          category,
+          from: toIsoBound(fromDate, false),
+          to: toIsoBound(toDate, true),
+        };
+        setStats(await adminApi.getStats(filters, await getToken()));
       } catch (e) {
         setError(e instanceof Error ? e.message : "Failed to load analytics data");
       } finally {
@@ -44,29 +63,55 @@ export default function AnalyticsPage() {
       }
     }
     fetchData();
-  }, []);
+  }, [category, fromDate, toDate, getToken]);
 
-  // Compute stats
-  const total = reports.length;
-  const byCategory: Record<string, number> = {};
-  const byStatus: Record<string, number> = {};
-  reports.forEach(r => {
-    byCategory[r.category] = (byCategory[r.category] || 0) + 1;
-    byStatus[r.status] = (byStatus[r.status] || 0) + 1;
-  });
+  const clearFilters = () => {
+    setCategory(undefined);
+    setFromDate("");
+    setToDate("");
+  };
 
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold">Report Analytics</h1>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Category</label>
+          <Select value={category || "all"} onValueChange={v => setCategory(v === "all" ? undefined : v as ReportCategory)}>
+            <SelectTrigger><SelectValue placeholder="All categories" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map(cat => (
+                <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="stats-from">From</label>
+          <Input id="stats-from" type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="stats-to">To</label>
+          <Input id="stats-to" type="date" value={toDate} onChange={e => setToDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">&nbsp;</label>
+          <Button variant="outline" className="w-full" onClick={clearFilters}>Clear Filters</Button>
+        </div>
+      </div>
+
       {loading && <div>Loading analytics...</div>}
       {error && <div className="text-red-600">{error}</div>}
-      {!loading && !error && (
+      {!loading && !error && stats && (
         <>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Card>
               <CardHeader><CardTitle>Total Reports</CardTitle></CardHeader>
               <CardContent>
-                <div className="text-3xl font-bold">{total}</div>
+                <div className="text-3xl font-bold">{stats.totalReports}</div>
               </CardContent>
             </Card>
             <Card>
@@ -75,7 +120,7 @@ export default function AnalyticsPage() {
                 <div className="flex flex-wrap gap-2">
                   {categories.map(cat => (
                     <Badge key={cat.id} style={{ backgroundColor: cat.color, color: '#fff' }}>
-                      {cat.name}: {byCategory[cat.id] || 0}
+                      {cat.name}: {stats.categoryBreakdown[cat.id.toLowerCase() as keyof ReportStats["categoryBreakdown"]] || 0}
                     </Badge>
                   ))}
                 </div>
@@ -85,13 +130,46 @@ export default function AnalyticsPage() {
               <CardHeader><CardTitle>By Status</CardTitle></CardHeader>
               <CardContent>
                 <div className="flex flex-wrap gap-2">
-                  {Object.entries(byStatus).map(([status, count]) => (
-                    <Badge key={status}>{status}: {count}</Badge>
+                  {Object.entries(STATUS_LABELS).map(([key, label]) => (
+                    <Badge key={key}>{label}: {stats.statusBreakdown[key as keyof ReportStats["statusBreakdown"]]}</Badge>
                   ))}
                 </div>
               </CardContent>
             </Card>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader><CardTitle>Recent Activity</CardTitle></CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between"><span>Last 24 hours</span><span className="font-semibold">{stats.recentActivity.last24Hours}</span></div>
+                <div className="flex justify-between"><span>Last 7 days</span><span className="font-semibold">{stats.recentActivity.last7Days}</span></div>
+                <div className="flex justify-between"><span>Last 30 days</span><span className="font-semibold">{stats.recentActivity.last30Days}</span></div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>Time to Resolution</CardTitle></CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">
+                  {stats.resolution.medianHours === null ? "—" : `${stats.resolution.medianHours}h`}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Median across {stats.resolution.resolvedCount} resolved report(s)
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>Open Backlog ({stats.backlogAge.open})</CardTitle></CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {Object.entries(BACKLOG_LABELS).map(([key, label]) => (
+                  <div key={key} className="flex justify-between">
+                    <span>{label}</span>
+                    <span className="font-semibold">{stats.backlogAge[key as keyof typeof BACKLOG_LABELS]}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
         </>
       )}
     </div>
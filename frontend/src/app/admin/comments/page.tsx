@@ -0,0 +1,214 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { CommentStatus, ReportComment } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { adminApi } from '@/services/api';
+import { useAdminToken } from '@/hooks/useAdminToken';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Moderation queue for held comments, or the full thread of one report (?report=<id>)
+export default function AdminCommentsPage() {
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [status, setStatus] = useState<CommentStatus>('pending');
+  const [reportInput, setReportInput] = useState('');
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const getToken = useAdminToken();
+
+  // Opened from a report ("Comments" link)
+  useEffect(() => {
+    const fromQuery = new URLSearchParams(window.location.search).get('report');
+    if (fromQuery && UUID_PATTERN.test(fromQuery)) {
+      setReportInput(fromQuery);
+      setReportId(fromQuery);
+    }
+  }, []);
+
+  const fetchComments = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getToken();
+      setComments(reportId
+        ? await adminApi.getReportComments(reportId, token)
+        : await adminApi.getComments(status, token));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, reportId]);
+
+  // Runs a change for one comment, then reloads the list
+  const runForComment = async (id: string, action: () => Promise<unknown>): Promise<void> => {
+    try {
+      setError(null);
+      setUpdating(id);
+      await action();
+      await fetchComments();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const applyReportFilter = (e: React.FormEvent): void => {
+    e.preventDefault();
+    const id = reportInput.trim();
+    if (id && !UUID_PATTERN.test(id)) {
+      setError('Report ID must be a valid UUID');
+      return;
+    }
+    setReportId(id || null);
+  };
+
+  const postReply = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!reportId || !reply.trim()) return;
+    await runForComment('reply', async () => {
+      await adminApi.postOfficialComment(reportId, reply.trim(), await getToken());
+      setReply('');
+    });
+  };
+
+  const deleteComment = async (comment: ReportComment): Promise<void> => {
+    if (!window.confirm('Delete this comment permanently?')) return;
+    await runForComment(comment.id, async () => adminApi.deleteComment(comment.id, await getToken()));
+  };
+
+  const statusBadge = (value?: CommentStatus) => {
+    if (value === 'pending') return <Badge className="bg-yellow-100 text-yellow-800">Held for review</Badge>;
+    if (value === 'hidden') return <Badge variant="outline">Hidden</Badge>;
+    return <Badge className="bg-green-100 text-green-800">Visible</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Comments</h1>
+        <Button variant="outline" onClick={fetchComments} disabled={loading}>Refresh</Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 flex flex-wrap gap-2">
+          <form onSubmit={applyReportFilter} className="flex flex-wrap gap-2 flex-1">
+            <Input
+              className="w-[320px]"
+              placeholder="Report ID (show its whole thread)"
+              value={reportInput}
+              onChange={e => setReportInput(e.target.value)}
+              aria-label="Report ID"
+            />
+            <Button type="submit" variant="outline">Open thread</Button>
+            {reportId && (
+              <Button type="button" variant="ghost" onClick={() => { setReportInput(''); setReportId(null); }}>
+                Back to queue
+              </Button>
+            )}
+          </form>
+          {!reportId && (
+            <Select value={status} onValueChange={v => setStatus(v as CommentStatus)}>
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Held for review</SelectItem>
+                <SelectItem value="hidden">Hidden</SelectItem>
+                <SelectItem value="visible">Visible</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </CardContent>
+      </Card>
+
+      {reportId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Official reply</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={postReply} className="space-y-2">
+              <Textarea
+                value={reply}
+                onChange={e => setReply(e.target.value)}
+                placeholder="Shown to residents with an Official badge"
+                maxLength={1000}
+                rows={3}
+                aria-label="Official reply"
+              />
+              <Button type="submit" disabled={updating === 'reply' || !reply.trim()}>Post reply</Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {loading && <div className="text-sm text-muted-foreground">Loading comments...</div>}
+
+      <div className="space-y-3">
+        {comments.map(c => (
+          <Card key={c.id} className={c.status === 'hidden' ? 'opacity-60' : undefined}>
+            <CardContent className="p-4 space-y-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                {c.is_official && <Badge className="bg-blue-600 text-white">Official</Badge>}
+                {statusBadge(c.status)}
+                {c.moderation_reason && c.status === 'pending' && <span>Flagged: {c.moderation_reason}</span>}
+                <span>{c.author_email || c.author_ip || 'Unknown author'}</span>
+                <span>{formatDistanceToNow(new Date(c.created_at), { addSuffix: true })}</span>
+                {!reportId && (
+                  <Link href={`/reports/${c.report_id}`} className="text-blue-600 hover:underline font-mono ml-auto">
+                    Report {c.report_id.slice(0, 8)}
+                  </Link>
+                )}
+              </div>
+              <p className="whitespace-pre-wrap break-words">{c.body}</p>
+              <div className="flex flex-wrap gap-2">
+                {c.status !== 'visible' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={updating === c.id}
+                    onClick={() => runForComment(c.id, async () => adminApi.moderateComment(c.id, 'visible', await getToken()))}
+                  >
+                    Publish
+                  </Button>
+                )}
+                {c.status !== 'hidden' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={updating === c.id}
+                    onClick={() => runForComment(c.id, async () => adminApi.moderateComment(c.id, 'hidden', await getToken()))}
+                  >
+                    Hide
+                  </Button>
+                )}
+                <Button size="sm" variant="destructive" disabled={updating === c.id} onClick={() => deleteComment(c)}>
+                  Delete
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {comments.length === 0 && !loading && !error && (
+        <div className="text-sm text-muted-foreground">No comments found.</div>
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,15 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   FileText, 
   BarChart3, 
+  Users,
+  MessageCircle,
   AlertTriangle,
   CheckCircle,
   Clock
 } from 'lucide-react';
 import MetricsGrid, { MetricsData } from '@/components/MetricsGrid';
-import { reportsApi } from '@/services/api';
+import { adminApi } from '@/services/api';
+import { useAdminToken } from '@/hooks/useAdminToken';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import RecentActivity from '@/components/RecentActivity';
@@ -29,19 +32,19 @@ function AdminDashboard() {
     resolved: '…',
   });
   const [loadingMetrics, setLoadingMetrics] = useState(true);
+  const getToken = useAdminToken();
 
   useEffect(() => {
     const load = async () => {
       try {
         setLoadingMetrics(true);
-        // Fetch a large batch; backend should paginate, but we assume cap is safe
-        const response = await reportsApi.getReports({ limit: 500, offset: 0 });
-        const all = response.reports;
+        // Counts are aggregated server-side
+        const stats = await adminApi.getStats({}, await getToken());
         const computed: MetricsData = {
-          total: response.total ?? all.length,
-          submitted: all.filter(r => r.status === 'Submitted').length,
-          inProgress: all.filter(r => r.status === 'In Progress' || r.status === 'In Review').length,
-          resolved: all.filter(r => r.status === 'Resolved').length,
+          total: stats.totalReports,
+          submitted: stats.statusBreakdown.submitted,
+          inProgress: stats.statusBreakdown['in-progress'] + stats.statusBreakdown['in-review'],
+          resolved: stats.statusBreakdown.resolved,
         };
         setMetrics(computed);
       } catch (e) {
@@ -52,7 +55,7 @@ function AdminDashboard() {
       }
     };
     load();
-  }, []);
+  }, [getToken]);
 
   if (!isLoaded) {
     return (
@@ -122,6 +125,40 @@ function AdminDashboard() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageCircle className="h-5 w-5" />
+              Comments
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-gray-600 mb-4">
+              Review held comments, hide or delete posts, and reply officially
+            </p>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/admin/comments">Moderate Comments</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Admin Users
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-gray-600 mb-4">
+              Add staff, change roles, and disable or remove accounts
+            </p>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/admin/users">Manage Users</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
       </div>
 
       {/* Recent Activity */}
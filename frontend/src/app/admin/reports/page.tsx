@@ -1,30 +1,63 @@
 "use client";
 import React, { useEffect, useState } from 'react';
-import { Report, ReportStatus } from '@/types';
+import Link from 'next/link';
+import { AdminNote, Barangay, BulkReportRequest, DuplicateCandidate, Report, ReportStatus, ReportStatusChange } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import SearchHighlight from '@/components/SearchHighlight';
+import StatusTimeline from '@/components/StatusTimeline';
+import BulkActionBar from '@/components/BulkActionBar';
+import { adminApi, barangaysApi } from '@/services/api';
+import { useAdminToken } from '@/hooks/useAdminToken';
+import { getStatusOptions, isReopenTransition } from '@/lib/statusWorkflow';
 
 type AdminReport = Report;
 
-const STATUS_OPTIONS: ReportStatus[] = [
-  'Submitted', 'In Review', 'In Progress', 'Resolved', 'Closed'
-];
-
 export default function AdminReportsPage() {
   const [reports, setReports] = useState<AdminReport[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  // Optional note saved with the next status change, per report
+  const [statusNotes, setStatusNotes] = useState<Record<string, string>>({});
+  // Optional message for residents shown with the next status change, per report
+  const [publicMessages, setPublicMessages] = useState<Record<string, string>>({});
+  // Expanded status history (with actors), per report
+  const [history, setHistory] = useState<Record<string, ReportStatusChange[]>>({});
+  // Expanded internal notes log and the note being written, per report
+  const [notes, setNotes] = useState<Record<string, AdminNote[]>>({});
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  // Expanded duplicate candidates, per report
+  const [candidates, setCandidates] = useState<Record<string, DuplicateCandidate[]>>({});
+  // Report IDs checked for bulk actions
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Queue filters: "all", "me" (my queue) or "none" (unassigned); department key
+  const [queue, setQueue] = useState<'all' | 'me' | 'none'>('all');
+  const [department, setDepartment] = useState<string>('all');
+  const [departments, setDepartments] = useState<Record<string, string>>({});
+  // Barangay filter (the server limits barangay officials to their own)
+  const [barangay, setBarangay] = useState<string>('all');
+  const [barangays, setBarangays] = useState<Barangay[]>([]);
+  const getToken = useAdminToken();
 
   const fetchReports = async (): Promise<void> => {
     setLoading(true);
     setError(null);
     try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/v1/admin/reports`);
-      if (!res.ok) throw new Error('Failed to fetch reports');
-      const data = await res.json();
-      setReports(data.data.reports || []);
+      const data = await adminApi.getReports({
+        search: search || undefined,
+        assigned_to: queue === 'all' ? undefined : queue,
+        department: department === 'all' ? undefined : department,
+        barangay: barangay === 'all' ? undefined : barangay,
+      }, await getToken());
+      const loaded = data.reports || [];
+      setReports(loaded);
+      // Drop selections that are no longer listed (deleted or filtered out)
+      setSelected(prev => new Set(loaded.filter(r => prev.has(r.id)).map(r => r.id)));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Unknown error');
     } finally {
@@ -32,17 +65,101 @@ export default function AdminReportsPage() {
     }
   };
 
-  useEffect(() => { fetchReports(); }, []);
+  useEffect(() => {
+    fetchReports();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search, queue, department, barangay]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const routing = await adminApi.getRoutingRules(await getToken());
+        setDepartments(routing.departments);
+      } catch (e) {
+        console.error('Failed to load departments:', e);
+      }
+    })();
+    barangaysApi.getBarangays()
+      .then(res => setBarangays(res.barangays))
+      .catch(e => console.error('Failed to load barangays:', e));
+  }, [getToken]);
+
+  // Debounce keyword search (description, address, admin notes)
+  useEffect(() => {
+    const handle = setTimeout(() => setSearch(searchInput.trim()), 350);
+    return () => clearTimeout(handle);
+  }, [searchInput]);
+
+  const updateStatus = async (report: AdminReport, status: ReportStatus): Promise<void> => {
+    const id = report.id;
+    const note = statusNotes[id]?.trim() || undefined;
+    const publicMessage = publicMessages[id]?.trim() || undefined;
+    if (isReopenTransition(report.status, status) && !note) {
+      setError(`Enter a reason in the note field to reopen this ${report.status.toLowerCase()} report.`);
+      return;
+    }
+    try {
+      setError(null);
+      setUpdating(id);
+      await adminApi.updateReport(id, { status, note, public_message: publicMessage }, await getToken());
+      setStatusNotes(prev => ({ ...prev, [id]: '' }));
+      setPublicMessages(prev => ({ ...prev, [id]: '' }));
+      if (history[id]) await loadHistory(id);
+      await fetchReports();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUpdating(null);
+    }
+  };
 
-  const updateStatus = async (id: string, status: ReportStatus): Promise<void> => {
+  const assign = async (id: string, assignment: { assigned_to?: string | null; department?: string | null }): Promise<void> => {
     try {
+      setError(null);
       setUpdating(id);
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/v1/admin/reports/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
+      await adminApi.assignReport(id, assignment, await getToken());
+      await fetchReports();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const toggleCandidates = async (id: string): Promise<void> => {
+    if (candidates[id]) {
+      setCandidates(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      return;
+    }
+    try {
+      const found = await adminApi.getDuplicateCandidates(id, await getToken());
+      setCandidates(prev => ({ ...prev, [id]: found }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  // Merges report `id` into `canonicalId`; the note field supplies the required reason
+  const merge = async (id: string, canonicalId: string): Promise<void> => {
+    const reason = statusNotes[id]?.trim();
+    if (!reason) {
+      setError('Enter a reason in the note field to merge this report.');
+      return;
+    }
+    try {
+      setError(null);
+      setUpdating(id);
+      await adminApi.mergeReport(id, canonicalId, reason, await getToken());
+      setStatusNotes(prev => ({ ...prev, [id]: '' }));
+      setCandidates(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
       });
-      if (!res.ok) throw new Error('Failed to update status');
       await fetchReports();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Unknown error');
@@ -51,12 +168,136 @@ export default function AdminReportsPage() {
     }
   };
 
+  const toggleSelected = (id: string): void => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = reports.length > 0 && reports.every(r => selected.has(r.id));
+  const toggleSelectAll = (): void => {
+    setSelected(allSelected ? new Set() : new Set(reports.map(r => r.id)));
+  };
+
+  const runBulk = async (request: Omit<BulkReportRequest, 'ids'>) => {
+    const response = await adminApi.bulkUpdate({ ...request, ids: Array.from(selected) }, await getToken());
+    if (!request.dryRun) await fetchReports();
+    return response;
+  };
+
+  const loadHistory = async (id: string): Promise<void> => {
+    try {
+      const entries = await adminApi.getReportHistory(id, await getToken());
+      setHistory(prev => ({ ...prev, [id]: entries }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const toggleHistory = (id: string): void => {
+    if (history[id]) {
+      setHistory(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } else {
+      loadHistory(id);
+    }
+  };
+
+  const toggleNotes = async (id: string): Promise<void> => {
+    if (notes[id]) {
+      setNotes(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      return;
+    }
+    try {
+      const entries = await adminApi.getNotes(id, await getToken());
+      setNotes(prev => ({ ...prev, [id]: entries }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  // Notes are append-only; the server returns the whole log after adding one
+  const addNote = async (e: React.FormEvent, id: string): Promise<void> => {
+    e.preventDefault();
+    const body = noteDrafts[id]?.trim();
+    if (!body) return;
+    try {
+      setError(null);
+      setUpdating(id);
+      const entries = await adminApi.addNote(id, body, await getToken());
+      setNotes(prev => ({ ...prev, [id]: entries }));
+      setNoteDrafts(prev => ({ ...prev, [id]: '' }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Reports</h1>
         <Button variant="outline" onClick={fetchReports} disabled={loading}>Refresh</Button>
       </div>
+      <Input
+        type="search"
+        placeholder="Search descriptions, addresses and admin notes"
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        aria-label="Search reports"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Select value={queue} onValueChange={(v) => setQueue(v as 'all' | 'me' | 'none')}>
+          <SelectTrigger className="w-[170px]" aria-label="Queue"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reports</SelectItem>
+            <SelectItem value="me">My queue</SelectItem>
+            <SelectItem value="none">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={department} onValueChange={setDepartment}>
+          <SelectTrigger className="w-[200px]" aria-label="Department"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All departments</SelectItem>
+            {Object.entries(departments).map(([key, label]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {barangays.length > 0 && (
+          <Select value={barangay} onValueChange={setBarangay}>
+            <SelectTrigger className="w-[200px]" aria-label="Barangay"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All barangays</SelectItem>
+              {barangays.map(b => (
+                <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {reports.length > 0 && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" className="h-4 w-4" checked={allSelected} onChange={toggleSelectAll} />
+          Select all ({reports.length})
+        </label>
+      )}
+      <BulkActionBar
+        selectedCount={selected.size}
+        onSubmit={runBulk}
+        onClearSelection={() => setSelected(new Set())}
+      />
       {error && <div className="text-sm text-red-600">{error}</div>}
       {loading && <div className="text-sm text-muted-foreground">Loading reports...</div>}
       <div className="grid gap-4 md:grid-cols-2">
@@ -64,28 +305,155 @@ export default function AdminReportsPage() {
           <Card key={r.id}>
             <CardHeader>
               <CardTitle className="text-base flex justify-between items-center">
-                <span>{r.category}</span>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={selected.has(r.id)}
+                    onChange={() => toggleSelected(r.id)}
+                    aria-label={`Select report ${r.id}`}
+                  />
+                  <span>{r.category}</span>
+                </label>
                 <span className="text-xs text-muted-foreground">{new Date(r.created_at).toLocaleString()}</span>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3 text-sm">
-              <p>{r.description}</p>
-              <p className="text-xs text-muted-foreground">{r.location.latitude.toFixed(5)}, {r.location.longitude.toFixed(5)}</p>
+              <p>{r.highlights?.description ? <SearchHighlight text={r.highlights.description} /> : r.description}</p>
+              {r.highlights?.address && (
+                <p className="text-xs"><SearchHighlight text={r.highlights.address} /></p>
+              )}
+              {r.highlights?.admin_notes && (
+                <p className="text-xs text-muted-foreground">Notes: <SearchHighlight text={r.highlights.admin_notes} /></p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {r.barangay_name ? `Brgy. ${r.barangay_name} · ` : ''}{r.location.latitude.toFixed(5)}, {r.location.longitude.toFixed(5)}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono select-all">{r.id}</p>
+              {r.duplicate_of && (
+                <p className="text-xs text-muted-foreground">Duplicate of <span className="font-mono">{r.duplicate_of}</span></p>
+              )}
+              {!!r.duplicate_count && (
+                <p className="text-xs text-muted-foreground">{r.duplicate_count} merged duplicate(s)</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  Assigned: {r.assigned_to_email || r.assigned_to || 'Unassigned'}
+                </span>
+                <Select
+                  value={r.department || 'none'}
+                  onValueChange={(val) => assign(r.id, { department: val === 'none' ? null : val })}
+                >
+                  <SelectTrigger className="w-[180px] h-8 text-xs" aria-label="Department"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No department</SelectItem>
+                    {Object.entries(departments).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="outline" disabled={updating === r.id} onClick={() => assign(r.id, { assigned_to: 'me' })}>
+                  Assign to me
+                </Button>
+                {r.assigned_to && (
+                  <Button size="sm" variant="ghost" disabled={updating === r.id} onClick={() => assign(r.id, { assigned_to: null })}>
+                    Unassign
+                  </Button>
+                )}
+              </div>
               <div className="flex items-center gap-2">
-                <Select value={r.status} onValueChange={(val) => updateStatus(r.id, val as ReportStatus)}>
+                <Select value={r.status} onValueChange={(val) => updateStatus(r, val as ReportStatus)}>
                   <SelectTrigger className="w-[160px]">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {STATUS_OPTIONS.map(s => (
+                    {getStatusOptions(r.status).map(s => (
                       <SelectItem key={s} value={s}>{s}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                <Button size="sm" variant="secondary" disabled={updating === r.id} onClick={() => updateStatus(r.id, r.status)}>
+                <Button size="sm" variant="secondary" disabled={updating === r.id} onClick={() => updateStatus(r, r.status)}>
                   {updating === r.id ? 'Updating...' : 'Apply'}
                 </Button>
+                <Button size="sm" variant="ghost" onClick={() => toggleHistory(r.id)}>
+                  {history[r.id] ? 'Hide history' : 'History'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => toggleNotes(r.id)}>
+                  {notes[r.id] ? 'Hide notes' : 'Notes'}
+                </Button>
+                {!r.duplicate_of && (
+                  <Button size="sm" variant="ghost" onClick={() => toggleCandidates(r.id)}>
+                    {candidates[r.id] ? 'Hide duplicates' : 'Duplicates'}
+                  </Button>
+                )}
+                <Button asChild size="sm" variant="ghost">
+                  <Link href={`/admin/comments?report=${r.id}`}>Comments</Link>
+                </Button>
               </div>
+              <Input
+                placeholder={r.status === 'Resolved' || r.status === 'Closed' ? 'Internal reason (required to reopen)' : 'Internal note for next status change (optional)'}
+                maxLength={500}
+                value={statusNotes[r.id] || ''}
+                onChange={(e) => setStatusNotes(prev => ({ ...prev, [r.id]: e.target.value }))}
+                aria-label="Status change note"
+              />
+              <Input
+                placeholder="Public update for residents with the next status change (optional)"
+                maxLength={500}
+                value={publicMessages[r.id] || ''}
+                onChange={(e) => setPublicMessages(prev => ({ ...prev, [r.id]: e.target.value }))}
+                aria-label="Public update"
+              />
+              {history[r.id] && (
+                <StatusTimeline createdAt={r.created_at} history={history[r.id]} showActors />
+              )}
+              {notes[r.id] && (
+                <div className="space-y-2 border-t pt-2">
+                  {notes[r.id].length === 0 && (
+                    <p className="text-xs text-muted-foreground">No internal notes yet.</p>
+                  )}
+                  {notes[r.id].map(n => (
+                    <div key={n.id} className="text-xs">
+                      <p className="whitespace-pre-wrap">{n.body}</p>
+                      <p className="text-muted-foreground">
+                        {n.created_by_email || n.created_by || 'Unknown'} · {new Date(n.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  ))}
+                  <form onSubmit={(e) => addNote(e, r.id)} className="flex gap-2">
+                    <Input
+                      placeholder="Add internal note (not shown publicly)"
+                      maxLength={1000}
+                      value={noteDrafts[r.id] || ''}
+                      onChange={(e) => setNoteDrafts(prev => ({ ...prev, [r.id]: e.target.value }))}
+                      aria-label="Internal note"
+                    />
+                    <Button type="submit" size="sm" variant="outline" disabled={updating === r.id || !noteDrafts[r.id]?.trim()}>
+                      Add
+                    </Button>
+                  </form>
+                </div>
+              )}
+              {candidates[r.id] && (
+                <div className="space-y-2 border-t pt-2">
+                  {candidates[r.id].length === 0 && (
+                    <p className="text-xs text-muted-foreground">No likely duplicates nearby.</p>
+                  )}
+                  {candidates[r.id].map(c => (
+                    <div key={c.id} className="flex items-start justify-between gap-2 text-xs">
+                      <div>
+                        <span className="font-medium">{Math.round(c.confidence * 100)}% match</span>
+                        {' · '}{c.category} · {c.distance_m} m · {c.status}
+                        <p className="text-muted-foreground line-clamp-2">{c.description}</p>
+                        <p className="text-muted-foreground font-mono">{c.id}</p>
+                      </div>
+                      <Button size="sm" variant="outline" disabled={updating === r.id} onClick={() => merge(r.id, c.id)}>
+                        Merge into
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
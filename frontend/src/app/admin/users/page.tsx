@@ -0,0 +1,167 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AdminRole, AdminUser, Barangay } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { adminApi, barangaysApi } from '@/services/api';
+import { useAdminToken } from '@/hooks/useAdminToken';
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [newUserId, setNewUserId] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState<AdminRole>('moderator');
+  const [barangays, setBarangays] = useState<Barangay[]>([]);
+  const getToken = useAdminToken();
+
+  const fetchUsers = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await adminApi.getUsers(await getToken()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+    barangaysApi.getBarangays()
+      .then(res => setBarangays(res.barangays))
+      .catch(e => console.error('Failed to load barangays:', e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Runs a change for one user, then reloads the list (server enforces the last-admin guard)
+  const runForUser = async (id: string, action: () => Promise<unknown>): Promise<void> => {
+    try {
+      setError(null);
+      setUpdating(id);
+      await action();
+      await fetchUsers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const addUser = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!newUserId.trim() || !newEmail.trim()) return;
+    await runForUser('new', async () => {
+      await adminApi.createUser({ clerk_user_id: newUserId.trim(), email: newEmail.trim(), role: newRole }, await getToken());
+      setNewUserId('');
+      setNewEmail('');
+      setNewRole('moderator');
+    });
+  };
+
+  const deleteUser = async (user: AdminUser): Promise<void> => {
+    if (!window.confirm(`Remove ${user.email} from admin users?`)) return;
+    await runForUser(user.clerk_user_id, async () => adminApi.deleteUser(user.clerk_user_id, await getToken()));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Admin Users</h1>
+        <Button variant="outline" onClick={fetchUsers} disabled={loading}>Refresh</Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Add user</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={addUser} className="flex flex-wrap gap-2">
+            <Input className="w-[220px]" placeholder="Clerk user ID (user_...)" value={newUserId} onChange={e => setNewUserId(e.target.value)} aria-label="Clerk user ID" />
+            <Input className="w-[240px]" type="email" placeholder="Email" value={newEmail} onChange={e => setNewEmail(e.target.value)} aria-label="Email" />
+            <Select value={newRole} onValueChange={v => setNewRole(v as AdminRole)}>
+              <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="moderator">Moderator</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={updating === 'new' || !newUserId.trim() || !newEmail.trim()}>Add</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {loading && <div className="text-sm text-muted-foreground">Loading users...</div>}
+
+      <div className="space-y-3">
+        {users.map(u => (
+          <Card key={u.clerk_user_id} className={u.disabled_at ? 'opacity-60' : undefined}>
+            <CardContent className="p-4 flex flex-wrap items-center gap-3 text-sm">
+              <div className="flex-1 min-w-[220px]">
+                <div className="font-medium flex items-center gap-2">
+                  {u.email}
+                  {u.disabled_at && <Badge variant="outline">Disabled</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono">{u.clerk_user_id}</div>
+                <div className="text-xs text-muted-foreground">
+                  Last login: {u.last_login ? formatDistanceToNow(new Date(u.last_login), { addSuffix: true }) : 'never'}
+                  {' · '}{u.assigned_reports ?? 0} open assigned report(s)
+                </div>
+                {u.role === 'moderator' && u.barangay_name && (
+                  <div className="text-xs text-muted-foreground">Barangay official: {u.barangay_name} only</div>
+                )}
+              </div>
+              <Select
+                value={u.role}
+                onValueChange={v => runForUser(u.clerk_user_id, async () => adminApi.updateUser(u.clerk_user_id, { role: v as AdminRole }, await getToken()))}
+              >
+                <SelectTrigger className="w-[130px]" disabled={updating === u.clerk_user_id}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="moderator">Moderator</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+              {/* A barangay limits moderators to that area; admins stay city-wide */}
+              {barangays.length > 0 && (
+                <Select
+                  value={u.barangay_id || 'all'}
+                  onValueChange={v => runForUser(u.clerk_user_id, async () => adminApi.updateUser(u.clerk_user_id, { barangay_id: v === 'all' ? null : v }, await getToken()))}
+                >
+                  <SelectTrigger className="w-[170px]" disabled={updating === u.clerk_user_id} aria-label="Barangay"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">City-wide</SelectItem>
+                    {barangays.map(b => (
+                      <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={updating === u.clerk_user_id}
+                onClick={() => runForUser(u.clerk_user_id, async () => adminApi.updateUser(u.clerk_user_id, { disabled: !u.disabled_at }, await getToken()))}
+              >
+                {u.disabled_at ? 'Enable' : 'Disable'}
+              </Button>
+              <Button size="sm" variant="destructive" disabled={updating === u.clerk_user_id} onClick={() => deleteUser(u)}>
+                Delete
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {users.length === 0 && !loading && !error && (
+        <div className="text-sm text-muted-foreground">No admin users found.</div>
+      )}
+    </div>
+  );
+}
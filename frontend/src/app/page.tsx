@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import AppIcon from '@/components/AppIcon';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,7 +11,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { PlusCircle, List, Map, AlertTriangle, MapPin } from 'lucide-react';
+import { PlusCircle, List, Map, AlertTriangle, MapPin, FileText } from 'lucide-react';
 import MetricsGrid from '@/components/MetricsGrid';
 import ReportForm from '@/components/ReportForm';
 import ReportsList from '@/components/ReportsList';
@@ -34,6 +35,7 @@ export default function Home() {
     loading, 
     error, 
     total, 
+    filters,
     refreshReports 
   } = useReports();
 
@@ -80,6 +82,12 @@ export default function Home() {
             </div>
             
             <div className="flex items-center gap-3">
+              <Button variant="outline" asChild className="flex items-center gap-1.5 px-2 sm:px-3">
+                <Link href="/reports/mine" aria-label="My Reports">
+                  <FileText className="h-4 w-4" />
+                  <span className="hidden sm:inline">My Reports</span>
+                </Link>
+              </Button>
               <AdminAccessButton />
               <InstallPWA />
               <Button
@@ -112,6 +120,7 @@ export default function Home() {
               <div className="mt-4">
                 <ReportForm 
                   onSubmitSuccess={handleReportSubmit}
+                  onSupportSuccess={handleReportSubmit}
                   onSubmitError={(error) => console.error('Form error:', error)}
                 />
               </div>
@@ -190,6 +199,7 @@ export default function Home() {
               <CardContent>
                 <MapView
                   reports={reports}
+                  filters={filters}
                   onReportClick={handleReportClick}
                   className="h-96"
                   showUserLocation
@@ -238,15 +248,6 @@ export default function Home() {
                   </div>
                 </div>
 
-                {selectedReport.admin_notes && (
-                  <div>
-                    <p className="font-medium text-sm">Admin Notes:</p>
-                    <p className="text-sm text-gray-600 mt-1">
-                      {selectedReport.admin_notes}
-                    </p>
-                  </div>
-                )}
-
                 {selectedReport.photo_url && (
                   <div>
                     <p className="font-medium text-sm mb-2">Photo:</p>
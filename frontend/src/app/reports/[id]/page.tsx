@@ -14,11 +14,16 @@ import {
   AlertTriangle,
   MessageSquare,
   Camera,
-  ExternalLink
+  ExternalLink,
+  History,
+  Users
 } from 'lucide-react';
 import { reportsApi } from '@/services/api';
-import { Report } from '@/types';
+import { Report, ReportStatusChange } from '@/types';
 import MapView from '@/components/MapView';
+import StatusTimeline from '@/components/StatusTimeline';
+import SupportButton from '@/components/SupportButton';
+import CommentThread from '@/components/CommentThread';
 import { formatDistanceToNow, format } from 'date-fns';
 import Image from 'next/image';
 
@@ -31,6 +36,7 @@ interface ReportDetailPageProps {
 export default function ReportDetailPage({ params }: ReportDetailPageProps) {
   const router = useRouter();
   const [report, setReport] = useState<Report | null>(null);
+  const [history, setHistory] = useState<ReportStatusChange[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
 
@@ -41,6 +47,11 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
       
       const reportData = await reportsApi.getReport(params.id);
       setReport(reportData);
+
+      // History is secondary; the page still renders if it fails
+      reportsApi.getReportHistory(params.id)
+        .then(setHistory)
+        .catch(err => console.error('Failed to load report history:', err));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load report details');
     } finally {
@@ -86,6 +97,9 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
     return colors[category as keyof typeof colors] || '#8B5CF6';
   };
 
+  // Most recent status change that carried a message for residents
+  const latestUpdate = [...history].reverse().find(change => change.public_message);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -173,6 +187,9 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                   Report ID: {report.id}
                 </CardDescription>
               </div>
+              {report.status !== 'Closed' && (
+                <SupportButton reportId={report.id} count={report.support_count} size="default" />
+              )}
             </div>
           </CardHeader>
           
@@ -188,6 +205,34 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
               </p>
             </div>
 
+            {/* Merged duplicates */}
+            {!!report.duplicate_count && (
+              <Alert>
+                <Users className="h-4 w-4" />
+                <AlertDescription>
+                  <span className="font-medium">
+                    {report.duplicate_count} other {report.duplicate_count === 1 ? 'resident' : 'residents'} reported this
+                  </span>
+                  {report.duplicate_ids && report.duplicate_ids.length > 0 && (
+                    <span className="block text-xs text-gray-500 mt-1">
+                      Merged reports:{' '}
+                      {report.duplicate_ids.map((id, index) => (
+                        <span key={id}>
+                          {index > 0 && ', '}
+                          <button
+                            onClick={() => router.push(`/reports/${id}`)}
+                            className="text-blue-600 hover:text-blue-800 underline font-mono"
+                          >
+                            {id.slice(0, 8)}
+                          </button>
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Photo */}
             {report.photo_url && (
               <div>
@@ -207,6 +252,29 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
               </div>
             )}
 
+            {/* Gallery (photos from merged duplicates) */}
+            {report.photos && report.photos.length > 0 && (
+              <div>
+                <h3 className="font-medium text-sm text-gray-700 mb-2 flex items-center gap-2">
+                  <Camera className="h-4 w-4" />
+                  Photos from other residents
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {report.photos.map(photo => (
+                    <div key={photo.id} className="rounded-lg overflow-hidden">
+                      <Image
+                        src={photo.photo_url}
+                        alt="Photo from a merged report"
+                        width={400}
+                        height={300}
+                        className="w-full h-32 object-cover"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Location Information */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -221,6 +289,12 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                       <p className="text-gray-600">{report.address}</p>
                     </div>
                   )}
+                  {report.barangay_name && (
+                    <div>
+                      <span className="font-medium">Barangay:</span>
+                      <p className="text-gray-600">{report.barangay_name}</p>
+                    </div>
+                  )}
                   <div>
                     <span className="font-medium">Coordinates:</span>
                     <p className="text-gray-600 font-mono">
@@ -273,15 +347,18 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
               </div>
             </div>
 
-            {/* Admin Notes */}
-            {report.admin_notes && (
+            {/* Latest official update (public message from the status history) */}
+            {latestUpdate && (
               <div>
                 <h3 className="font-medium text-sm text-gray-700 mb-2 flex items-center gap-2">
                   Official Response
                 </h3>
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <p className="text-gray-800">
-                    {report.admin_notes}
+                    {latestUpdate.public_message}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {formatDistanceToNow(new Date(latestUpdate.created_at), { addSuffix: true })}
                   </p>
                 </div>
               </div>
@@ -305,6 +382,25 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
           </CardContent>
         </Card>
 
+        {/* Status History */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Status History
+            </CardTitle>
+            <CardDescription>
+              Every status change made by barangay officials
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StatusTimeline createdAt={report.created_at} history={history} />
+          </CardContent>
+        </Card>
+
+        {/* Comments */}
+        <CommentThread reportId={report.id} />
+
         {/* Location Map */}
         <Card>
           <CardHeader>
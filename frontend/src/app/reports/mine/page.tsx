@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, AlertTriangle, CloudOff, Loader2, MapPin, RefreshCw } from 'lucide-react';
+import { reportsApi } from '@/services/api';
+import { trackingTokensDB, OfflineQueueItem } from '@/lib/db';
+import offlineQueue from '@/lib/offlineQueue';
+import { Report, ReportFormData } from '@/types';
+import { formatDistanceToNow } from 'date-fns';
+
+// Reports submitted from this device, found through the tracking tokens kept in IndexedDB.
+// Reports still waiting in the offline queue are listed first.
+export default function MyReportsPage() {
+  const router = useRouter();
+  const [reports, setReports] = useState<Report[]>([]);
+  const [pending, setPending] = useState<OfflineQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const queued = await offlineQueue.getPendingItems();
+      setPending(queued.filter(item => item.type === 'CREATE_REPORT'));
+
+      const tokens = await trackingTokensDB.getTokens();
+      setReports(await reportsApi.getMyReports(tokens.map(t => t.token)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your reports');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  // A queued report moves into the list once it syncs
+  useEffect(() => {
+    const handleSynced = () => loadReports();
+    offlineQueue.on('item-synced', handleSynced);
+    return () => offlineQueue.off('item-synced', handleSynced);
+  }, [loadReports]);
+
+  const getStatusColor = (status: string) => {
+    const colors = {
+      'Submitted': 'bg-blue-100 text-blue-800',
+      'In Review': 'bg-yellow-100 text-yellow-800',
+      'In Progress': 'bg-orange-100 text-orange-800',
+      'Resolved': 'bg-green-100 text-green-800',
+      'Closed': 'bg-gray-100 text-gray-800'
+    };
+    return colors[status as keyof typeof colors] || colors['Submitted'];
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => router.push('/')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Reports
+          </Button>
+          <Button variant="outline" onClick={loadReports} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Refresh
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-xl">My Reports</CardTitle>
+            <CardDescription>
+              Reports submitted from this device. They are linked to this browser only, so clearing its data removes the list.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-3">
+          {/* Queued offline, not yet on the server */}
+          {pending.map(item => {
+            const data = item.data as ReportFormData;
+            return (
+              <Card key={item.id} className="border-dashed">
+                <CardContent className="p-4 flex items-start gap-3">
+                  <CloudOff className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="secondary">{data.category}</Badge>
+                      <Badge variant="outline">Waiting to sync</Badge>
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        Saved {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p className="text-sm mt-1 line-clamp-2">{data.description}</p>
+                    {item.lastError && (
+                      <p className="text-xs text-red-600 mt-1">Last attempt failed: {item.lastError}</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {reports.map(report => (
+            <Card
+              key={report.id}
+              className="cursor-pointer hover:shadow-md transition-shadow"
+              onClick={() => router.push(`/reports/${report.duplicate_of || report.id}`)}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="secondary">{report.category}</Badge>
+                  <Badge className={getStatusColor(report.status)}>{report.status}</Badge>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    Updated {formatDistanceToNow(new Date(report.updated_at), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-sm mt-2 line-clamp-2">{report.description}</p>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                  <MapPin className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    {report.address || `${report.location.latitude.toFixed(4)}, ${report.location.longitude.toFixed(4)}`}
+                  </span>
+                </div>
+                {report.duplicate_of && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Merged with an existing report of the same issue; updates continue there.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          {!loading && !error && reports.length === 0 && pending.length === 0 && (
+            <div className="text-sm text-muted-foreground text-center py-8">
+              You have not submitted any reports from this device yet.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,86 +1,250 @@
-
 import React, { useState, useEffect } from 'react';
-import { Category, ReportCategory, ReportStatus, ReportFilters } from '@/types';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Barangay, Category, ReportCategory, ReportStatus, ReportFilters, ReportSortField, BoundingBox } from '@/types';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { categoriesApi } from '@/services/api';
+import { Input } from '@/components/ui/input';
+import { barangaysApi, categoriesApi } from '@/services/api';
+import useGeolocation from '@/hooks/useGeolocation';
 
 interface AdvancedFiltersProps {
   value: ReportFilters;
   onChange: (filters: ReportFilters) => void;
 }
 
+const STATUS_OPTIONS: ReportStatus[] = ['Submitted', 'In Review', 'In Progress', 'Resolved', 'Closed'];
+
+const SORT_OPTIONS: { value: ReportSortField; label: string }[] = [
+  { value: 'created_at', label: 'Date submitted' },
+  { value: 'updated_at', label: 'Last updated' },
+  { value: 'resolved_at', label: 'Date resolved' },
+  { value: 'status', label: 'Status' },
+  { value: 'category', label: 'Category' },
+  { value: 'support_count', label: 'Most supported' },
+];
+
+// yyyy-mm-dd (date input) <-> ISO timestamp at start/end of the local day
+const toDateInput = (iso?: string) => (iso ? format(new Date(iso), 'yyyy-MM-dd') : '');
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+// Square bounding box of roughly `radiusKm` around a point
+function boundingBoxAround(latitude: number, longitude: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.cos((latitude * Math.PI) / 180));
+  return [longitude - lngDelta, latitude - latDelta, longitude + lngDelta, latitude + latDelta];
+}
+
 export default function AdvancedFilters({ value, onChange }: AdvancedFiltersProps) {
   const [categories, setCategories] = useState<Category[]>([]);
+  const [barangays, setBarangays] = useState<Barangay[]>([]);
   const [localFilters, setLocalFilters] = useState<ReportFilters>(value);
+  const [areaRadius, setAreaRadius] = useState<string>(value.bbox ? 'custom' : 'all');
+  const geo = useGeolocation();
 
   useEffect(() => {
     setLocalFilters(value);
+    if (!value.bbox) setAreaRadius('all');
   }, [value]);
 
   useEffect(() => {
     categoriesApi.getCategories().then(res => setCategories(res.categories));
+    barangaysApi.getBarangays()
+      .then(res => setBarangays(res.barangays))
+      .catch(err => console.error('Failed to load barangays:', err));
   }, []);
 
-  const handleChange = <K extends keyof ReportFilters>(key: K, val: ReportFilters[K]) => {
-    const updated = { ...localFilters, [key]: val };
+  const update = (changes: Partial<ReportFilters>) => {
+    const updated = { ...localFilters, ...changes };
     setLocalFilters(updated);
     onChange(updated);
   };
 
+  const handleChange = <K extends keyof ReportFilters>(key: K, val: ReportFilters[K]) => {
+    update({ [key]: val } as Partial<ReportFilters>);
+  };
+
+  // Multi-value toggles replace the legacy single category/status fields
+  const selectedCategories = [
+    ...(localFilters.category ? [localFilters.category] : []),
+    ...(localFilters.categories || []),
+  ];
+  const selectedStatuses = [
+    ...(localFilters.status ? [localFilters.status] : []),
+    ...(localFilters.statuses || []),
+  ];
+
+  const toggleCategory = (category: ReportCategory) => {
+    const next = selectedCategories.includes(category)
+      ? selectedCategories.filter(c => c !== category)
+      : [...selectedCategories, category];
+    update({ category: undefined, categories: next.length ? next : undefined });
+  };
+
+  const toggleStatus = (status: ReportStatus) => {
+    const next = selectedStatuses.includes(status)
+      ? selectedStatuses.filter(s => s !== status)
+      : [...selectedStatuses, status];
+    update({ status: undefined, statuses: next.length ? next : undefined });
+  };
+
+  const handleAreaChange = async (radius: string) => {
+    setAreaRadius(radius);
+    if (radius === 'all') {
+      handleChange('bbox', undefined);
+      return;
+    }
+    const pos = await geo.getCurrent();
+    if (pos) {
+      handleChange('bbox', boundingBoxAround(pos.latitude, pos.longitude, parseFloat(radius)));
+    } else {
+      setAreaRadius('all');
+    }
+  };
+
   const handleClear = () => {
     const reset: ReportFilters = { limit: value.limit || 10, offset: 0 };
     setLocalFilters(reset);
+    setAreaRadius('all');
     onChange(reset);
   };
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-      {/* Category */}
+    <div className="space-y-4">
+      {/* Categories */}
       <div className="space-y-2">
-        <label className="text-sm font-medium">Category</label>
-        <Select value={localFilters.category || 'all'} onValueChange={v => handleChange('category', v === 'all' ? undefined : v as ReportCategory)}>
-          <SelectTrigger><SelectValue placeholder="All categories" /></SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Categories</SelectItem>
-            {categories.map(cat => (
-              <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <label className="text-sm font-medium">Categories</label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(cat => {
+            const active = selectedCategories.includes(cat.id as ReportCategory);
+            return (
+              <Button
+                key={cat.id}
+                type="button"
+                size="sm"
+                variant={active ? 'default' : 'outline'}
+                aria-pressed={active}
+                onClick={() => toggleCategory(cat.id as ReportCategory)}
+              >
+                {cat.name}
+              </Button>
+            );
+          })}
+        </div>
       </div>
-      {/* Status */}
+      {/* Statuses */}
       <div className="space-y-2">
-        <label className="text-sm font-medium">Status</label>
-        <Select value={localFilters.status || 'all'} onValueChange={v => handleChange('status', v === 'all' ? undefined : v as ReportStatus)}>
-          <SelectTrigger><SelectValue placeholder="All statuses" /></SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Statuses</SelectItem>
-            <SelectItem value="Submitted">Submitted</SelectItem>
-            <SelectItem value="In Review">In Review</SelectItem>
-            <SelectItem value="In Progress">In Progress</SelectItem>
-            <SelectItem value="Resolved">Resolved</SelectItem>
-            <SelectItem value="Closed">Closed</SelectItem>
-          </SelectContent>
-        </Select>
+        <label className="text-sm font-medium">Statuses</label>
+        <div className="flex flex-wrap gap-2">
+          {STATUS_OPTIONS.map(status => {
+            const active = selectedStatuses.includes(status);
+            return (
+              <Button
+                key={status}
+                type="button"
+                size="sm"
+                variant={active ? 'default' : 'outline'}
+                aria-pressed={active}
+                onClick={() => toggleStatus(status)}
+              >
+                {status}
+              </Button>
+            );
+          })}
+        </div>
       </div>
-      {/* Items per page */}
-      <div className="space-y-2">
-        <label className="text-sm font-medium">Per Page</label>
-        <Select value={localFilters.limit?.toString() || '10'} onValueChange={v => handleChange('limit', parseInt(v))}>
-          <SelectTrigger><SelectValue /></SelectTrigger>
-          <SelectContent>
-            <SelectItem value="5">5 items</SelectItem>
-            <SelectItem value="10">10 items</SelectItem>
-            <SelectItem value="20">20 items</SelectItem>
-            <SelectItem value="50">50 items</SelectItem>
-          </SelectContent>
-        </Select>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {/* Submitted date range */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="filter-created-from">Submitted from</label>
+          <Input id="filter-created-from" type="date" value={toDateInput(localFilters.created_from)} onChange={e => handleChange('created_from', fromDateInput(e.target.value, false))} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="filter-created-to">Submitted to</label>
+          <Input id="filter-created-to" type="date" value={toDateInput(localFilters.created_to)} onChange={e => handleChange('created_to', fromDateInput(e.target.value, true))} />
+        </div>
+        {/* Resolved date range */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="filter-resolved-from">Resolved from</label>
+          <Input id="filter-resolved-from" type="date" value={toDateInput(localFilters.resolved_from)} onChange={e => handleChange('resolved_from', fromDateInput(e.target.value, false))} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="filter-resolved-to">Resolved to</label>
+          <Input id="filter-resolved-to" type="date" value={toDateInput(localFilters.resolved_to)} onChange={e => handleChange('resolved_to', fromDateInput(e.target.value, true))} />
+        </div>
+        {/* Sort */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Sort By</label>
+          <Select value={localFilters.sortBy || 'default'} onValueChange={v => handleChange('sortBy', v === 'default' ? undefined : v as ReportSortField)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default (newest / best match)</SelectItem>
+              {SORT_OPTIONS.map(opt => (
+                <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Order</label>
+          <Select value={localFilters.sortOrder || 'desc'} onValueChange={v => handleChange('sortOrder', v as 'asc' | 'desc')}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">Descending</SelectItem>
+              <SelectItem value="asc">Ascending</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {/* Area (bounding box around current location) */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium flex items-center gap-2">
+            Area {geo.loading && <Loader2 className="h-3 w-3 animate-spin" />}
+          </label>
+          <Select value={areaRadius} onValueChange={handleAreaChange}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everywhere</SelectItem>
+              <SelectItem value="1">Within ~1 km of me</SelectItem>
+              <SelectItem value="5">Within ~5 km of me</SelectItem>
+              {areaRadius === 'custom' && <SelectItem value="custom">Custom area</SelectItem>}
+            </SelectContent>
+          </Select>
+          {geo.error && <p className="text-xs text-red-600">{geo.error}</p>}
+        </div>
+        {/* Barangay (hidden until boundaries are loaded) */}
+        {barangays.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Barangay</label>
+            <Select value={localFilters.barangay || 'all'} onValueChange={v => handleChange('barangay', v === 'all' ? undefined : v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All barangays</SelectItem>
+                {barangays.map(b => (
+                  <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {/* Items per page */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Per Page</label>
+          <Select value={localFilters.limit?.toString() || '10'} onValueChange={v => handleChange('limit', parseInt(v))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="5">5 items</SelectItem>
+              <SelectItem value="10">10 items</SelectItem>
+              <SelectItem value="20">20 items</SelectItem>
+              <SelectItem value="50">50 items</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       {/* Clear Filters */}
-      <div className="space-y-2">
-        <label className="text-sm font-medium">&nbsp;</label>
-        <Button variant="outline" className="w-full" onClick={handleClear}>Clear Filters</Button>
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleClear}>Clear Filters</Button>
       </div>
     </div>
   );
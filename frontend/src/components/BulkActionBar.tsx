@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { BulkReportAction, BulkReportRequest, BulkReportResponse, ReportStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Runs the operation for the selected IDs; dryRun previews without saving
+  onSubmit: (request: Omit<BulkReportRequest, 'ids'>) => Promise<BulkReportResponse>;
+  onClearSelection: () => void;
+}
+
+const ACTION_LABELS: Record<BulkReportAction, string> = {
+  status: 'Change status',
+  append_notes: 'Add internal note',
+  mark_duplicate: 'Mark as duplicate',
+  delete: 'Delete (admin only)',
+};
+
+const STATUS_OPTIONS: ReportStatus[] = ['Submitted', 'In Review', 'In Progress', 'Resolved', 'Closed'];
+
+export default function BulkActionBar({ selectedCount, onSubmit, onClearSelection }: BulkActionBarProps) {
+  const [action, setAction] = useState<BulkReportAction>('status');
+  const [status, setStatus] = useState<ReportStatus>('In Review');
+  const [notes, setNotes] = useState('');
+  const [duplicateOf, setDuplicateOf] = useState('');
+  const [note, setNote] = useState('');
+  const [publicMessage, setPublicMessage] = useState('');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BulkReportResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && action === 'delete' && !window.confirm(`Delete ${selectedCount} report(s)? This cannot be undone.`)) {
+      return;
+    }
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await onSubmit({
+        action,
+        dryRun,
+        ...(action === 'status' && { status, note: note.trim() || undefined, public_message: publicMessage.trim() || undefined }),
+        ...(action === 'append_notes' && { notes }),
+        ...(action === 'mark_duplicate' && { duplicate_of: duplicateOf.trim() }),
+      });
+      setResult(response);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Bulk operation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (selectedCount === 0) return null;
+
+  return (
+    <Card className="sticky top-2 z-10 border-primary/40">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{selectedCount} selected</span>
+          <Select value={action} onValueChange={v => { setAction(v as BulkReportAction); setResult(null); }}>
+            <SelectTrigger className="w-[190px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {action === 'status' && (
+            <>
+              <Select value={status} onValueChange={v => setStatus(v as ReportStatus)}>
+                <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STATUS_OPTIONS.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input className="w-[240px]" placeholder="Internal reason (optional)" maxLength={500} value={note} onChange={e => setNote(e.target.value)} />
+              <Input className="w-[260px]" placeholder="Public update for residents (optional)" maxLength={500} value={publicMessage} onChange={e => setPublicMessage(e.target.value)} />
+            </>
+          )}
+          {action === 'append_notes' && (
+            <Input className="w-[300px]" placeholder="Internal note (not shown publicly)" maxLength={1000} value={notes} onChange={e => setNotes(e.target.value)} />
+          )}
+          {action === 'mark_duplicate' && (
+            <Input className="w-[300px]" placeholder="Original report ID" value={duplicateOf} onChange={e => setDuplicateOf(e.target.value)} />
+          )}
+          <Button size="sm" variant="outline" disabled={running} onClick={() => run(true)}>Preview</Button>
+          <Button size="sm" variant={action === 'delete' ? 'destructive' : 'default'} disabled={running} onClick={() => run(false)}>
+            {running ? 'Working...' : 'Apply'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => { setResult(null); onClearSelection(); }}>Clear</Button>
+        </div>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {result && (
+          <div className="text-xs space-y-1">
+            <div className="font-medium">
+              {result.dryRun ? 'Preview: ' : ''}{result.succeeded} succeeded, {result.failed} failed
+            </div>
+            {result.results.filter(r => !r.success).map(r => (
+              <div key={r.id} className="text-red-600">{r.id.slice(0, 8)}: {r.message}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
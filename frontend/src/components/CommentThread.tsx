@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, MessageCircle, ShieldCheck } from 'lucide-react';
+import { reportsApi } from '@/services/api';
+import { ReportComment } from '@/types';
+import { formatDistanceToNow } from 'date-fns';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+interface CommentThreadProps {
+  reportId: string;
+}
+
+// Public updates from residents and official replies on a report
+export default function CommentThread({ reportId }: CommentThreadProps) {
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    reportsApi.getComments(reportId)
+      .then(result => {
+        if (!cancelled) setComments(result);
+      })
+      .catch(err => console.error('Failed to load comments:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() || posting) return;
+    try {
+      setPosting(true);
+      setError('');
+      setNotice('');
+      const comment = await reportsApi.postComment(reportId, body.trim());
+      if (comment.status === 'pending') {
+        setNotice('Thanks! Your comment will appear after a moderator reviews it.');
+      } else {
+        setComments(prev => [...prev, comment]);
+      }
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MessageCircle className="h-5 w-5" />
+          Updates &amp; Comments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading comments...
+          </div>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet. Share an update if the issue has changed.</p>
+        ) : (
+          <ul className="space-y-3">
+            {comments.map(comment => (
+              <li
+                key={comment.id}
+                className={`rounded-md border p-3 text-sm ${comment.is_official ? 'border-blue-200 bg-blue-50' : 'bg-white'}`}
+              >
+                <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                  {comment.is_official ? (
+                    <Badge className="bg-blue-600 text-white gap-1">
+                      <ShieldCheck className="h-3 w-3" />
+                      Official
+                    </Badge>
+                  ) : (
+                    <span className="font-medium text-gray-700">Resident</span>
+                  )}
+                  <span>{formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}</span>
+                </div>
+                <p className="text-gray-900 whitespace-pre-wrap break-words">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={e => setBody(e.target.value)}
+            placeholder="e.g. It got worse after the rain"
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={3}
+            aria-label="Add a comment"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">{body.length}/{MAX_COMMENT_LENGTH}</span>
+            <Button type="submit" size="sm" disabled={posting || !body.trim()}>
+              {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Post comment
+            </Button>
+          </div>
+        </form>
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { forwardGeocode, reverseGeocode } from '@/services/mapbox';
+import { reverseGeocode } from '@/services/mapbox';
 import useGeolocation from '@/hooks/useGeolocation';
-import { MapPin, Loader2, Search } from 'lucide-react';
+import useLocationSearch, { LocationSuggestion } from '@/hooks/useLocationSearch';
+import { MapPin, Loader2, Search, Landmark } from 'lucide-react';
 
 export interface LocationSelectorValue {
   latitude: number;
@@ -21,41 +22,19 @@ interface LocationSelectorProps {
 }
 
 // NOTE: This component intentionally does not integrate a full map library yet (kept lightweight for MVP)
-// It provides: search suggestions, reverse geocode, and manual coordinate input fallback.
+// It provides: search suggestions (local landmarks first, then Mapbox), reverse geocode, and manual coordinate input fallback.
 export const LocationSelector: React.FC<LocationSelectorProps> = ({ value, onChange, disabled, showUseMyLocation = true }) => {
   const [query, setQuery] = useState('');
-  interface Suggestion { id: string; place_name: string; center: [number, number]; }
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
-  const [loading, setLoading] = useState(false);
+  const { suggestions, loading, clear: clearSuggestions } = useLocationSearch(query);
   const [resolving, setResolving] = useState(false);
   const [manualLat, setManualLat] = useState<string>('');
   const [manualLng, setManualLng] = useState<string>('');
   const geo = useGeolocation();
 
-  // Fetch suggestions when query changes
-  useEffect(() => {
-    const handle = setTimeout(async () => {
-      if (!query.trim()) {
-        setSuggestions([]);
-        return;
-      }
-      setLoading(true);
-      try {
-  const results = await forwardGeocode(query, 5);
-  setSuggestions(results as Suggestion[]);
-      } catch (e) {
-        console.warn('Geocode failed', e);
-      } finally {
-        setLoading(false);
-      }
-    }, 300);
-    return () => clearTimeout(handle);
-  }, [query]);
-
-  const chooseSuggestion = async (s: Suggestion) => {
+  const chooseSuggestion = async (s: LocationSuggestion) => {
     onChange({ latitude: s.center[1], longitude: s.center[0], address: s.place_name });
     setQuery(s.place_name);
-    setSuggestions([]);
+    clearSuggestions();
   };
 
   const useMyLocation = async () => {
@@ -85,7 +64,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({ value, onCha
     <div className="space-y-3">
       <div className="relative">
         <Input
-          placeholder="Search address or place"
+          placeholder="Search landmark, address or place"
           value={query}
           disabled={disabled}
           onChange={(e) => setQuery(e.target.value)}
@@ -100,9 +79,10 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({ value, onCha
               <li key={s.id}>
                 <button
                   type="button"
-                  className="w-full text-left px-3 py-2 hover:bg-accent text-sm"
+                  className="w-full text-left px-3 py-2 hover:bg-accent text-sm flex items-center gap-2"
                   onClick={() => chooseSuggestion(s)}
                 >
+                  {s.source === 'landmark' && <Landmark className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
                   {s.place_name}
                 </button>
               </li>
@@ -3,9 +3,11 @@ import React, { useState } from "react";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
+import useLocationSearch, { LocationSuggestion } from "@/hooks/useLocationSearch";
 
 export interface ManualLocationPickerProps {
-  onSelect: (location: { latitude: number; longitude: number }) => void;
+  // address is set when the location comes from a landmark or place search
+  onSelect: (location: { latitude: number; longitude: number; address?: string }) => void;
   className?: string;
 }
 
@@ -13,6 +15,8 @@ export const ManualLocationPicker: React.FC<ManualLocationPickerProps> = ({ onSe
   const [lat, setLat] = useState("");
   const [lon, setLon] = useState("");
   const [error, setError] = useState("");
+  const [query, setQuery] = useState("");
+  const { suggestions, loading, clear: clearSuggestions } = useLocationSearch(query);
 
   const validate = (value: number, type: "lat" | "lon") => {
     if (type === "lat") return value >= -90 && value <= 90;
@@ -38,8 +42,44 @@ export const ManualLocationPicker: React.FC<ManualLocationPickerProps> = ({ onSe
     onSelect({ latitude: latNum, longitude: lonNum });
   };
 
+  const handleSuggestion = (s: LocationSuggestion) => {
+    const [lng, latitude] = s.center;
+    setLat(latitude.toFixed(6));
+    setLon(lng.toFixed(6));
+    setError("");
+    setQuery(s.place_name);
+    clearSuggestions();
+    onSelect({ latitude, longitude: lng, address: s.place_name });
+  };
+
   return (
     <div className={className} aria-labelledby="manual-location-heading">
+      <div className="relative mb-3">
+        <Label htmlFor="location-search" className="text-xs">Landmark or place</Label>
+        <Input
+          id="location-search"
+          value={query}
+          placeholder="e.g. chapel in Purok 3"
+          onChange={(e) => setQuery(e.target.value)}
+          aria-busy={loading}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full max-h-52 overflow-auto rounded-md border bg-background shadow">
+            {suggestions.map((s) => (
+              <li key={s.id}>
+                <button
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-accent text-sm"
+                  onClick={() => handleSuggestion(s)}
+                >
+                  {s.place_name}
+                  {s.source === "landmark" && <span className="ml-1 text-xs text-muted-foreground">(landmark)</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
       <h3 id="manual-location-heading" className="text-sm font-medium mb-2">Manual Coordinates</h3>
       <div className="grid grid-cols-2 gap-2 mb-2">
         <div>
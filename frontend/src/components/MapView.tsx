@@ -16,7 +16,8 @@ import {
   Clock,
   CheckCircle
 } from 'lucide-react';
-import { Report, Location } from '@/types';
+import { Report, ReportStatus, Location, ReportFilters, ReportFeatureCollection, ReportMapFeature, BoundingBox } from '@/types';
+import { reportsApi } from '@/services/api';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 // Set Mapbox access token from environment
@@ -26,8 +27,131 @@ if (!MAPBOX_ACCESS_TOKEN) {
   console.error('NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN environment variable is required for map functionality');
 }
 
+// Report status colors, shared by the map layers, popups and the legend
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  'Submitted': '#3b82f6',      // blue
+  'In Review': '#f59e0b',      // amber
+  'In Progress': '#f97316',    // orange
+  'Resolved': '#10b981',       // green
+  'Closed': '#6b7280'          // gray
+};
+
+const REPORTS_SOURCE = 'reports';
+const CLUSTER_LAYER = 'report-clusters';
+const CLUSTER_COUNT_LAYER = 'report-cluster-count';
+const REPORT_LAYER = 'report-points';
+
+const EMPTY_COLLECTION: ReportFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [],
+  truncated: false
+};
+
+// Static mode: the given reports as unclustered features
+function toFeatureCollection(reports: Report[]): ReportFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: reports.map((report): ReportMapFeature => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [report.location.longitude, report.location.latitude]
+      },
+      properties: {
+        cluster: false,
+        point_count: 1,
+        id: report.id,
+        category: report.category,
+        status: report.status,
+        address: report.address,
+        description: report.description,
+        created_at: report.created_at
+      }
+    })),
+    truncated: false
+  };
+}
+
+// Viewport bounds clamped to valid coordinates (the map can show more than one world)
+function getViewportBbox(map: mapboxgl.Map): BoundingBox | null {
+  const bounds = map.getBounds();
+  if (!bounds) return null;
+  return [
+    Math.max(-180, bounds.getWest()),
+    Math.max(-90, bounds.getSouth()),
+    Math.min(180, bounds.getEast()),
+    Math.min(90, bounds.getNorth())
+  ];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Source and layers are dropped by setStyle, so this runs on every style load
+function addReportLayers(map: mapboxgl.Map, data: ReportFeatureCollection) {
+  if (map.getSource(REPORTS_SOURCE)) return;
+
+  map.addSource(REPORTS_SOURCE, { type: 'geojson', data });
+
+  map.addLayer({
+    id: CLUSTER_LAYER,
+    type: 'circle',
+    source: REPORTS_SOURCE,
+    filter: ['==', ['get', 'cluster'], true],
+    paint: {
+      'circle-color': '#2563eb',
+      'circle-opacity': 0.85,
+      'circle-radius': ['step', ['get', 'point_count'], 16, 10, 20, 50, 26, 200, 32],
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff'
+    }
+  });
+
+  map.addLayer({
+    id: CLUSTER_COUNT_LAYER,
+    type: 'symbol',
+    source: REPORTS_SOURCE,
+    filter: ['==', ['get', 'cluster'], true],
+    layout: {
+      'text-field': ['to-string', ['get', 'point_count']],
+      'text-size': 12,
+      'text-allow-overlap': true
+    },
+    paint: {
+      'text-color': '#ffffff'
+    }
+  });
+
+  map.addLayer({
+    id: REPORT_LAYER,
+    type: 'circle',
+    source: REPORTS_SOURCE,
+    filter: ['==', ['get', 'cluster'], false],
+    paint: {
+      'circle-color': [
+        'match',
+        ['get', 'status'],
+        ...Object.entries(STATUS_COLORS).flat(),
+        STATUS_COLORS['Submitted']
+      ] as mapboxgl.Expression,
+      'circle-radius': 9,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff'
+    }
+  });
+}
+
 interface MapViewProps {
+  // Static mode: exactly these reports
   reports?: Report[];
+  // Live mode: reports matching these filters are loaded for the visible
+  // viewport (clustered when zoomed out) and reloaded as the map moves
+  filters?: ReportFilters;
   center?: Location;
   zoom?: number;
   onReportClick?: (report: Report) => void;
@@ -40,6 +164,7 @@ interface MapViewProps {
 
 export default function MapView({
   reports = [],
+  filters,
   center = { latitude: 9.7587, longitude: 125.5135 }, // Default to Surigao City
   zoom = 12,
   onReportClick,
@@ -51,12 +176,23 @@ export default function MapView({
 }: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
-  const markers = useRef<mapboxgl.Marker[]>([]);
   const userLocationMarker = useRef<mapboxgl.Marker | null>(null);
   
   const [isLoaded, setIsLoaded] = useState(false);
   const [error, setError] = useState<string>('');
   const [userLocation, setUserLocation] = useState<Location | null>(null);
+  const [collection, setCollection] = useState<ReportFeatureCollection>(EMPTY_COLLECTION);
+  const live = filters !== undefined;
+
+  // Latest values for the map event handlers, which are registered once
+  const collectionRef = useRef(collection);
+  collectionRef.current = collection;
+  const reportsRef = useRef(reports);
+  reportsRef.current = reports;
+  const onReportClickRef = useRef(onReportClick);
+  onReportClickRef.current = onReportClick;
+  const loadViewportRef = useRef<() => void>(() => {});
+  const requestIdRef = useRef(0);
   // Track viewport internally without triggering unused state warnings
   const viewportRef = useRef<{ latitude: number; longitude: number; zoom: number }>({
     latitude: center.latitude,
@@ -103,6 +239,70 @@ export default function MapView({
         setIsLoaded(true);
       });
 
+      map.current.on('style.load', () => {
+        if (map.current) addReportLayers(map.current, collectionRef.current);
+      });
+
+      // Clusters zoom in towards their reports
+      map.current.on('click', CLUSTER_LAYER, (e) => {
+        const feature = e.features?.[0];
+        if (!feature || feature.geometry.type !== 'Point' || !map.current) return;
+        map.current.easeTo({
+          center: feature.geometry.coordinates as [number, number],
+          zoom: map.current.getZoom() + 2
+        });
+      });
+
+      map.current.on('click', REPORT_LAYER, (e) => {
+        const feature = e.features?.[0];
+        if (!feature || feature.geometry.type !== 'Point' || !map.current) return;
+        const properties = feature.properties as ReportMapFeature['properties'];
+        const color = STATUS_COLORS[properties.status as ReportStatus] || STATUS_COLORS['Submitted'];
+
+        new mapboxgl.Popup({
+          offset: 12,
+          closeButton: true,
+          closeOnClick: true
+        })
+          .setLngLat(feature.geometry.coordinates as [number, number])
+          .setHTML(`
+            <div class="p-3 max-w-sm">
+              <div class="flex items-center gap-2 mb-2">
+                <div class="w-3 h-3 rounded-full" style="background: ${color}"></div>
+                <span class="font-medium text-sm">${escapeHtml(properties.category || '')}</span>
+                <span class="px-2 py-1 text-xs bg-gray-100 rounded">${escapeHtml(properties.status || '')}</span>
+              </div>
+              <p class="text-sm mb-2 line-clamp-2">${escapeHtml(properties.description || '')}</p>
+              <div class="flex items-center justify-between text-xs text-gray-600">
+                <span>${escapeHtml(properties.address || 'No address provided')}</span>
+                <button class="text-blue-600 hover:text-blue-800 font-medium">View Details</button>
+              </div>
+            </div>
+          `)
+          .addTo(map.current);
+
+        if (!properties.id || !onReportClickRef.current) return;
+        // Map features carry a summary only; live mode fetches the full report
+        const report = reportsRef.current.find(r => r.id === properties.id);
+        if (report) {
+          onReportClickRef.current(report);
+        } else {
+          reportsApi
+            .getReport(properties.id)
+            .then(fullReport => onReportClickRef.current?.(fullReport))
+            .catch(err => console.error('Failed to load report:', err));
+        }
+      });
+
+      [CLUSTER_LAYER, REPORT_LAYER].forEach(layer => {
+        map.current!.on('mouseenter', layer, () => {
+          if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+        });
+        map.current!.on('mouseleave', layer, () => {
+          if (map.current) map.current.getCanvas().style.cursor = '';
+        });
+      });
+
       map.current.on('error', (e) => {
         console.error('Mapbox error:', e);
         setError('Failed to load map. Please check your internet connection.');
@@ -110,6 +310,11 @@ export default function MapView({
 
       if (onMapClick) {
         map.current.on('click', (e) => {
+          // Clicks on reports and clusters are handled by their layers
+          const hits = map.current?.queryRenderedFeatures(e.point, {
+            layers: [CLUSTER_LAYER, REPORT_LAYER]
+          });
+          if (hits && hits.length > 0) return;
           const { lng, lat } = e.lngLat;
           onMapClick({ latitude: lat, longitude: lng });
         });
@@ -122,11 +327,12 @@ export default function MapView({
           const vp = { latitude: lat, longitude: lng, zoom: map.current.getZoom() };
           viewportRef.current = vp;
           onViewportChange?.(vp);
+          loadViewportRef.current();
         }
       };
 
+      // moveend also fires at the end of every zoom
       map.current.on('moveend', updateViewport);
-      map.current.on('zoomend', updateViewport);
 
     } catch (err) {
       console.error('Failed to initialize map:', err);
@@ -212,103 +418,49 @@ export default function MapView({
     }
   }, [userLocation, isLoaded]);
 
-  // Get marker color based on report status
-  const getMarkerColor = (report: Report) => {
-    const colors = {
-      'Submitted': '#3b82f6',      // blue
-      'In Review': '#f59e0b',      // amber
-      'In Progress': '#f97316',    // orange
-      'Resolved': '#10b981',       // green
-      'Closed': '#6b7280'          // gray
-    };
-    return colors[report.status] || colors['Submitted'];
-  };
-
-  // Get marker icon based on report category
-  const getMarkerIcon = (report: Report) => {
-    const icons = {
-      'Infrastructure': '🚧',
-      'Sanitation': '🗑️',
-      'Safety': '⚠️',
-      'Water': '💧',
-      'Electrical': '⚡'
-    };
-    return icons[report.category] || '📍';
-  };
+  // Live mode: load the reports in the visible viewport; older responses are dropped
+  const loadViewport = useCallback(() => {
+    if (!filters || !map.current) return;
+    const bbox = getViewportBbox(map.current);
+    if (!bbox) return;
+
+    const requestId = ++requestIdRef.current;
+    reportsApi
+      .getReportsGeoJSON(
+        {
+          ...filters,
+          // Listing pagination does not apply to the map
+          limit: undefined,
+          offset: undefined,
+          cursor: undefined,
+          pagination: undefined,
+          includeTotal: undefined,
+          bbox
+        },
+        map.current.getZoom()
+      )
+      .then(data => {
+        if (requestId === requestIdRef.current) setCollection(data);
+      })
+      .catch(err => {
+        console.error('Failed to load map reports:', err);
+      });
+  }, [filters]);
 
-  // Update report markers
   useEffect(() => {
-    if (!map.current || !isLoaded) return;
-
-    // Clear existing markers
-    markers.current.forEach(marker => marker.remove());
-    markers.current = [];
-
-    // Add markers for each report
-    reports.forEach(report => {
-      const markerColor = getMarkerColor(report);
-      const markerIcon = getMarkerIcon(report);
-
-      // Create custom marker element
-      const markerElement = document.createElement('div');
-      markerElement.className = 'report-marker';
-      markerElement.innerHTML = `
-        <div style="
-          width: 32px;
-          height: 32px;
-          border-radius: 50%;
-          background: ${markerColor};
-          border: 2px solid white;
-          box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          font-size: 14px;
-          cursor: pointer;
-          transition: transform 0.2s;
-        " onmouseover="this.style.transform='scale(1.1)'" onmouseout="this.style.transform='scale(1)'">${markerIcon}</div>
-      `;
+    loadViewportRef.current = loadViewport;
+    if (isLoaded) loadViewport();
+  }, [loadViewport, isLoaded]);
 
-      // Create popup content
-      const popupContent = `
-        <div class="p-3 max-w-sm">
-          <div class="flex items-center gap-2 mb-2">
-            <div class="w-3 h-3 rounded-full" style="background: ${markerColor}"></div>
-            <span class="font-medium text-sm">${report.category}</span>
-            <span class="px-2 py-1 text-xs bg-gray-100 rounded">${report.status}</span>
-          </div>
-          <p class="text-sm mb-2 line-clamp-2">${report.description}</p>
-          <div class="flex items-center justify-between text-xs text-gray-600">
-            <span>${report.address || 'No address provided'}</span>
-            <button class="text-blue-600 hover:text-blue-800 font-medium">View Details</button>
-          </div>
-        </div>
-      `;
-
-      const popup = new mapboxgl.Popup({
-        offset: 25,
-        closeButton: true,
-        closeOnClick: true
-      }).setHTML(popupContent);
-
-      const marker = new mapboxgl.Marker(markerElement)
-        .setLngLat([report.location.longitude, report.location.latitude])
-        .setPopup(popup)
-        .addTo(map.current!);
-
-      // Handle marker click
-      markerElement.addEventListener('click', (e) => {
-        e.stopPropagation();
-        onReportClick?.(report);
-      });
+  // Static mode: show the given reports and fit the map to them
+  useEffect(() => {
+    if (live || !map.current || !isLoaded) return;
 
-      markers.current.push(marker);
-    });
+    setCollection(toFeatureCollection(reports));
 
-    // Fit map to show all markers if there are reports
     if (reports.length > 0) {
       const bounds = new mapboxgl.LngLatBounds();
-      
+
       reports.forEach(report => {
         bounds.extend([report.location.longitude, report.location.latitude]);
       });
@@ -323,7 +475,19 @@ export default function MapView({
         maxZoom: 15
       });
     }
-  }, [reports, isLoaded, onReportClick, userLocation]);
+  }, [live, reports, isLoaded, userLocation]);
+
+  // Push the current features into the map source
+  useEffect(() => {
+    if (!map.current || !isLoaded) return;
+    const source = map.current.getSource(REPORTS_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(collection);
+  }, [collection, isLoaded]);
+
+  const reportCount = collection.features.reduce(
+    (sum, feature) => sum + feature.properties.point_count,
+    0
+  );
 
   // Map control functions
   const zoomIn = () => {
@@ -411,16 +575,16 @@ export default function MapView({
         )}
 
         {/* Map Legend */}
-        {reports.length > 0 && (
+        {reportCount > 0 && (
           <div className="absolute bottom-14 left-4 bg-white rounded-lg shadow-md p-3 max-w-xs">
             <h4 className="font-medium text-sm mb-2">Report Status</h4>
             <div className="space-y-1">
               {[
-                { status: 'Submitted', color: '#3b82f6', icon: <Clock className="h-3 w-3" /> },
-                { status: 'In Review', color: '#f59e0b', icon: <Clock className="h-3 w-3" /> },
-                { status: 'In Progress', color: '#f97316', icon: <Clock className="h-3 w-3" /> },
-                { status: 'Resolved', color: '#10b981', icon: <CheckCircle className="h-3 w-3" /> },
-                { status: 'Closed', color: '#6b7280', icon: <CheckCircle className="h-3 w-3" /> }
+                { status: 'Submitted', color: STATUS_COLORS['Submitted'], icon: <Clock className="h-3 w-3" /> },
+                { status: 'In Review', color: STATUS_COLORS['In Review'], icon: <Clock className="h-3 w-3" /> },
+                { status: 'In Progress', color: STATUS_COLORS['In Progress'], icon: <Clock className="h-3 w-3" /> },
+                { status: 'Resolved', color: STATUS_COLORS['Resolved'], icon: <CheckCircle className="h-3 w-3" /> },
+                { status: 'Closed', color: STATUS_COLORS['Closed'], icon: <CheckCircle className="h-3 w-3" /> }
               ].map(({ status, color, icon }) => (
                 <div key={status} className="flex items-center gap-2 text-xs">
                   <div 
@@ -438,11 +602,11 @@ export default function MapView({
         )}
 
         {/* Reports Count */}
-        {reports.length > 0 && (
+        {reportCount > 0 && (
           <div className="absolute top-4 right-12">
             <Badge variant="secondary" className="shadow-md">
               <MapPin className="h-3 w-3 mr-1" />
-              {reports.length} report{reports.length !== 1 ? 's' : ''}
+              {reportCount}{collection.truncated ? '+' : ''} report{reportCount !== 1 ? 's' : ''}
             </Badge>
           </div>
         )}
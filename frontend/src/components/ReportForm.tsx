@@ -8,20 +8,24 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, MapPin, Camera, AlertTriangle, CheckCircle, Wifi, WifiOff } from 'lucide-react';
+import { Loader2, MapPin, Camera, AlertTriangle, CheckCircle, Wifi, WifiOff, Users } from 'lucide-react';
 import { reportsApi, categoriesApi, locationApi } from '@/services/api';
 import { Category, ReportCategory, Location, ReportFormData, Report } from '@/types';
 import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
 import { compressImage, uploadCompressedImage, formatBytes } from '@/lib/imageUtils';
 import offlineQueue, { queueUtils } from '@/lib/offlineQueue';
 import syncManager from '@/lib/syncManager';
+import { settingsDB, trackingTokensDB } from '@/lib/db';
 
 interface ReportFormProps {
   onSubmitSuccess?: (reportId: string) => void;
   onSubmitError?: (error: string) => void;
+  // Resident chose "this is my issue too" on an existing report instead of submitting
+  onSupportSuccess?: (reportId: string) => void;
 }
 
-export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFormProps) {
+export default function ReportForm({ onSubmitSuccess, onSubmitError, onSupportSuccess }: ReportFormProps) {
   // State management
   const [categories, setCategories] = useState<Category[]>([]);
   const [formData, setFormData] = useState<ReportFormData>({
@@ -38,6 +42,11 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
   const [locationStatus, setLocationStatus] = useState<'none' | 'getting' | 'success' | 'error'>('none');
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [isOnline, setIsOnline] = useState(true);
+  // Open reports of the same category near the chosen location
+  const [nearbyReports, setNearbyReports] = useState<Report[]>([]);
+  const [supportingId, setSupportingId] = useState<string | null>(null);
+  // The category starts on a default; suggestions wait for the resident's own pick
+  const [categoryChosen, setCategoryChosen] = useState(false);
 
   // Load categories and setup network monitoring on mount
   useEffect(() => {
@@ -74,6 +83,44 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
     };
   }, []);
 
+  // Suggest existing reports once location and category are set (online only)
+  useEffect(() => {
+    const location = formData.location;
+    const category = formData.category;
+    if (!location || !category || !categoryChosen || !isOnline) {
+      setNearbyReports([]);
+      return;
+    }
+    let cancelled = false;
+    reportsApi.getNearbyReports(location, category)
+      .then(result => {
+        if (!cancelled) setNearbyReports(result.reports);
+      })
+      .catch(err => console.error('Failed to load nearby reports:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.location, formData.category, categoryChosen, isOnline]);
+
+  const supportExisting = async (reportId: string) => {
+    setSupportingId(reportId);
+    setError('');
+    setSuccess('');
+    try {
+      const deviceToken = await settingsDB.getDeviceToken().catch(() => undefined);
+      const result = await reportsApi.supportReport(reportId, deviceToken);
+      setSuccess(result.added
+        ? 'Thanks! Your support was added to the existing report.'
+        : 'You have already supported this report.');
+      resetForm();
+      onSupportSuccess?.(result.report_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record support. Please try again.');
+    } finally {
+      setSupportingId(null);
+    }
+  };
+
   const loadCategories = async () => {
     try {
       const response = await categoriesApi.getCategories();
@@ -173,6 +220,8 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
     });
     setLocationStatus('none');
     setPreviewUrl('');
+    setNearbyReports([]);
+    setCategoryChosen(false);
   };
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
@@ -263,6 +312,12 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
   if (photoMeta.photo_public_id) submission.photo_public_id = photoMeta.photo_public_id;
 
   const report = (await reportsApi.submitReport(submission)) as Report;
+  // Keep the token so the report shows up under "My Reports"
+  if (report.tracking_token) {
+    await trackingTokensDB
+      .saveToken(report.id, report.tracking_token)
+      .catch(err => console.error('Failed to save tracking token:', err));
+  }
       
       setSuccess('Report submitted successfully!');
       
@@ -317,7 +372,10 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
             <Label htmlFor="category">Category *</Label>
             <Select 
               value={formData.category} 
-              onValueChange={(value: ReportCategory) => setFormData(prev => ({ ...prev, category: value }))}
+              onValueChange={(value: ReportCategory) => {
+                setFormData(prev => ({ ...prev, category: value }));
+                setCategoryChosen(true);
+              }}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select issue category" />
@@ -394,6 +452,42 @@ export default function ReportForm({ onSubmitSuccess, onSubmitError }: ReportFor
             </div>
           </div>
 
+          {/* Similar reports nearby */}
+          {nearbyReports.length > 0 && (
+            <Alert>
+              <Users className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium mb-2">
+                  {nearbyReports.length === 1 ? 'A similar issue has' : `${nearbyReports.length} similar issues have`} already been reported nearby
+                </p>
+                <div className="space-y-2">
+                  {nearbyReports.map(report => (
+                    <div key={report.id} className="flex items-start justify-between gap-2 rounded-md border bg-background p-2">
+                      <div className="text-sm">
+                        <p className="line-clamp-2">{report.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {report.status} · {report.distance_meters ?? 0} m away · {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={supportingId !== null}
+                        onClick={() => supportExisting(report.id)}
+                      >
+                        {supportingId === report.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'This is my issue too'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Supporting an existing report helps officials prioritise it. Submit a new report only if your issue is different.
+                </p>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Address  */}
           <div className="space-y-2">
             <Label htmlFor="address">Address *</Label>
@@ -6,6 +6,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import AdvancedFilters from './AdvancedFilters';
+import SearchHighlight from './SearchHighlight';
+import SupportButton from './SupportButton';
+import { Input } from '@/components/ui/input';
 import { 
   MapPin, 
   Clock, 
@@ -15,7 +18,8 @@ import {
   Loader2,
   AlertTriangle,
   CheckCircle,
-  Eye
+  Eye,
+  Search
 } from 'lucide-react';
 import Image from 'next/image';
 import { reportsApi, categoriesApi } from '@/services/api';
@@ -40,9 +44,10 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
   });
   const [total, setTotal] = useState(0);
   const [hasMore, setHasMore] = useState(false);
-  // Track explicit append vs replace behavior
-  const [appendMode, setAppendMode] = useState(false);
+  // Keyset cursor for "Load More" (null when sorting by something other than date or searching)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const [searchInput, setSearchInput] = useState(initialFilters.search || '');
 
   // Load initial data
   useEffect(() => {
@@ -69,6 +74,23 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filters.limit, filters.offset]);
 
+  // Debounce keyword search into filters
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      const search = searchInput.trim() || undefined;
+      if (search !== filters.search) {
+        setFilters(prev => ({ ...prev, search, offset: 0 }));
+      }
+    }, 350);
+    return () => clearTimeout(handle);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchInput]);
+
+  // Keep the search box in sync when filters are cleared elsewhere
+  useEffect(() => {
+    if (!filters.search) setSearchInput('');
+  }, [filters.search]);
+
   const loadCategories = async () => {
     try {
       const response = await categoriesApi.getCategories();
@@ -84,35 +106,41 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
       setError('');
       const response = await reportsApi.getReports(filters);
 
-      if (filters.offset === 0 || !appendMode) {
-        setReports(response.reports); // replace
-      } else {
-        setReports(prev => [...prev, ...response.reports]); // append
-      }
-
-      setTotal(response.total);
+      setReports(response.reports);
+      setTotal(response.total ?? response.reports.length);
       setHasMore(response.hasMore);
+      setNextCursor(response.nextCursor ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load reports');
     } finally {
       setLoading(false);
-      setAppendMode(false); // reset after fetch
     }
   };
 
-  const handleLoadMore = () => {
-    if (!loading && hasMore) {
-      setAppendMode(true);
-      setFilters(prev => ({
-        ...prev,
-        offset: (prev.offset || 0) + (prev.limit || 10)
-      }));
+  // Append the next page in place; uses the keyset cursor when available
+  const handleLoadMore = async () => {
+    if (loading || !hasMore) return;
+    try {
+      setLoading(true);
+      setError('');
+      const response = await reportsApi.getReports(
+        nextCursor
+          ? { ...filters, offset: undefined, cursor: nextCursor }
+          : { ...filters, offset: (filters.offset || 0) + reports.length }
+      );
+
+      setReports(prev => [...prev, ...response.reports]);
+      setHasMore(response.hasMore);
+      setNextCursor(response.nextCursor ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more reports');
+    } finally {
+      setLoading(false);
     }
   };
 
   const handlePrevPage = () => {
     if (filters.offset && filters.offset > 0) {
-      setAppendMode(false);
       setFilters(prev => ({
         ...prev,
         offset: Math.max(0, (prev.offset || 0) - (prev.limit || 10))
@@ -125,10 +153,10 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
 
   const handleNextPage = () => {
     if (hasMore) {
-      setAppendMode(false);
+      // Continue after everything shown, including pages appended by Load More
       setFilters(prev => ({
         ...prev,
-        offset: (prev.offset || 0) + (prev.limit || 10)
+        offset: (prev.offset || 0) + reports.length
       }));
       if (typeof window !== 'undefined') {
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -202,6 +230,19 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
         </div>
       </div>
 
+      {/* Keyword Search */}
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search descriptions and addresses"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className="pl-8"
+          aria-label="Search reports"
+        />
+      </div>
+
       {/* Filters Panel */}
       {showFilters && (
         <Card>
@@ -284,7 +325,9 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
                           </Button>
                         </div>
                         <p className="text-xs sm:text-sm mt-1 line-clamp-2 sm:line-clamp-3">
-                          {report.description}
+                          {report.highlights?.description
+                            ? <SearchHighlight text={report.highlights.description} />
+                            : report.description}
                         </p>
                       </div>
                     </div>
@@ -293,7 +336,9 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
                       <div className="flex items-center gap-1 truncate">
                         <MapPin className="h-3 w-3 shrink-0" />
                         <span className="truncate max-w-full sm:max-w-xs">
-                          {report.address || `${report.location.latitude.toFixed(4)}, ${report.location.longitude.toFixed(4)}`}
+                          {report.highlights?.address
+                            ? <SearchHighlight text={report.highlights.address} />
+                            : report.address || `${report.location.latitude.toFixed(4)}, ${report.location.longitude.toFixed(4)}`}
                         </span>
                       </div>
                       {report.resolved_at && (
@@ -302,6 +347,9 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
                           <span className="truncate">Resolved {formatDistanceToNow(new Date(report.resolved_at), { addSuffix: true })}</span>
                         </div>
                       )}
+                      <div className="sm:ml-auto">
+                        <SupportButton reportId={report.id} count={report.support_count} />
+                      </div>
                     </div>
                   </div>
                 </CardContent>
@@ -339,8 +387,8 @@ export default function ReportsList({ onReportClick, initialFilters = {} }: Repo
                 </Button>
               </div>
               <div className="text-xs sm:text-sm text-muted-foreground flex-1">
-                <span className="hidden sm:inline">Showing {Math.min(total, ((filters.offset || 0) + (filters.limit || 10)))} of {total} reports</span>
-                <span className="inline sm:hidden">{Math.min(total, ((filters.offset || 0) + (filters.limit || 10)))} / {total}</span>
+                <span className="hidden sm:inline">Showing {Math.min(total, (filters.offset || 0) + reports.length)} of {total} reports</span>
+                <span className="inline sm:hidden">{Math.min(total, (filters.offset || 0) + reports.length)} / {total}</span>
               </div>
               {hasMore && (
                 <Button
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface SearchHighlightProps {
+  // Snippet from the API with matches wrapped in <mark></mark>
+  text: string;
+  className?: string;
+}
+
+// Renders search snippets without dangerouslySetInnerHTML: only the <mark> tags
+// produced by the backend become elements, everything else stays plain text
+export default function SearchHighlight({ text, className }: SearchHighlightProps) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+  return (
+    <span className={className}>
+      {parts.map((part, i) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={i} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
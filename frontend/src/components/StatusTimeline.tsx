@@ -0,0 +1,51 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ReportStatusChange } from '@/types';
+
+interface StatusTimelineProps {
+  // Report creation time, shown as the first "Submitted" entry
+  createdAt: string;
+  history: ReportStatusChange[];
+  // Admin view: show who made each change and the internal note
+  showActors?: boolean;
+}
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  'Submitted': 'bg-blue-500',
+  'In Review': 'bg-yellow-500',
+  'In Progress': 'bg-orange-500',
+  'Resolved': 'bg-green-500',
+  'Closed': 'bg-gray-500',
+};
+
+export default function StatusTimeline({ createdAt, history, showActors = false }: StatusTimelineProps) {
+  const entries = [
+    { id: 'created', title: 'Report submitted', status: 'Submitted', publicMessage: null as string | null, note: null as string | null, actor: null as string | null, at: createdAt },
+    ...history.map(change => ({
+      id: change.id,
+      title: change.old_status ? `${change.old_status} → ${change.new_status}` : change.new_status,
+      status: change.new_status as string,
+      publicMessage: change.public_message,
+      note: change.note || null,
+      actor: change.changed_by_email || change.changed_by || null,
+      at: change.created_at,
+    })),
+  ];
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${STATUS_DOT_COLORS[entry.status] || 'bg-gray-400'}`} />
+          <p className="text-sm font-medium">{entry.title}</p>
+          <p className="text-xs text-gray-500">
+            {format(new Date(entry.at), 'PPP p')} ({formatDistanceToNow(new Date(entry.at), { addSuffix: true })})
+          </p>
+          {entry.publicMessage && <p className="text-sm text-gray-700 mt-1">{entry.publicMessage}</p>}
+          {showActors && entry.note && <p className="text-xs text-gray-600 mt-1 italic">Internal: {entry.note}</p>}
+          {showActors && entry.actor && <p className="text-xs text-gray-500 mt-1">by {entry.actor}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, ThumbsUp } from 'lucide-react';
+import { reportsApi } from '@/services/api';
+import { settingsDB } from '@/lib/db';
+import { SupportResult } from '@/types';
+
+interface SupportButtonProps {
+  reportId: string;
+  count?: number;
+  size?: 'sm' | 'default';
+  onSupported?: (result: SupportResult) => void;
+}
+
+// "This is my issue too" with the current support count; one support per device
+export default function SupportButton({ reportId, count = 0, size = 'sm', onSupported }: SupportButtonProps) {
+  const [supportCount, setSupportCount] = useState(count);
+  const [supported, setSupported] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards open the report on click
+    e.stopPropagation();
+    if (supported || loading) return;
+    try {
+      setLoading(true);
+      setError('');
+      const deviceToken = await settingsDB.getDeviceToken().catch(() => undefined);
+      const result = await reportsApi.supportReport(reportId, deviceToken);
+      setSupportCount(result.support_count);
+      setSupported(true);
+      onSupported?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record support');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={supported ? 'secondary' : 'outline'}
+      size={size}
+      className={size === 'sm' ? 'h-7 px-2 text-xs gap-1' : 'gap-2'}
+      onClick={handleClick}
+      disabled={supported || loading}
+      title={error || (supported ? 'You support this report' : 'This is my issue too')}
+      aria-label={`Support this report (${supportCount} supporters)`}
+    >
+      {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ThumbsUp className="h-3.5 w-3.5" />}
+      <span>{supportCount}</span>
+      <span className="hidden sm:inline">{supported ? 'Supported' : 'Me too'}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,23 @@
+// Provides a getter for the Clerk session token sent to /api/v1/admin/* as a Bearer header.
+// useAuth() requires ClerkProvider, so the no-auth variant is selected once at module load.
+import { useCallback } from "react";
+import { useAuth } from "@clerk/nextjs";
+
+export type AdminTokenGetter = () => Promise<string | null>;
+
+const isClerkConfigured = !!process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY;
+
+function useClerkAdminToken(): AdminTokenGetter {
+  const { getToken } = useAuth();
+  return useCallback(() => getToken(), [getToken]);
+}
+
+function useNoAdminToken(): AdminTokenGetter {
+  return useCallback(async () => null, []);
+}
+
+export const useAdminToken: () => AdminTokenGetter = isClerkConfigured
+  ? useClerkAdminToken
+  : useNoAdminToken;
+
+export default useAdminToken;
@@ -0,0 +1,158 @@
+// Place search for location pickers: local landmarks first, Mapbox as fallback.
+// The landmark list is cached in IndexedDB so searches keep working offline.
+import { useEffect, useState } from "react";
+import { landmarksApi } from "@/services/api";
+import { forwardGeocode } from "@/services/mapbox";
+import { landmarksDB } from "@/lib/db";
+import { Landmark } from "@/types";
+
+export interface LocationSuggestion {
+  id: string;
+  place_name: string;
+  center: [number, number]; // [lng, lat]
+  source: "landmark" | "mapbox";
+}
+
+export interface UseLocationSearchReturn {
+  suggestions: LocationSuggestion[];
+  loading: boolean;
+  clear: () => void;
+}
+
+const DEBOUNCE_MS = 300;
+
+// Refreshed from the API at most once per page load
+let landmarkCacheRefresh: Promise<void> | null = null;
+
+function refreshLandmarkCache(): Promise<void> {
+  if (!landmarkCacheRefresh) {
+    landmarkCacheRefresh = landmarksApi
+      .getLandmarks()
+      .then((response) => landmarksDB.replaceLandmarks(response.landmarks))
+      .catch((error) => {
+        console.warn("Landmark cache refresh failed:", error);
+        landmarkCacheRefresh = null;
+      });
+  }
+  return landmarkCacheRefresh;
+}
+
+function toSuggestion(landmark: Landmark): LocationSuggestion {
+  const place = [landmark.name, landmark.purok, landmark.barangay_name]
+    .filter(Boolean)
+    .join(", ");
+  return {
+    id: `landmark:${landmark.id}`,
+    place_name: place,
+    center: [landmark.location.longitude, landmark.location.latitude],
+    source: "landmark",
+  };
+}
+
+// Whole-word match, so "purok 1" does not match inside "purok 13"
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}($|\\W)`).test(text);
+}
+
+// Offline matching: a name or alias inside the query ("near the chapel") or
+// the query inside a name ("chap"); a mentioned purok lists its landmarks and
+// ranks name matches in it higher
+function matchCachedLandmarks(
+  landmarks: Landmark[],
+  query: string,
+  limit: number
+): Landmark[] {
+  const needle = query.trim().toLowerCase();
+  return landmarks
+    .map((landmark) => {
+      const names = [landmark.name, ...landmark.aliases].map((n) =>
+        n.toLowerCase()
+      );
+      const nameScore = names.some((n) => containsPhrase(needle, n))
+        ? 1
+        : names.some((n) => n.includes(needle))
+          ? 0.7
+          : 0;
+      const inPurok =
+        !!landmark.purok &&
+        containsPhrase(needle, landmark.purok.toLowerCase());
+      return { landmark, score: nameScore + (inPurok ? 0.3 : 0) };
+    })
+    .filter((match) => match.score > 0)
+    .sort(
+      (a, b) => b.score - a.score || a.landmark.name.localeCompare(b.landmark.name)
+    )
+    .slice(0, limit)
+    .map((match) => match.landmark);
+}
+
+async function searchLandmarks(
+  query: string,
+  limit: number
+): Promise<Landmark[]> {
+  const online = typeof navigator === "undefined" || navigator.onLine;
+  if (online) {
+    refreshLandmarkCache();
+    try {
+      const response = await landmarksApi.searchLandmarks(query, limit);
+      return response.landmarks;
+    } catch (error) {
+      console.warn("Landmark search failed, using cached list:", error);
+    }
+  }
+
+  try {
+    return matchCachedLandmarks(await landmarksDB.getLandmarks(), query, limit);
+  } catch {
+    return [];
+  }
+}
+
+export function useLocationSearch(
+  query: string,
+  limit: number = 5
+): UseLocationSearchReturn {
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const handle = setTimeout(async () => {
+      if (!query.trim()) {
+        setSuggestions([]);
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      try {
+        const landmarks = await searchLandmarks(query, limit);
+        let results = landmarks.map(toSuggestion);
+        // Geocoder only when no local place matches
+        if (results.length === 0) {
+          const places = await forwardGeocode(query, limit);
+          results = places.map((place) => ({
+            id: place.id,
+            place_name: place.place_name,
+            center: place.center,
+            source: "mapbox" as const,
+          }));
+        }
+        if (!cancelled) setSuggestions(results);
+      } catch (error) {
+        console.warn("Location search failed", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [query, limit]);
+
+  return { suggestions, loading, clear: () => setSuggestions([]) };
+}
+
+export default useLocationSearch;
@@ -29,31 +29,36 @@ export function useReports(
   });
   const [total, setTotal] = useState(0);
   const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // Keyset pagination needs the default created_at ordering and no search ranking
+  const useCursor =
+    !filters.search && (!filters.sortBy || filters.sortBy === "created_at");
 
   const loadReports = useCallback(
-    async (resetList = false): Promise<void> => {
+    async (): Promise<void> => {
       try {
         setLoading(true);
         setError(null);
 
-        const currentFilters = resetList ? { ...filters, offset: 0 } : filters;
-        const response = await reportsApi.getReports(currentFilters);
-
-        if (resetList || currentFilters.offset === 0) {
-          setReports(response.reports);
-        } else {
-          setReports((prev) => [...prev, ...response.reports]);
-        }
+        // First page: cursor mode still asks for the total once
+        const response = await reportsApi.getReports(
+          useCursor
+            ? { ...filters, offset: undefined, pagination: "cursor", includeTotal: true }
+            : { ...filters, offset: 0 }
+        );
 
-        setTotal(response.total);
+        setReports(response.reports);
+        setTotal(response.total ?? response.reports.length);
         setHasMore(response.hasMore);
+        setNextCursor(response.nextCursor ?? null);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load reports");
       } finally {
         setLoading(false);
       }
     },
-    [filters]
+    [filters, useCursor]
   );
 
   const loadCategories = async () => {
@@ -77,7 +82,7 @@ export function useReports(
   }, []);
 
   useEffect(() => {
-    loadReports(true);
+    loadReports();
   }, [loadReports]);
 
   const handleSetFilters = (newFilters: ReportFilters) => {
@@ -89,15 +94,30 @@ export function useReports(
   };
 
   const refreshReports = () => {
-    loadReports(true);
+    loadReports();
   };
 
-  const loadMore = () => {
-    if (!loading && hasMore) {
-      setFilters((prev) => ({
-        ...prev,
-        offset: (prev.offset || 0) + (prev.limit || 20),
-      }));
+  // Appends the next page without touching filters (which would reset the list)
+  const loadMore = async () => {
+    if (loading || !hasMore) return;
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await reportsApi.getReports(
+        useCursor && nextCursor
+          ? { ...filters, offset: undefined, cursor: nextCursor }
+          : { ...filters, offset: reports.length }
+      );
+
+      setReports((prev) => [...prev, ...response.reports]);
+      if (response.total !== undefined) setTotal(response.total);
+      setHasMore(response.hasMore);
+      setNextCursor(response.nextCursor ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load more reports");
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -1,11 +1,11 @@
 // IndexedDB setup for offline storage
 // This module provides a wrapper around IndexedDB for storing reports, categories, and sync queue
 
-import { Report, Category, ReportFormData } from "@/types";
+import { Report, Category, ReportFormData, Landmark } from "@/types";
 
 // Database configuration
 const DB_NAME = "FixMyBarangayDB";
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 
 // Object store names
 const STORES = {
@@ -13,6 +13,9 @@ const STORES = {
   CATEGORIES: "categories",
   OFFLINE_QUEUE: "offlineQueue",
   SYNC_STATUS: "syncStatus",
+  SETTINGS: "settings",
+  TRACKING_TOKENS: "trackingTokens",
+  LANDMARKS: "landmarks",
 } as const;
 
 // IndexedDB database instance
@@ -36,6 +39,19 @@ export interface SyncStatus {
   pending_count: number;
 }
 
+// Key-value setting (e.g. the anonymous device token)
+export interface Setting {
+  key: string;
+  value: string;
+}
+
+// Tracking token for a report submitted from this device
+export interface TrackingToken {
+  report_id: string;
+  token: string;
+  created_at: number;
+}
+
 // Initialize IndexedDB
 export async function initDB(): Promise<IDBDatabase> {
   if (db) {
@@ -95,6 +111,31 @@ export async function initDB(): Promise<IDBDatabase> {
         });
         console.log("✅ Sync status store created");
       }
+
+      // Create settings store (added in version 2)
+      if (!database.objectStoreNames.contains(STORES.SETTINGS)) {
+        database.createObjectStore(STORES.SETTINGS, {
+          keyPath: "key",
+        });
+        console.log("✅ Settings store created");
+      }
+
+      // Create tracking tokens store (added in version 3)
+      if (!database.objectStoreNames.contains(STORES.TRACKING_TOKENS)) {
+        const tokensStore = database.createObjectStore(STORES.TRACKING_TOKENS, {
+          keyPath: "report_id",
+        });
+        tokensStore.createIndex("created_at", "created_at", { unique: false });
+        console.log("✅ Tracking tokens store created");
+      }
+
+      // Create landmarks store (added in version 4)
+      if (!database.objectStoreNames.contains(STORES.LANDMARKS)) {
+        database.createObjectStore(STORES.LANDMARKS, {
+          keyPath: "id",
+        });
+        console.log("✅ Landmarks store created");
+      }
     };
   });
 }
@@ -488,6 +529,162 @@ export const syncStatusDB = {
   },
 };
 
+// Settings operations
+export const settingsDB = {
+  async getSetting(key: string): Promise<string | null> {
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.SETTINGS,
+        "readonly",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          return new Promise<string | null>((resolve, reject) => {
+            const request = objectStore.get(key);
+            request.onsuccess = () =>
+              resolve((request.result as Setting | undefined)?.value ?? null);
+            request.onerror = () => reject(request.error);
+          });
+        }
+      );
+    });
+  },
+
+  async setSetting(key: string, value: string): Promise<void> {
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.SETTINGS,
+        "readwrite",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          return new Promise<void>((resolve, reject) => {
+            const request = objectStore.put({ key, value } as Setting);
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+          });
+        }
+      );
+    });
+  },
+
+  // Random per-browser token used to count one support per device; created on first use
+  async getDeviceToken(): Promise<string> {
+    const existing = await this.getSetting("device_token");
+    if (existing) return existing;
+
+    const token = crypto.randomUUID().replace(/-/g, "");
+    await this.setSetting("device_token", token);
+    return token;
+  },
+};
+
+// Tracking token operations ("My Reports")
+export const trackingTokensDB = {
+  // Remember the token returned when a report was created
+  async saveToken(reportId: string, token: string): Promise<void> {
+    const entry: TrackingToken = {
+      report_id: reportId,
+      token,
+      created_at: Date.now(),
+    };
+
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.TRACKING_TOKENS,
+        "readwrite",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          return new Promise<void>((resolve, reject) => {
+            const request = objectStore.put(entry);
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+          });
+        }
+      );
+    });
+  },
+
+  // Get all tokens (newest first)
+  async getTokens(): Promise<TrackingToken[]> {
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.TRACKING_TOKENS,
+        "readonly",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          return new Promise<TrackingToken[]>((resolve, reject) => {
+            const request = objectStore.getAll();
+            request.onsuccess = () => {
+              const tokens = (request.result as TrackingToken[]).sort(
+                (a, b) => b.created_at - a.created_at
+              );
+              resolve(tokens);
+            };
+            request.onerror = () => reject(request.error);
+          });
+        }
+      );
+    });
+  },
+};
+
+// Landmark gazetteer operations (offline address search)
+export const landmarksDB = {
+  // Replace the cached list (landmarks deleted on the server disappear too)
+  async replaceLandmarks(landmarks: Landmark[]): Promise<void> {
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.LANDMARKS,
+        "readwrite",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          await new Promise<void>((resolve, reject) => {
+            const request = objectStore.clear();
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+          });
+
+          for (const landmark of landmarks) {
+            await new Promise<void>((resolve, reject) => {
+              const request = objectStore.put(landmark);
+              request.onsuccess = () => resolve();
+              request.onerror = () => reject(request.error);
+            });
+          }
+        }
+      );
+    });
+  },
+
+  async getLandmarks(): Promise<Landmark[]> {
+    return withDB(async (database) => {
+      return withTransaction(
+        database,
+        STORES.LANDMARKS,
+        "readonly",
+        async (store) => {
+          const objectStore = store as IDBObjectStore;
+
+          return new Promise<Landmark[]>((resolve, reject) => {
+            const request = objectStore.getAll();
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+          });
+        }
+      );
+    });
+  },
+};
+
 // Utility functions
 export const dbUtils = {
   // Check if IndexedDB is supported
@@ -532,6 +729,9 @@ const dbModule = {
   categoriesDB,
   offlineQueueDB,
   syncStatusDB,
+  settingsDB,
+  trackingTokensDB,
+  landmarksDB,
   dbUtils,
 };
 
@@ -2,7 +2,12 @@
 // This module handles queuing reports when offline and managing submission retries
 
 import { ReportFormData } from "@/types";
-import { offlineQueueDB, syncStatusDB, OfflineQueueItem } from "./db";
+import {
+  offlineQueueDB,
+  syncStatusDB,
+  trackingTokensDB,
+  OfflineQueueItem,
+} from "./db";
 import { reportsApi } from "@/services/api";
 
 // Queue configuration
@@ -309,6 +314,13 @@ class OfflineQueueManager {
 
         console.log(`✅ Report submitted successfully: ${report.id}`);
 
+        // Keep the token so the synced report shows up under "My Reports"
+        if (report.tracking_token) {
+          await trackingTokensDB
+            .saveToken(report.id, report.tracking_token)
+            .catch((err) => console.error("Failed to save tracking token:", err));
+        }
+
         // Remove from queue on success
         await offlineQueueDB.removeFromQueue(item.id);
       } else {
@@ -0,0 +1,22 @@
+import { ReportStatus } from "@/types";
+
+// Mirrors STATUS_TRANSITIONS in backend/src/models/Report.ts (the backend enforces it)
+export const STATUS_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> = {
+  Submitted: ["In Review", "Closed"],
+  "In Review": ["In Progress", "Resolved", "Closed"],
+  "In Progress": ["In Review", "Resolved", "Closed"],
+  Resolved: ["Closed", "In Progress"],
+  Closed: ["In Review"],
+};
+
+const FINAL_STATUSES: readonly ReportStatus[] = ["Resolved", "Closed"];
+
+// Current status first, followed by the legal next states
+export function getStatusOptions(current: ReportStatus): ReportStatus[] {
+  return [current, ...STATUS_TRANSITIONS[current]];
+}
+
+// Leaving Resolved/Closed for an active state needs a reason
+export function isReopenTransition(from: ReportStatus, to: ReportStatus): boolean {
+  return FINAL_STATUSES.includes(from) && !FINAL_STATUSES.includes(to);
+}
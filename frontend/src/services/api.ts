@@ -2,16 +2,42 @@ import {
   Report,
   ReportSubmission,
   ReportsResponse,
+  ReportFeatureCollection,
   CategoriesResponse,
+  BarangaysResponse,
+  LandmarksResponse,
   LocationValidationResponse,
+  ServiceAreaResponse,
   ReportFilters,
+  ReportStats,
+  ReportStatsFilters,
+  ReportStatusChange,
+  AdminNote,
+  NearbyReportsResponse,
+  MyReportsResponse,
+  ReportComment,
+  CommentStatus,
+  SupportResult,
+  DuplicateCandidate,
+  MergeReportResponse,
+  BulkReportRequest,
+  ReportAssignment,
+  RoutingRulesResponse,
+  AdminUser,
+  AdminUserInput,
+  AdminRole,
+  BulkReportResponse,
   ApiResponse,
   Location,
+  ReportCategory,
   Category,
 } from "@/types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL;
 
+// Tracking tokens accepted per GET /reports/mine request (backend MAX_TRACKING_TOKENS)
+const MAX_TRACKING_TOKENS = 50;
+
 // Validate API URL on initialization
 if (!API_BASE_URL || API_BASE_URL === "undefined") {
   console.error(
@@ -36,6 +62,14 @@ async function apiRequest<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<ApiResponse<T>> {
+  return fetchJson<ApiResponse<T>>(endpoint, options);
+}
+
+// Fetch a JSON body as-is (GeoJSON endpoints are not wrapped in ApiResponse)
+async function fetchJson<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
   // Check if API base URL is configured
   if (!API_BASE_URL || API_BASE_URL === "undefined") {
     throw new ApiError(
@@ -49,11 +83,11 @@ async function apiRequest<T>(
 
   try {
     const response = await fetch(url, {
+      ...options,
       headers: {
         "Content-Type": "application/json",
         ...options.headers,
       },
-      ...options,
     });
 
     if (!response.ok) {
@@ -91,7 +125,8 @@ async function apiRequest<T>(
 
     // Check content type to ensure we're getting JSON
     const contentType = response.headers.get("content-type");
-    if (!contentType || !contentType.includes("application/json")) {
+    // application/json or a +json type such as application/geo+json
+    if (!contentType || !/application\/([\w.-]+\+)?json/.test(contentType)) {
       const responseText = await response.text();
       throw new ApiError(
         `Expected JSON response but got ${
@@ -118,16 +153,48 @@ async function apiRequest<T>(
   }
 }
 
+// Serialize report listing filters into query params
+function buildReportSearchParams(filters: ReportFilters): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  const categories = [
+    ...(filters.category ? [filters.category] : []),
+    ...(filters.categories || []),
+  ];
+  const statuses = [
+    ...(filters.status ? [filters.status] : []),
+    ...(filters.statuses || []),
+  ];
+
+  if (categories.length) searchParams.set("category", categories.join(","));
+  if (statuses.length) searchParams.set("status", statuses.join(","));
+  if (filters.search) searchParams.set("search", filters.search);
+  if (filters.created_from) searchParams.set("created_from", filters.created_from);
+  if (filters.created_to) searchParams.set("created_to", filters.created_to);
+  if (filters.resolved_from) searchParams.set("resolved_from", filters.resolved_from);
+  if (filters.resolved_to) searchParams.set("resolved_to", filters.resolved_to);
+  if (filters.bbox) searchParams.set("bbox", filters.bbox.join(","));
+  if (filters.sortBy) searchParams.set("sortBy", filters.sortBy);
+  if (filters.sortOrder) searchParams.set("sortOrder", filters.sortOrder);
+  if (filters.limit) searchParams.set("limit", filters.limit.toString());
+  if (filters.offset) searchParams.set("offset", filters.offset.toString());
+  if (filters.assigned_to) searchParams.set("assigned_to", filters.assigned_to);
+  if (filters.department) searchParams.set("department", filters.department);
+  if (filters.barangay) searchParams.set("barangay", filters.barangay);
+  if (filters.pagination) searchParams.set("pagination", filters.pagination);
+  if (filters.cursor) searchParams.set("cursor", filters.cursor);
+  if (filters.includeTotal !== undefined) {
+    searchParams.set("includeTotal", String(filters.includeTotal));
+  }
+
+  return searchParams;
+}
+
 // Reports API
 export const reportsApi = {
   // Get reports with filtering
   async getReports(filters: ReportFilters = {}): Promise<ReportsResponse> {
-    const searchParams = new URLSearchParams();
-
-    if (filters.category) searchParams.set("category", filters.category);
-    if (filters.status) searchParams.set("status", filters.status);
-    if (filters.limit) searchParams.set("limit", filters.limit.toString());
-    if (filters.offset) searchParams.set("offset", filters.offset.toString());
+    const searchParams = buildReportSearchParams(filters);
 
     const endpoint = `/api/v1/reports${
       searchParams.toString() ? `?${searchParams.toString()}` : ""
@@ -136,12 +203,113 @@ export const reportsApi = {
     return response.data;
   },
 
+  // Reports in a viewport as GeoJSON; below the cluster zoom they come back clustered
+  async getReportsGeoJSON(
+    filters: ReportFilters = {},
+    zoom?: number
+  ): Promise<ReportFeatureCollection> {
+    const searchParams = buildReportSearchParams(filters);
+    if (zoom !== undefined) searchParams.set("zoom", zoom.toFixed(2));
+
+    return fetchJson<ReportFeatureCollection>(
+      `/api/v1/reports.geojson?${searchParams.toString()}`
+    );
+  },
+
+  // Vector tile URL template ({z}/{x}/{y}) for a Mapbox GL "vector" source
+  getReportTilesUrl(filters: ReportFilters = {}): string {
+    // The tile itself is the bbox
+    const searchParams = buildReportSearchParams({ ...filters, bbox: undefined });
+    const query = searchParams.toString();
+    return `${API_BASE_URL}/api/v1/tiles/{z}/{x}/{y}.mvt${query ? `?${query}` : ""}`;
+  },
+
   // Get specific report by ID
   async getReport(id: string): Promise<Report> {
     const response = await apiRequest<Report>(`/api/v1/reports/${id}`);
     return response.data;
   },
 
+  // Get public status history (no actor identity)
+  async getReportHistory(id: string): Promise<ReportStatusChange[]> {
+    const response = await apiRequest<ReportStatusChange[]>(
+      `/api/v1/reports/${id}/history`
+    );
+    return response.data;
+  },
+
+  // Published comments on a report (oldest first)
+  async getComments(id: string): Promise<ReportComment[]> {
+    const response = await apiRequest<ReportComment[]>(
+      `/api/v1/reports/${id}/comments`
+    );
+    return response.data;
+  },
+
+  // Post a resident comment; comments caught by the filter come back as pending
+  async postComment(id: string, body: string): Promise<ReportComment> {
+    const response = await apiRequest<ReportComment>(
+      `/api/v1/reports/${id}/comments`,
+      {
+        method: "POST",
+        body: JSON.stringify({ body }),
+      }
+    );
+    return response.data;
+  },
+
+  // Reports submitted from this device, looked up by their tracking tokens.
+  // The backend takes MAX_TRACKING_TOKENS per request, so larger sets are batched.
+  async getMyReports(tokens: string[]): Promise<Report[]> {
+    if (tokens.length === 0) return [];
+    const batches: string[][] = [];
+    for (let i = 0; i < tokens.length; i += MAX_TRACKING_TOKENS) {
+      batches.push(tokens.slice(i, i + MAX_TRACKING_TOKENS));
+    }
+    const responses = await Promise.all(
+      batches.map((batch) =>
+        apiRequest<MyReportsResponse>("/api/v1/reports/mine", {
+          headers: { "X-Tracking-Tokens": batch.join(",") },
+        })
+      )
+    );
+    // Newest first, as each response is
+    return responses
+      .flatMap((response) => response.data.reports)
+      .sort(
+        (a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      );
+  },
+
+  // Open reports near a point, optionally of one category (pre-submit suggestions)
+  async getNearbyReports(
+    location: Location,
+    category?: ReportCategory
+  ): Promise<NearbyReportsResponse> {
+    const params = new URLSearchParams({
+      lat: location.latitude.toString(),
+      lng: location.longitude.toString(),
+    });
+    if (category) params.append("category", category);
+    const response = await apiRequest<NearbyReportsResponse>(
+      `/api/v1/reports/nearby?${params.toString()}`
+    );
+    return response.data;
+  },
+
+  // "This is my issue too" on an existing report; the device token dedups per browser
+  async supportReport(id: string, deviceToken?: string): Promise<SupportResult> {
+    const response = await apiRequest<SupportResult>(
+      `/api/v1/reports/${id}/support`,
+      {
+        method: "POST",
+        body: JSON.stringify(deviceToken ? { device_token: deviceToken } : {}),
+      }
+    );
+    return response.data;
+  },
+
   // Submit new report
   async submitReport(reportData: ReportSubmission): Promise<Report> {
     const response = await apiRequest<Report>("/api/v1/reports", {
@@ -152,6 +320,293 @@ export const reportsApi = {
   },
 };
 
+// Build Authorization header for admin endpoints (Clerk session token)
+function adminHeaders(token?: string | null): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Admin API (requires a Clerk session token for an admin_users member)
+export const adminApi = {
+  // Get reports for moderation
+  async getReports(
+    filters: ReportFilters = {},
+    token?: string | null
+  ): Promise<ReportsResponse> {
+    const searchParams = buildReportSearchParams(filters);
+
+    const endpoint = `/api/v1/admin/reports${
+      searchParams.toString() ? `?${searchParams.toString()}` : ""
+    }`;
+    const response = await apiRequest<ReportsResponse>(endpoint, {
+      headers: adminHeaders(token),
+    });
+    return response.data;
+  },
+
+  // Update report status and/or append an internal note. `note` is the internal
+  // reason stored with the status history entry; `public_message` is shown to residents.
+  async updateReport(
+    id: string,
+    update: Partial<Pick<Report, "status" | "duplicate_of">> & {
+      admin_note?: string;
+      note?: string;
+      public_message?: string;
+    },
+    token?: string | null
+  ): Promise<Report> {
+    const response = await apiRequest<Report>(`/api/v1/admin/reports/${id}`, {
+      method: "PUT",
+      headers: adminHeaders(token),
+      body: JSON.stringify(update),
+    });
+    return response.data;
+  },
+
+  // Change assignee and/or department
+  // Scored duplicate candidates for a report
+  async getDuplicateCandidates(
+    id: string,
+    token?: string | null
+  ): Promise<DuplicateCandidate[]> {
+    const response = await apiRequest<DuplicateCandidate[]>(
+      `/api/v1/admin/reports/${id}/duplicates`,
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Link a duplicate to its canonical report and close it with a reason
+  async mergeReport(
+    id: string,
+    canonicalId: string,
+    reason: string,
+    token?: string | null
+  ): Promise<MergeReportResponse> {
+    const response = await apiRequest<MergeReportResponse>(
+      `/api/v1/admin/reports/${id}/merge`,
+      {
+        method: "POST",
+        headers: adminHeaders(token),
+        body: JSON.stringify({ canonical_id: canonicalId, reason }),
+      }
+    );
+    return response.data;
+  },
+
+  async assignReport(
+    id: string,
+    assignment: ReportAssignment,
+    token?: string | null
+  ): Promise<Report> {
+    const response = await apiRequest<Report>(
+      `/api/v1/admin/reports/${id}/assign`,
+      {
+        method: "PUT",
+        headers: adminHeaders(token),
+        body: JSON.stringify(assignment),
+      }
+    );
+    return response.data;
+  },
+
+  // Category routing rules and the department list
+  async getRoutingRules(token?: string | null): Promise<RoutingRulesResponse> {
+    const response = await apiRequest<RoutingRulesResponse>(
+      "/api/v1/admin/routing-rules",
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Apply one action to many reports (dryRun previews without saving)
+  async bulkUpdate(
+    request: BulkReportRequest,
+    token?: string | null
+  ): Promise<BulkReportResponse> {
+    const response = await apiRequest<BulkReportResponse>(
+      "/api/v1/admin/reports/bulk",
+      {
+        method: "POST",
+        headers: adminHeaders(token),
+        body: JSON.stringify(request),
+      }
+    );
+    return response.data;
+  },
+
+  // Get status history including who made each change
+  async getReportHistory(
+    id: string,
+    token?: string | null
+  ): Promise<ReportStatusChange[]> {
+    const response = await apiRequest<ReportStatusChange[]>(
+      `/api/v1/admin/reports/${id}/history`,
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Internal notes for a report, oldest first
+  async getNotes(id: string, token?: string | null): Promise<AdminNote[]> {
+    const response = await apiRequest<AdminNote[]>(
+      `/api/v1/admin/reports/${id}/notes`,
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Append an internal note (notes cannot be edited); returns the updated log
+  async addNote(
+    id: string,
+    body: string,
+    token?: string | null
+  ): Promise<AdminNote[]> {
+    const response = await apiRequest<AdminNote[]>(
+      `/api/v1/admin/reports/${id}/notes`,
+      {
+        method: "POST",
+        headers: adminHeaders(token),
+        body: JSON.stringify({ body }),
+      }
+    );
+    return response.data;
+  },
+
+  // List admin users with last login (admin role)
+  async getUsers(token?: string | null): Promise<AdminUser[]> {
+    const response = await apiRequest<AdminUser[]>("/api/v1/admin/users", {
+      headers: adminHeaders(token),
+    });
+    return response.data;
+  },
+
+  // Add an admin user (updates email/role if the Clerk user already exists)
+  async createUser(
+    user: AdminUserInput,
+    token?: string | null
+  ): Promise<AdminUser> {
+    const response = await apiRequest<AdminUser>("/api/v1/admin/users", {
+      method: "POST",
+      headers: adminHeaders(token),
+      body: JSON.stringify(user),
+    });
+    return response.data;
+  },
+
+  // Change role and/or disable / re-enable an admin user
+  async updateUser(
+    clerkUserId: string,
+    update: { role?: AdminRole; disabled?: boolean; barangay_id?: string | null },
+    token?: string | null
+  ): Promise<AdminUser> {
+    const response = await apiRequest<AdminUser>(
+      `/api/v1/admin/users/${encodeURIComponent(clerkUserId)}`,
+      {
+        method: "PATCH",
+        headers: adminHeaders(token),
+        body: JSON.stringify(update),
+      }
+    );
+    return response.data;
+  },
+
+  async deleteUser(clerkUserId: string, token?: string | null): Promise<void> {
+    await apiRequest<null>(
+      `/api/v1/admin/users/${encodeURIComponent(clerkUserId)}`,
+      {
+        method: "DELETE",
+        headers: adminHeaders(token),
+      }
+    );
+  },
+
+  // All comments on a report, including held and hidden ones
+  async getReportComments(
+    id: string,
+    token?: string | null
+  ): Promise<ReportComment[]> {
+    const response = await apiRequest<ReportComment[]>(
+      `/api/v1/admin/reports/${id}/comments`,
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Official reply on a report
+  async postOfficialComment(
+    id: string,
+    body: string,
+    token?: string | null
+  ): Promise<ReportComment> {
+    const response = await apiRequest<ReportComment>(
+      `/api/v1/admin/reports/${id}/comments`,
+      {
+        method: "POST",
+        headers: adminHeaders(token),
+        body: JSON.stringify({ body }),
+      }
+    );
+    return response.data;
+  },
+
+  // Moderation queue (pending by default)
+  async getComments(
+    status: CommentStatus = "pending",
+    token?: string | null
+  ): Promise<ReportComment[]> {
+    const response = await apiRequest<ReportComment[]>(
+      `/api/v1/admin/comments?status=${status}`,
+      { headers: adminHeaders(token) }
+    );
+    return response.data;
+  },
+
+  // Publish or hide a comment
+  async moderateComment(
+    id: string,
+    status: "visible" | "hidden",
+    token?: string | null
+  ): Promise<ReportComment> {
+    const response = await apiRequest<ReportComment>(
+      `/api/v1/admin/comments/${id}`,
+      {
+        method: "PATCH",
+        headers: adminHeaders(token),
+        body: JSON.stringify({ status }),
+      }
+    );
+    return response.data;
+  },
+
+  async deleteComment(id: string, token?: string | null): Promise<void> {
+    await apiRequest<null>(`/api/v1/admin/comments/${id}`, {
+      method: "DELETE",
+      headers: adminHeaders(token),
+    });
+  },
+
+  // Get aggregate dashboard statistics (computed server-side)
+  async getStats(
+    filters: ReportStatsFilters = {},
+    token?: string | null
+  ): Promise<ReportStats> {
+    const searchParams = new URLSearchParams();
+
+    if (filters.category) searchParams.set("category", filters.category);
+    if (filters.barangay) searchParams.set("barangay", filters.barangay);
+    if (filters.from) searchParams.set("from", filters.from);
+    if (filters.to) searchParams.set("to", filters.to);
+
+    const endpoint = `/api/v1/admin/stats${
+      searchParams.toString() ? `?${searchParams.toString()}` : ""
+    }`;
+    const response = await apiRequest<ReportStats>(endpoint, {
+      headers: adminHeaders(token),
+    });
+    return response.data;
+  },
+};
+
 // Fallback categories for offline or error cases
 export const FALLBACK_CATEGORIES = [
   {
@@ -263,6 +718,38 @@ export const categoriesApi = {
   },
 };
 
+// Barangays API
+export const barangaysApi = {
+  // List barangays; includeBoundary adds simplified GeoJSON boundaries
+  async getBarangays(includeBoundary: boolean = false): Promise<BarangaysResponse> {
+    const response = await apiRequest<BarangaysResponse>(
+      `/api/v1/barangays${includeBoundary ? "?boundary=true" : ""}`
+    );
+    return response.data;
+  },
+};
+
+// Landmarks API
+export const landmarksApi = {
+  // Whole gazetteer (cached in IndexedDB for offline search)
+  async getLandmarks(): Promise<LandmarksResponse> {
+    const response = await apiRequest<LandmarksResponse>("/api/v1/landmarks");
+    return response.data;
+  },
+
+  // Fuzzy search by name, alias, purok or barangay
+  async searchLandmarks(
+    query: string,
+    limit: number = 5
+  ): Promise<LandmarksResponse> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await apiRequest<LandmarksResponse>(
+      `/api/v1/landmarks/search?${params}`
+    );
+    return response.data;
+  },
+};
+
 // Location API
 export const locationApi = {
   // Validate location coordinates
@@ -280,9 +767,9 @@ export const locationApi = {
     return response.data;
   },
 
-  // Get service area bounds
-  async getServiceArea(): Promise<Record<string, unknown>> {
-    const response = await apiRequest<Record<string, unknown>>(
+  // Get registered service areas with their boundaries
+  async getServiceArea(): Promise<ServiceAreaResponse> {
+    const response = await apiRequest<ServiceAreaResponse>(
       "/api/v1/locations/service-area"
     );
     return response.data;
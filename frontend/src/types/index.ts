@@ -12,9 +12,14 @@ export interface Location {
   longitude: number;
 }
 
+export type ServiceAreaStrictness = "allow" | "warn" | "reject";
+
 export interface LocationValidationResponse {
   isValid: boolean;
   withinServiceArea: boolean;
+  // Registered area deciding the policy (null outside every area)
+  serviceArea?: string | null;
+  strictness?: ServiceAreaStrictness;
   suggestedAddress?: string;
   warnings?: string[];
   metadata: {
@@ -24,6 +29,30 @@ export interface LocationValidationResponse {
   };
 }
 
+export interface ServiceArea {
+  id: string;
+  name: string;
+  strictness: ServiceAreaStrictness;
+  priority: number;
+  message: string | null;
+  updated_at: string;
+  // [west, south, east, north]
+  bbox?: [number, number, number, number];
+  boundary?: {
+    type: "Polygon" | "MultiPolygon";
+    coordinates: unknown;
+  };
+}
+
+export interface ServiceAreaResponse {
+  areas: ServiceArea[];
+  coverage: {
+    primary: string | null;
+    outside: ServiceAreaStrictness;
+    notes: string;
+  };
+}
+
 // Report Types
 export type ReportCategory =
   | "Infrastructure"
@@ -47,12 +76,128 @@ export interface Report {
   photo_url?: string;
   photo_public_id?: string;
   status: ReportStatus;
+  // Admin views only
   reporter_ip?: string;
-  admin_notes?: string;
   duplicate_of?: string;
+  // Staff member and desk handling the report (admin views)
+  assigned_to?: string | null;
+  assigned_to_email?: string | null;
+  department?: string | null;
+  // Barangay whose boundary contains the location
+  barangay_id?: string | null;
+  barangay_name?: string | null;
   created_at: string;
   updated_at: string;
   resolved_at?: string;
+  // Residents who said "this is my issue too"
+  support_count?: number;
+  // Reports merged into this one; IDs and gallery photos on the detail endpoint only
+  duplicate_count?: number;
+  duplicate_ids?: string[];
+  photos?: ReportPhoto[];
+  // Present only on nearby results (metres from the query point)
+  distance_meters?: number;
+  // Present only on search results
+  search_rank?: number;
+  highlights?: ReportHighlights;
+  // Secret returned once by POST /reports; kept on the device to find the report later
+  tracking_token?: string;
+}
+
+export interface NearbyReportsResponse {
+  reports: Report[];
+  // Search radius in metres
+  radius: number;
+}
+
+export interface MyReportsResponse {
+  reports: Report[];
+}
+
+// Result of "this is my issue too"
+export interface SupportResult {
+  // Report that received the support (canonical report for merged duplicates)
+  report_id: string;
+  // False when this device had already supported the report
+  added: boolean;
+  support_count: number;
+}
+
+// Gallery photo copied from a merged duplicate
+export interface ReportPhoto {
+  id: string;
+  photo_url: string;
+  source_report_id: string | null;
+  created_at: string;
+}
+
+// Scored duplicate candidate (POST /reports response, admin duplicates list)
+export interface DuplicateCandidate {
+  id: string;
+  category: ReportCategory;
+  description: string;
+  status: ReportStatus;
+  distance_m: number;
+  same_category: boolean;
+  text_similarity: number;
+  // 0-1, higher is more likely the same issue
+  confidence: number;
+  created_at: string;
+}
+
+export interface MergeReportResponse {
+  duplicate: Report;
+  canonical: Report;
+}
+
+// Search snippets with matches wrapped in <mark></mark>
+export interface ReportHighlights {
+  description?: string;
+  address?: string;
+  admin_notes?: string;
+}
+
+// Status change from the report's audit trail (changed_by only on admin endpoints)
+export interface ReportStatusChange {
+  id: string;
+  report_id: string;
+  old_status: ReportStatus | null;
+  new_status: ReportStatus;
+  changed_by?: string | null;
+  changed_by_email?: string | null;
+  // Message shown to residents on the report's timeline
+  public_message: string | null;
+  // Internal reason (admin endpoints only)
+  note?: string | null;
+  created_at: string;
+}
+
+// Internal note from the report's append-only log (admin endpoints only)
+export interface AdminNote {
+  id: string;
+  report_id: string;
+  body: string;
+  created_by: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+}
+
+// Public comment thread ("it got worse after the rain"); official = staff reply
+export type CommentStatus = "visible" | "pending" | "hidden";
+
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  body: string;
+  is_official: boolean;
+  created_at: string;
+  // Admin endpoints, and the resident's own post (pending when held for review)
+  status?: CommentStatus;
+  author_ip?: string | null;
+  author_email?: string | null;
+  moderation_reason?: string | null;
+  moderated_by?: string | null;
+  moderated_at?: string | null;
 }
 
 export interface ReportSubmission {
@@ -67,10 +212,14 @@ export interface ReportSubmission {
 
 export interface ReportsResponse {
   reports: Report[];
-  total: number;
+  // Omitted in cursor mode unless includeTotal is requested
+  total?: number;
   limit: number;
-  offset: number;
+  // Omitted in cursor mode
+  offset?: number;
   hasMore: boolean;
+  // Opaque keyset cursor for the next page (null when ordering is not created_at or no more rows)
+  nextCursor?: string | null;
   maxLimit?: number;
   limitRequested?: number;
   limitApplied?: number;
@@ -91,12 +240,218 @@ export interface CategoriesResponse {
   total: number;
 }
 
+// Barangay with its (simplified GeoJSON) boundary when requested
+export interface Barangay {
+  id: string;
+  name: string;
+  city: string;
+  code: string | null;
+  boundary?: { type: "MultiPolygon"; coordinates: number[][][][] };
+}
+
+export interface BarangaysResponse {
+  barangays: Barangay[];
+  total: number;
+}
+
+// Local landmark from the gazetteer (score only on search results)
+export interface Landmark {
+  id: string;
+  name: string;
+  aliases: string[];
+  purok: string | null;
+  barangay_id: string | null;
+  barangay_name?: string | null;
+  location: Location;
+  created_at: string;
+  updated_at: string;
+  score?: number;
+}
+
+export interface LandmarksResponse {
+  landmarks: Landmark[];
+  total: number;
+}
+
+// Map data (GET /reports.geojson). Zoomed out, nearby reports come back as
+// cluster features; a report feature has point_count 1 and the report fields.
+export interface ReportMapFeature {
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: {
+    cluster: boolean;
+    point_count: number;
+    id?: string;
+    category?: ReportCategory;
+    status?: ReportStatus;
+    address?: string | null;
+    description?: string;
+    created_at?: string;
+  };
+}
+
+export interface ReportFeatureCollection {
+  type: "FeatureCollection";
+  features: ReportMapFeature[];
+  // True when the server capped the number of features
+  truncated: boolean;
+}
+
 // Filter Types
+export type ReportSortField =
+  | "created_at"
+  | "updated_at"
+  | "resolved_at"
+  | "status"
+  | "category"
+  | "support_count";
+
+// [west, south, east, north] in degrees
+export type BoundingBox = [number, number, number, number];
+
 export interface ReportFilters {
   category?: ReportCategory;
   status?: ReportStatus;
+  // Multi-value filters (sent as comma-separated lists)
+  categories?: ReportCategory[];
+  statuses?: ReportStatus[];
+  search?: string;
+  created_from?: string; // ISO date
+  created_to?: string;
+  resolved_from?: string;
+  resolved_to?: string;
+  bbox?: BoundingBox;
+  sortBy?: ReportSortField;
+  sortOrder?: "asc" | "desc";
   limit?: number;
   offset?: number;
+  // Admin queue: "me", "none" or an admin user id; department key
+  assigned_to?: string;
+  department?: string;
+  // Barangay ID (see GET /barangays)
+  barangay?: string;
+  // Keyset pagination (only with default created_at ordering and no search)
+  pagination?: "cursor" | "offset";
+  cursor?: string;
+  includeTotal?: boolean;
+}
+
+// Admin User Management
+export type AdminRole = "moderator" | "admin";
+
+export interface AdminUser {
+  clerk_user_id: string;
+  email: string;
+  role: AdminRole;
+  created_at: string;
+  last_login: string | null;
+  disabled_at: string | null;
+  // Barangay official: a moderator limited to this barangay's reports
+  barangay_id: string | null;
+  barangay_name?: string | null;
+  // Open reports currently assigned to the user
+  assigned_reports?: number;
+}
+
+export interface AdminUserInput {
+  clerk_user_id: string;
+  email: string;
+  role?: AdminRole;
+}
+
+// Admin Assignment & Routing
+export interface ReportAssignment {
+  // "me" assigns to the signed-in admin, null unassigns
+  assigned_to?: string | null;
+  department?: string | null;
+  note?: string;
+}
+
+export interface RoutingRule {
+  category: ReportCategory;
+  department: string;
+  default_assignee: string | null;
+  updated_at: string;
+}
+
+export interface RoutingRulesResponse {
+  rules: RoutingRule[];
+  // Department key -> display name
+  departments: Record<string, string>;
+}
+
+// Admin Bulk Operations
+export type BulkReportAction = "status" | "append_notes" | "mark_duplicate" | "delete";
+
+export interface BulkReportRequest {
+  ids: string[];
+  action: BulkReportAction;
+  status?: ReportStatus;
+  notes?: string;
+  duplicate_of?: string;
+  // Status history note / reason (required when reopening)
+  note?: string;
+  // Update shown to residents with the status change
+  public_message?: string;
+  dryRun?: boolean;
+}
+
+export interface BulkReportResult {
+  id: string;
+  success: boolean;
+  status?: ReportStatus;
+  error?: string;
+  message?: string;
+}
+
+export interface BulkReportResponse {
+  action: BulkReportAction;
+  dryRun: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkReportResult[];
+}
+
+// Admin Statistics Types
+export interface ReportStatsFilters {
+  category?: ReportCategory;
+  barangay?: string;
+  from?: string; // ISO date
+  to?: string; // ISO date
+}
+
+export interface ReportStats {
+  totalReports: number;
+  statusBreakdown: {
+    submitted: number;
+    "in-review": number;
+    "in-progress": number;
+    resolved: number;
+    closed: number;
+  };
+  categoryBreakdown: {
+    infrastructure: number;
+    sanitation: number;
+    safety: number;
+    water: number;
+    electrical: number;
+  };
+  recentActivity: {
+    last24Hours: number;
+    last7Days: number;
+    last30Days: number;
+  };
+  resolution: {
+    resolvedCount: number;
+    medianHours: number | null;
+  };
+  backlogAge: {
+    open: number;
+    under24Hours: number;
+    days1to7: number;
+    days7to30: number;
+    over30Days: number;
+  };
 }
 
 // Form Types